@@ -1,21 +1,104 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { Send, HeartPulse, Trash2, RotateCcw, Activity, MapPin, X, Sun, Moon, Volume2, Search, ArrowRight, ShieldCheck, Stethoscope } from 'lucide-react';
+import { Send, HeartPulse, Trash2, RotateCcw, Activity, MapPin, MapPinOff, UserRound, X, Sun, Moon, Volume2, Search, ArrowRight, Stethoscope, History, Square, CircleStop, NotebookPen, Images } from 'lucide-react';
 import Recorder from './components/Recorder';
-import { MediaAttachment, AppState, ChatMessage } from './types';
-import { analyzeHealthCondition } from './services/geminiService';
+import TriageReportView, { SafetyNote } from './components/TriageReportView';
+import EmergencyScreen from './components/EmergencyScreen';
+import SessionHistory from './components/SessionHistory';
+import SymptomDiaryPanel from './components/SymptomDiaryPanel';
+import PhotoTimelinePanel from './components/PhotoTimelinePanel';
+import PhotoSiteFiler from './components/PhotoSiteFiler';
+import ExportMenu from './components/ExportMenu';
+import BodyMap from './components/BodyMap';
+import DictationButton from './components/DictationButton';
+import LanguagePicker from './components/LanguagePicker';
+import ReadAloudPlayer from './components/ReadAloudPlayer';
+import GroundingSources from './components/GroundingSources';
+import QuickReplies from './components/QuickReplies';
+import ContextMeter from './components/ContextMeter';
+import TriageErrorNotice from './components/TriageErrorNotice';
+import ProfileEditor from './components/ProfileEditor';
+import ProfileReview, { PROFILE_FIELD_LABELS, formatProfileValue } from './components/ProfileReview';
+import SubjectPicker, { profileDisplayName } from './components/SubjectPicker';
+import PromptProfilePicker, { PromptProfileChoice } from './components/PromptProfilePicker';
+import MessageEditor, { MessageEdit } from './components/MessageEditor';
+import MessageActions from './components/MessageActions';
+import { MediaAttachment, AppState, ChatMessage, RedFlagMatch, BodyRegionSelection, HouseholdProfile, ProfileField, SymptomDiary, PhotoSite, SitePhoto, PhotoComparison, TriageErrorKind, ConversationTree } from './types';
+import { analyzeHealthCondition } from './services/triageService';
+import { toTriageError } from './services/triageErrors';
+import { previewPartialReport } from './services/triageReport';
+import { describeBodyRegion } from './utils/bodyRegions';
+import { screenForRedFlags } from './services/redFlagScreener';
+import { saveSession, loadSession, deriveSessionTitle, purgeExpiredSessions, getRetentionDays } from './services/sessionStore';
+import { listDiaries, saveDiary, deleteDiary, addDiaryEntry, newDiaryEntry } from './services/diaryStore';
+import { listPhotoSites, savePhotoSite, deletePhotoSite } from './services/photoStore';
+import { loadProfiles, saveProfiles, newProfile, filledProfileFields, pickProfileFields, SELF_PROFILE_ID } from './services/profileStore';
+import { inferPromptProfile, describePromptRef } from './services/promptProfiles';
+import { useI18n } from './i18n/I18nContext';
+import { markdownToSpeechSections, reportToSpeechSections } from './utils/speech';
+import { getShareLocation, setShareLocation } from './utils/locationPreference';
+import { blobToBase64 } from './utils/mediaUtils';
+import { onDatabaseBlocked } from './services/database';
+import { EMPTY_TREE, TREE_VERSION, toTree, pathTo, activePath, addMessage, siblingsOf, latestLeafUnder } from './utils/conversationTree';
+
+const markdownComponents: React.ComponentProps<typeof ReactMarkdown>['components'] = {
+  strong: ({node, ...props}) => <span className="font-bold text-slate-900 dark:text-white" {...props} />,
+  p: ({node, ...props}) => <p className="leading-7 mb-4 last:mb-0" {...props} />,
+  ul: ({node, ...props}) => <ul className="space-y-2 my-4" {...props} />,
+  li: ({node, ...props}) => (
+    <li className="flex gap-2 items-start" {...props}>
+      <span className="mt-2 w-1.5 h-1.5 bg-blue-500 rounded-full flex-shrink-0" />
+      <span className="flex-1">{React.Children.toArray(props.children).filter(child => child !== '\n')}</span>
+    </li>
+  )
+};
 
 const App: React.FC = () => {
+  const { language, t } = useI18n();
   const [inputText, setInputText] = useState('');
   const [attachments, setAttachments] = useState<MediaAttachment[]>([]);
   const [painLevel, setPainLevel] = useState<number | null>(null);
+  const [bodyRegions, setBodyRegions] = useState<BodyRegionSelection[]>([]);
+  const [profiles, setProfiles] = useState<HouseholdProfile[]>(loadProfiles);
+  const [subjectId, setSubjectId] = useState(SELF_PROFILE_ID);
+  const subject = profiles.find(profile => profile.id === subjectId) || profiles[0];
+  const [sharedProfileFields, setSharedProfileFields] = useState<ProfileField[]>(() => filledProfileFields(subject));
+  const [editingProfile, setEditingProfile] = useState<HouseholdProfile | null>(null);
+  const [promptChoice, setPromptChoice] = useState<PromptProfileChoice>('auto');
+  const inferredPromptProfile = inferPromptProfile(subject);
   
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // Every version of every turn; `messages` is the branch on screen
+  const [tree, setTree] = useState<ConversationTree>(EMPTY_TREE);
+  const messages = useMemo(() => activePath(tree), [tree]);
+  const [editingId, setEditingId] = useState<string | null>(null);
   const [status, setStatus] = useState<AppState>(AppState.IDLE);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [errorKind, setErrorKind] = useState<TriageErrorKind | null>(null);
+  const [retrying, setRetrying] = useState(false);
   const [location, setLocation] = useState<{lat: number, lng: number} | null>(null);
+  const [shareLocation, setShareLocationState] = useState(getShareLocation);
+  const [locationFailed, setLocationFailed] = useState(false);
+  const [databaseBlocked, setDatabaseBlocked] = useState(false);
   const [darkMode, setDarkMode] = useState(false);
+  const [emergency, setEmergency] = useState<{ matches: RedFlagMatch[], isFollowUp: boolean, text: string, edit?: { original: ChatMessage, changes: MessageEdit } } | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [diaries, setDiaries] = useState<SymptomDiary[]>([]);
+  const [showDiary, setShowDiary] = useState(false);
+  // Diary the next check follows up on, if any
+  const [diaryId, setDiaryId] = useState<string | null>(null);
+  const subjectDiaries = diaries.filter(diary => diary.profileId === subject.id);
+  const [photoSites, setPhotoSites] = useState<PhotoSite[]>([]);
+  const [showPhotos, setShowPhotos] = useState(false);
+  // Then-vs-now pair from the photo timeline, attached to the next check
+  const [photoComparison, setPhotoComparison] = useState<PhotoComparison | null>(null);
+  // Photos from the timeline are already filed there
+  const filableImages = attachments.filter(att =>
+    att.type === 'image' && att.id !== photoComparison?.before.attachmentId && att.id !== photoComparison?.after.attachmentId
+  );
+  const [streamingText, setStreamingText] = useState('');
+  const [speakingMessageId, setSpeakingMessageId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Toggle Dark Mode
   useEffect(() => {
@@ -26,7 +109,13 @@ const App: React.FC = () => {
     }
   }, [darkMode]);
 
+  // Location is only requested, and only sent to the model, while sharing is on
   useEffect(() => {
+    setLocationFailed(false);
+    if (!shareLocation) {
+      setLocation(null);
+      return;
+    }
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
         (position) => {
@@ -37,80 +126,349 @@ const App: React.FC = () => {
         },
         (error) => {
           console.log("Location access denied or failed", error);
+          setLocationFailed(true);
         }
       );
+    } else {
+      setLocationFailed(true);
     }
+  }, [shareLocation]);
+
+  const toggleShareLocation = () => {
+    setShareLocation(!shareLocation);
+    setShareLocationState(!shareLocation);
+  };
+
+  // Warn while a storage upgrade waits on another tab
+  useEffect(() => onDatabaseBlocked(setDatabaseBlocked), []);
+
+  useEffect(() => {
+    listDiaries()
+      .then(setDiaries)
+      .catch(err => console.error("Could not load symptom diaries", err));
+    listPhotoSites()
+      .then(setPhotoSites)
+      .catch(err => console.error("Could not load photo timeline", err));
   }, []);
 
+  useEffect(() => {
+    purgeExpiredSessions(getRetentionDays()).catch(err => console.error("Session cleanup failed", err));
+  }, []);
+
+  // Save after every turn so a refresh never loses the consultation
+  useEffect(() => {
+    if (messages.length === 0) return;
+    const id = sessionId || messages[0].id;
+    if (!sessionId) setSessionId(id);
+    saveSession({
+      id,
+      title: deriveSessionTitle(messages, t),
+      createdAt: tree.messages[0].timestamp,
+      updatedAt: tree.messages[tree.messages.length - 1].timestamp,
+      subject: messages[0].subject,
+      messages: tree.messages,
+      leafId: tree.leafId || undefined,
+      treeVersion: TREE_VERSION
+    }).catch(err => console.error("Could not save session", err));
+  }, [tree]);
+
+  const openSession = async (id: string) => {
+    const session = await loadSession(id);
+    if (!session) return;
+    reset();
+    setSessionId(session.id);
+    setTree(toTree(session));
+    setStatus(AppState.RESULT);
+    setShowHistory(false);
+  };
+
+  const handleSessionDeleted = (id: string) => {
+    if (id === sessionId) reset();
+  };
+
   const handleCapture = (attachment: MediaAttachment) => {
     setAttachments(prev => [...prev, attachment]);
   };
 
   const removeAttachment = (id: string) => {
     setAttachments(prev => prev.filter(a => a.id !== id));
+    if (photoComparison && [photoComparison.before.attachmentId, photoComparison.after.attachmentId].includes(id)) {
+      setPhotoComparison(null);
+    }
+  };
+
+  const selectSubject = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return;
+    setSubjectId(id);
+    setSharedProfileFields(filledProfileFields(profile));
+    setDiaryId(null);
+  };
+
+  const handleProfileSave = (next: HouseholdProfile) => {
+    const updated = profiles.some(p => p.id === next.id)
+      ? profiles.map(p => (p.id === next.id ? next : p))
+      : [...profiles, next];
+    saveProfiles(updated);
+    setProfiles(updated);
+    setSubjectId(next.id);
+    setSharedProfileFields(filledProfileFields(next));
+    setEditingProfile(null);
+  };
+
+  const handleProfileDelete = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile || !window.confirm(t('profile.confirmDelete', { name: profileDisplayName(profile, t) }))) return;
+    const updated = profiles.filter(p => p.id !== id);
+    saveProfiles(updated);
+    setProfiles(updated);
+    if (id === subjectId) selectSubject(SELF_PROFILE_ID);
+    setEditingProfile(null);
+  };
+
+  const handleDiarySave = (diary: SymptomDiary) => {
+    setDiaries(prev => [diary, ...prev.filter(d => d.id !== diary.id)]);
+    saveDiary(diary).catch(err => console.error("Could not save symptom diary", err));
+  };
+
+  const handleDiaryDelete = (id: string) => {
+    setDiaries(prev => prev.filter(d => d.id !== id));
+    if (id === diaryId) setDiaryId(null);
+    deleteDiary(id).catch(err => console.error("Could not delete symptom diary", err));
+  };
+
+  const startDiaryFollowUp = (diary: SymptomDiary) => {
+    reset();
+    selectSubject(diary.profileId);
+    setDiaryId(diary.id);
+    setShowDiary(false);
+  };
+
+  const handlePhotoSiteSave = (site: PhotoSite) => {
+    setPhotoSites(prev => [site, ...prev.filter(s => s.id !== site.id)]);
+    savePhotoSite(site).catch(err => console.error("Could not save body site", err));
+  };
+
+  const handlePhotoSiteDelete = (id: string) => {
+    setPhotoSites(prev => prev.filter(s => s.id !== id));
+    deletePhotoSite(id).catch(err => console.error("Could not delete body site", err));
+  };
+
+  const startPhotoComparison = async (site: PhotoSite, before: SitePhoto, after: SitePhoto) => {
+    const [then, now] = await Promise.all([before, after].map(async photo => ({
+      id: photo.id,
+      type: 'image' as const,
+      mimeType: photo.mimeType,
+      data: await blobToBase64(photo.blob),
+      previewUrl: URL.createObjectURL(photo.blob),
+      sizeBytes: photo.blob.size
+    })));
+    reset();
+    selectSubject(site.profileId);
+    setAttachments([then, now]);
+    setPhotoComparison({
+      siteName: site.name,
+      before: { attachmentId: then.id, takenAt: before.takenAt },
+      after: { attachmentId: now.id, takenAt: after.takenAt }
+    });
+    setShowPhotos(false);
+  };
+
+  const stopAnalysis = () => {
+    abortControllerRef.current?.abort();
   };
 
   const reset = () => {
+    stopAnalysis();
     setInputText('');
     setAttachments([]);
     setPainLevel(null);
-    setMessages([]);
+    setBodyRegions([]);
+    setSharedProfileFields(filledProfileFields(subject));
+    setDiaryId(null);
+    setPhotoComparison(null);
+    setPromptChoice('auto');
+    setTree(EMPTY_TREE);
+    setEditingId(null);
+    setSessionId(null);
     setStatus(AppState.IDLE);
-    setErrorMessage(null);
+    setErrorKind(null);
+    setEmergency(null);
+    setSpeakingMessageId(null);
     window.speechSynthesis.cancel();
   };
 
-  const handleSubmit = async (isFollowUp = false) => {
-    if (!inputText && attachments.length === 0 && !isFollowUp) return;
-    if (isFollowUp && !inputText) return;
+  // `text` is set when a quick reply is tapped instead of typing
+  const handleSubmit = async (isFollowUp = false, acknowledgedRedFlags: RedFlagMatch[] = [], text = inputText) => {
+    if (!text && attachments.length === 0 && !isFollowUp) return;
+    if (isFollowUp && !text) return;
+
+    // Local red-flag check runs first so an emergency warning never waits on the network
+    if (acknowledgedRedFlags.length === 0) {
+      const matches = screenForRedFlags({
+        text,
+        painLevel: isFollowUp ? null : painLevel,
+        attachments: isFollowUp ? [] : attachments,
+        bodyRegions: isFollowUp ? [] : bodyRegions
+      });
+      if (matches.length > 0) {
+        setEmergency({ matches, isFollowUp, text });
+        return;
+      }
+    }
+    setEmergency(null);
+
+    // Today's rating goes into the linked diary before the trend is shared
+    let diary = isFollowUp ? undefined : diaries.find(d => d.id === diaryId);
+    if (diary && painLevel !== null) {
+      diary = addDiaryEntry(diary, newDiaryEntry({ painLevel, symptoms: text.trim() }));
+      handleDiarySave(diary);
+    }
 
     const newMessage: ChatMessage = {
       id: Date.now().toString(),
+      parentId: messages[messages.length - 1]?.id,
       role: 'user',
-      text: inputText,
+      text,
       attachments: isFollowUp ? [] : attachments,
       painLevel: isFollowUp ? null : painLevel,
+      bodyRegions: isFollowUp || bodyRegions.length === 0 ? undefined : bodyRegions,
+      profile: isFollowUp ? undefined : pickProfileFields(subject, sharedProfileFields),
+      subject: isFollowUp ? undefined : { profileId: subject.id, name: profileDisplayName(subject, t), relationship: subject.relationship },
+      diary: diary && { id: diary.id, name: diary.name, entries: diary.entries },
+      photoComparison: isFollowUp ? undefined : photoComparison || undefined,
+      promptProfile: isFollowUp ? undefined : promptChoice === 'auto' ? inferredPromptProfile : promptChoice,
+      redFlags: acknowledgedRedFlags.length > 0 ? acknowledgedRedFlags.map(match => match.rule.id) : undefined,
       timestamp: Date.now()
     };
 
     const newHistory = [...messages, newMessage];
-    setMessages(newHistory);
+    setTree(prev => addMessage(prev, newMessage));
     
-    setInputText('');
+    if (text === inputText) setInputText('');
     if (!isFollowUp) {
       setAttachments([]);
+      setBodyRegions([]);
+      setDiaryId(null);
+      setPhotoComparison(null);
+    }
+
+    await runAnalysis(newHistory);
+  };
+
+  // Resends an earlier message with changes as a new branch; the original stays one arrow away
+  const submitEdit = async (original: ChatMessage, changes: MessageEdit, acknowledgedRedFlags: RedFlagMatch[] = []) => {
+    const text = changes.text || '';
+    if (acknowledgedRedFlags.length === 0) {
+      const matches = screenForRedFlags({
+        text,
+        painLevel: changes.painLevel ?? null,
+        attachments: changes.attachments,
+        bodyRegions: original.bodyRegions
+      });
+      if (matches.length > 0) {
+        setEmergency({ matches, isFollowUp: Boolean(original.parentId), text, edit: { original, changes } });
+        return;
+      }
     }
+    setEmergency(null);
+    setEditingId(null);
+
+    const kept = new Set((changes.attachments || []).map(att => att.id));
+    const comparison = original.photoComparison;
+    const edited: ChatMessage = {
+      ...original,
+      ...changes,
+      id: Date.now().toString(),
+      // The then-vs-now framing only holds while both photos are still attached
+      photoComparison: comparison && kept.has(comparison.before.attachmentId) && kept.has(comparison.after.attachmentId) ? comparison : undefined,
+      redFlags: acknowledgedRedFlags.length > 0 ? acknowledgedRedFlags.map(match => match.rule.id) : undefined,
+      timestamp: Date.now()
+    };
+
+    setTree(prev => addMessage(prev, edited));
+    await runAnalysis([...pathTo(tree, original.parentId), edited]);
+  };
 
+  // Asks again for the same turn; the earlier reply stays as another version
+  const regenerate = async (reply: ChatMessage) => {
+    setTree(prev => ({ ...prev, leafId: reply.parentId || null }));
+    await runAnalysis(pathTo(tree, reply.parentId));
+  };
+
+  const switchBranch = (msg: ChatMessage, index: number) => {
+    const sibling = siblingsOf(tree, msg)[index];
+    if (!sibling) return;
+    setEditingId(null);
+    setTree(prev => ({ ...prev, leafId: latestLeafUnder(prev, sibling.id) }));
+  };
+
+  // Sends the conversation as it stands; also used to retry a failed turn
+  const runAnalysis = async (history: ChatMessage[]) => {
     setStatus(AppState.ANALYZING);
-    setErrorMessage(null);
+    setErrorKind(null);
+    setRetrying(false);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let partialText = '';
+    setStreamingText('');
 
     try {
-      const result = await analyzeHealthCondition(newHistory, location);
+      const result = await analyzeHealthCondition(history, location, {
+        language,
+        // Chosen at intake; follow-ups keep the same mode
+        promptProfile: history[0].promptProfile,
+        signal: controller.signal,
+        onText: (text) => {
+          partialText = previewPartialReport(text, t);
+          setStreamingText(partialText);
+        },
+        onRetry: () => {
+          partialText = '';
+          setStreamingText('');
+          setRetrying(true);
+        }
+      });
       
       const modelMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
+        parentId: history[history.length - 1].id,
         role: 'model',
         text: result.text,
+        report: result.report,
         groundingChunks: result.groundingChunks,
+        prompt: result.prompt,
         timestamp: Date.now()
       };
 
-      setMessages(prev => [...prev, modelMessage]);
+      setTree(prev => addMessage(prev, modelMessage));
       setStatus(AppState.RESULT);
     } catch (error: any) {
-      console.error(error);
-      setErrorMessage(error.message || "I'm having trouble connecting right now. Please check your connection and try again.");
+      if (controller.signal.aborted) {
+        // Keep what arrived, clearly marked, rather than a silent half-answer
+        setTree(prev => addMessage(prev, {
+          id: (Date.now() + 1).toString(),
+          parentId: history[history.length - 1].id,
+          role: 'model',
+          text: partialText,
+          interrupted: true,
+          timestamp: Date.now()
+        }));
+        setStatus(AppState.RESULT);
+        return;
+      }
+      setErrorKind(toTriageError(error).kind);
       setStatus(AppState.ERROR);
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+      setStreamingText('');
+      setRetrying(false);
     }
   };
 
-  const readAloud = (text: string) => {
-    const textToSpeak = text.replace(/[*#]/g, '');
-    const utterance = new SpeechSynthesisUtterance(textToSpeak);
-    window.speechSynthesis.cancel();
-    window.speechSynthesis.speak(utterance);
-  };
-
   useEffect(() => {
     if (messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
@@ -120,7 +478,7 @@ const App: React.FC = () => {
   const PainScale = () => (
     <div className="bg-white dark:bg-slate-900 rounded-2xl p-5 border border-slate-100 dark:border-slate-800 shadow-sm space-y-4">
       <div className="flex justify-between items-center">
-        <label className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Pain Intensity</label>
+        <label className="text-sm font-semibold text-slate-500 uppercase tracking-wider">{t('pain.title')}</label>
         <span className={`px-3 py-1 rounded-full text-sm font-bold ${
           painLevel === null ? 'bg-slate-100 dark:bg-slate-800 text-slate-400' :
           painLevel <= 3 ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/50 dark:text-emerald-300' :
@@ -128,7 +486,7 @@ const App: React.FC = () => {
           painLevel <= 8 ? 'bg-orange-100 text-orange-700 dark:bg-orange-900/50 dark:text-orange-300' : 
           'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300'
         }`}>
-          {painLevel === null ? 'Not Rated' : `${painLevel}/10`}
+          {painLevel === null ? t('pain.notRated') : `${painLevel}/10`}
         </span>
       </div>
       
@@ -156,9 +514,9 @@ const App: React.FC = () => {
          </div>
       </div>
       <div className="flex justify-between px-2 text-xs font-medium text-slate-400">
-         <span>No Pain</span>
-         <span>Moderate</span>
-         <span>Severe</span>
+         <span>{t('pain.none')}</span>
+         <span>{t('pain.moderate')}</span>
+         <span>{t('pain.severe')}</span>
       </div>
     </div>
   );
@@ -166,6 +524,59 @@ const App: React.FC = () => {
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-slate-100 transition-colors duration-500 font-sans flex flex-col selection:bg-blue-100 dark:selection:bg-blue-900/50">
       
+      {emergency && (
+        <EmergencyScreen
+          matches={emergency.matches}
+          location={location}
+          onBack={() => setEmergency(null)}
+          onContinue={() => emergency.edit
+            ? submitEdit(emergency.edit.original, emergency.edit.changes, emergency.matches)
+            : handleSubmit(emergency.isFollowUp, emergency.matches, emergency.text)}
+        />
+      )}
+
+      {editingProfile && (
+        <ProfileEditor
+          profile={editingProfile}
+          onSave={handleProfileSave}
+          onDelete={handleProfileDelete}
+          onClose={() => setEditingProfile(null)}
+        />
+      )}
+
+      {showDiary && (
+        <SymptomDiaryPanel
+          diaries={diaries}
+          profiles={profiles}
+          subjectId={subject.id}
+          onSave={handleDiarySave}
+          onDelete={handleDiaryDelete}
+          onStartTriage={startDiaryFollowUp}
+          onClose={() => setShowDiary(false)}
+        />
+      )}
+
+      {showPhotos && (
+        <PhotoTimelinePanel
+          sites={photoSites}
+          profiles={profiles}
+          subjectId={subject.id}
+          onSaveSite={handlePhotoSiteSave}
+          onDeleteSite={handlePhotoSiteDelete}
+          onCompare={startPhotoComparison}
+          onClose={() => setShowPhotos(false)}
+        />
+      )}
+
+      {showHistory && (
+        <SessionHistory
+          activeSessionId={sessionId}
+          onOpen={openSession}
+          onDeleted={handleSessionDeleted}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {/* Modern Glass Header */}
       <header className="sticky top-0 z-30 glass border-b border-slate-200/50 dark:border-slate-800/50 transition-all duration-300">
         <div className="max-w-3xl mx-auto px-4 sm:px-6 h-16 flex items-center justify-between">
@@ -186,21 +597,52 @@ const App: React.FC = () => {
                className="flex items-center gap-2 px-4 py-2 bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 rounded-full transition-all text-xs font-bold uppercase tracking-wider border border-red-100 dark:border-red-900/50"
             >
                <MapPin className="w-3.5 h-3.5" />
-               <span className="hidden sm:inline">Emergency Map</span>
+               <span className="hidden sm:inline">{t('header.emergencyMap')}</span>
             </a>
 
+            <button
+              onClick={() => setShowDiary(true)}
+              className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+              title={t('header.diary')}
+            >
+              <NotebookPen className="w-5 h-5" />
+            </button>
+
+            <button
+              onClick={() => setShowPhotos(true)}
+              className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+              title={t('header.photos')}
+            >
+              <Images className="w-5 h-5" />
+            </button>
+
+            <button
+              onClick={() => setShowHistory(true)}
+              className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+              title={t('header.history')}
+            >
+              <History className="w-5 h-5" />
+            </button>
+
+            {messages.some(msg => msg.role === 'model') && (
+              <ExportMenu messages={messages} sessionId={sessionId} />
+            )}
+
             {messages.length > 0 && (
               <button 
                 onClick={reset}
                 className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
-                title="Reset Session"
+                title={t('header.newSession')}
               >
                 <RotateCcw className="w-5 h-5" />
               </button>
             )}
+            <LanguagePicker />
+
             <button 
               onClick={() => setDarkMode(!darkMode)}
               className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+              title={t('header.toggleTheme')}
             >
               {darkMode ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
             </button>
@@ -209,7 +651,12 @@ const App: React.FC = () => {
       </header>
 
       <main className="flex-1 max-w-3xl w-full mx-auto px-4 py-8 flex flex-col gap-8">
-        
+        {databaseBlocked && (
+          <div role="alert" className="p-4 bg-amber-50 dark:bg-amber-900/10 border border-amber-100 dark:border-amber-900/30 rounded-xl text-amber-900 dark:text-amber-200 text-sm leading-relaxed">
+            {t('storage.blocked')}
+          </div>
+        )}
+
         {/* Welcome Card */}
         {messages.length === 0 && (
           <div className="animate-fade-in space-y-8">
@@ -217,9 +664,9 @@ const App: React.FC = () => {
                <div className="inline-flex p-4 bg-white dark:bg-slate-900 rounded-full shadow-xl shadow-slate-200 dark:shadow-black/50 mb-2">
                  <HeartPulse className="w-12 h-12 text-blue-500 animate-pulse-slow" />
                </div>
-               <h2 className="text-3xl font-bold text-slate-900 dark:text-white tracking-tight">How can I help you?</h2>
+               <h2 className="text-3xl font-bold text-slate-900 dark:text-white tracking-tight">{t('welcome.title')}</h2>
                <p className="text-lg text-slate-500 dark:text-slate-400 max-w-md mx-auto leading-relaxed">
-                 Describe your symptoms using voice, video, or text. I'll help you understand what might be wrong.
+                 {t('welcome.subtitle')}
                </p>
              </div>
           </div>
@@ -228,10 +675,19 @@ const App: React.FC = () => {
         {/* Conversation Stream */}
         {messages.length > 0 && (
           <div className="flex-1 space-y-8 pb-32">
-            {messages.map((msg, idx) => (
+            {messages.map((msg, idx) => {
+              const versions = siblingsOf(tree, msg);
+              return (
               <div key={msg.id} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'} animate-slide-up`}>
                 
-                {/* Message Bubble Container */}
+                {editingId === msg.id ? (
+                  <MessageEditor
+                    message={msg}
+                    onSave={(changes) => submitEdit(msg, changes)}
+                    onCancel={() => setEditingId(null)}
+                  />
+                ) : (
+                /* Message Bubble Container */
                 <div className={`w-full max-w-2xl relative group ${
                   msg.role === 'user' ? 'flex flex-col items-end' : ''
                 }`}>
@@ -256,78 +712,151 @@ const App: React.FC = () => {
                   {/* Bubble Content */}
                   <div className={`relative px-6 py-5 shadow-sm ${
                      msg.role === 'user' 
-                       ? 'bg-gradient-to-br from-blue-600 to-blue-700 text-white rounded-3xl rounded-tr-sm'
-                       : 'bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 rounded-3xl rounded-tl-sm w-full shadow-lg shadow-slate-200/50 dark:shadow-none'
+                       ? 'bg-gradient-to-br from-blue-600 to-blue-700 text-white rounded-3xl rounded-se-sm'
+                       : 'bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 rounded-3xl rounded-ss-sm w-full shadow-lg shadow-slate-200/50 dark:shadow-none'
                   }`}>
                     
                     {/* User Pain Badge inside bubble */}
                     {msg.role === 'user' && msg.painLevel && (
                        <div className="mb-3 inline-flex items-center gap-2 bg-white/20 px-3 py-1 rounded-full text-xs font-semibold uppercase tracking-wider">
-                         <Activity className="w-3 h-3" /> Pain Level: {msg.painLevel}/10
+                         <Activity className="w-3 h-3" /> {t('pain.badge', { level: msg.painLevel })}
                        </div>
                     )}
 
-                    <div className={`prose prose-base max-w-none ${
-                       msg.role === 'user' ? 'prose-invert' : 'text-slate-600 dark:text-slate-300 prose-headings:text-slate-900 dark:prose-headings:text-white prose-strong:text-slate-900 dark:prose-strong:text-white prose-a:text-blue-600 dark:prose-a:text-blue-400'
-                    }`}>
-                      {msg.text && (
-                         <ReactMarkdown components={{
-                          strong: ({node, ...props}) => <span className="font-bold text-slate-900 dark:text-white" {...props} />,
-                          // Style the Safety Note specifically
-                          p: ({node, ...props}) => {
-                            const text = String(props.children);
-                            if (text.startsWith('⚠️')) {
-                               return (
-                                 <div className="flex gap-4 p-4 my-4 bg-amber-50 dark:bg-amber-900/10 border border-amber-100 dark:border-amber-900/30 rounded-xl text-amber-900 dark:text-amber-200 text-sm leading-relaxed">
-                                   <ShieldCheck className="w-5 h-5 flex-shrink-0 text-amber-600" />
-                                   <div>{props.children}</div>
-                                 </div>
-                               );
-                            }
-                            return <p className="leading-7 mb-4 last:mb-0" {...props} />
-                          },
-                          ul: ({node, ...props}) => <ul className="space-y-2 my-4" {...props} />,
-                          li: ({node, ...props}) => (
-                            <li className="flex gap-2 items-start" {...props}>
-                              <span className="mt-2 w-1.5 h-1.5 bg-blue-500 rounded-full flex-shrink-0" />
-                              <span className="flex-1">{React.Children.toArray(props.children).filter(child => child !== '\n')}</span>
-                            </li>
-                          )
-                         }}>
-                           {msg.text}
-                         </ReactMarkdown>
-                      )}
-                    </div>
+                    {msg.role === 'user' && msg.photoComparison && (
+                       <div className="mb-3 ms-2 inline-flex items-center gap-1.5 bg-white/20 px-3 py-1 rounded-full text-xs font-semibold">
+                         <Images className="w-3 h-3" /> {t('photos.then')} / {t('photos.now')} · {msg.photoComparison.siteName}
+                       </div>
+                    )}
 
-                    {msg.role === 'model' && msg.text && (
-                      <div className="mt-4 pt-4 border-t border-slate-100 dark:border-slate-800 flex justify-end">
-                        <button onClick={() => readAloud(msg.text!)} className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-semibold text-slate-500 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors uppercase tracking-wide">
-                          <Volume2 className="w-3.5 h-3.5" />
-                          Listen
-                        </button>
+                    {msg.role === 'user' && msg.diary && (
+                       <div className="mb-3 ms-2 inline-flex items-center gap-1.5 bg-white/20 px-3 py-1 rounded-full text-xs font-semibold">
+                         <NotebookPen className="w-3 h-3" /> {msg.diary.name}
+                       </div>
+                    )}
+
+                    {msg.role === 'user' && msg.promptProfile && msg.promptProfile !== 'general' && (
+                       <div className="mb-3 ms-2 inline-flex items-center gap-1.5 bg-white/20 px-3 py-1 rounded-full text-xs font-semibold">
+                         <Stethoscope className="w-3 h-3" /> {t(`promptProfile.${msg.promptProfile}`)}
+                       </div>
+                    )}
+
+                    {msg.role === 'user' && msg.bodyRegions && msg.bodyRegions.length > 0 && (
+                       <div className="mb-3 flex flex-wrap gap-2">
+                         {msg.bodyRegions.map(region => (
+                           <span key={region.regionId} className="inline-flex items-center gap-1.5 bg-white/20 px-3 py-1 rounded-full text-xs font-semibold">
+                             <MapPin className="w-3 h-3" /> {describeBodyRegion(region, t)}
+                           </span>
+                         ))}
+                       </div>
+                    )}
+
+                    {msg.role === 'user' && (msg.profile || (msg.subject && msg.subject.relationship !== 'self')) && (
+                       <div
+                         className="mb-3 inline-flex items-center gap-1.5 bg-white/20 px-3 py-1 rounded-full text-xs font-semibold"
+                         title={msg.profile && filledProfileFields(msg.profile).map(field => `${t(PROFILE_FIELD_LABELS[field])}: ${formatProfileValue(msg.profile!, field, t)}`).join('\n')}
+                       >
+                         <UserRound className="w-3 h-3" />
+                         {msg.subject && msg.subject.relationship !== 'self' ? msg.subject.name : t('profile.shared')}
+                       </div>
+                    )}
+
+                    {msg.role === 'model' && msg.report ? (
+                      <TriageReportView report={msg.report} />
+                    ) : (
+                      <div className={`prose prose-base max-w-none ${
+                         msg.role === 'user' ? 'prose-invert' : 'text-slate-600 dark:text-slate-300 prose-headings:text-slate-900 dark:prose-headings:text-white prose-strong:text-slate-900 dark:prose-strong:text-white prose-a:text-blue-600 dark:prose-a:text-blue-400'
+                      }`}>
+                        {/* Unstructured fallback replies still get the local safety note */}
+                        {msg.role === 'model' && <div className="not-prose mb-4"><SafetyNote /></div>}
+                        {msg.interrupted && (
+                          <div className="not-prose mb-4 inline-flex items-center gap-2 px-3 py-1 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 text-xs font-semibold uppercase tracking-wider">
+                            <CircleStop className="w-3.5 h-3.5" /> {t('chat.interrupted')}
+                          </div>
+                        )}
+                        {msg.text && (
+                           <ReactMarkdown components={markdownComponents}>
+                             {msg.text}
+                           </ReactMarkdown>
+                        )}
                       </div>
                     )}
+
+                    {msg.role === 'model' && msg.groundingChunks && msg.groundingChunks.length > 0 && (
+                      <GroundingSources chunks={msg.groundingChunks} />
+                    )}
+
+                    {msg.role === 'model' && msg.prompt && (
+                      <p className="mt-4 text-[11px] text-slate-400">
+                        {describePromptRef(msg.prompt, t)}
+                      </p>
+                    )}
+
+                    {msg.role === 'model' && idx === messages.length - 1 && msg.report?.followUpQuestions && msg.report.followUpQuestions.length > 0 && (
+                      <QuickReplies
+                        questions={msg.report.followUpQuestions}
+                        onAnswer={(text) => handleSubmit(true, [], text)}
+                        disabled={status === AppState.ANALYZING}
+                      />
+                    )}
+
+                    {msg.role === 'model' && msg.text && (
+                      <ReadAloudPlayer
+                        sections={msg.report ? reportToSpeechSections(msg.report, t, language) : markdownToSpeechSections(msg.text, language)}
+                        active={speakingMessageId === msg.id}
+                        onActivate={() => setSpeakingMessageId(msg.id)}
+                        onClose={() => setSpeakingMessageId(null)}
+                      />
+                    )}
                   </div>
                 </div>
+                )}
+
+                {editingId !== msg.id && (
+                  <MessageActions
+                    index={versions.findIndex(version => version.id === msg.id)}
+                    count={versions.length}
+                    onSwitch={(index) => switchBranch(msg, index)}
+                    onEdit={msg.role === 'user' ? () => setEditingId(msg.id) : undefined}
+                    onRegenerate={msg.role === 'model' ? () => regenerate(msg) : undefined}
+                    disabled={status === AppState.ANALYZING}
+                  />
+                )}
               </div>
-            ))}
+              );
+            })}
             
             {status === AppState.ANALYZING && (
                <div className="flex justify-start animate-fade-in">
-                  <div className="bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 rounded-3xl rounded-tl-sm px-6 py-4 flex items-center gap-4 shadow-md">
-                    <div className="relative">
-                      <div className="w-3 h-3 bg-blue-500 rounded-full animate-ping absolute inset-0 opacity-75"></div>
-                      <div className="w-3 h-3 bg-blue-500 rounded-full relative"></div>
+                  {streamingText ? (
+                    <div className="w-full max-w-2xl bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 rounded-3xl rounded-ss-sm px-6 py-5 shadow-lg shadow-slate-200/50 dark:shadow-none">
+                      <div className="prose prose-base max-w-none text-slate-600 dark:text-slate-300">
+                        <ReactMarkdown components={markdownComponents}>{streamingText}</ReactMarkdown>
+                      </div>
+                      <div className="mt-4 pt-4 border-t border-slate-100 dark:border-slate-800 flex justify-end">
+                        <button onClick={stopAnalysis} className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-semibold text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors uppercase tracking-wide">
+                          <Square className="w-3.5 h-3.5 fill-current" />
+                          {t('chat.stop')}
+                        </button>
+                      </div>
                     </div>
-                    <span className="text-slate-500 text-sm font-medium">Analyzing symptoms...</span>
-                  </div>
+                  ) : (
+                    <div className="bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 rounded-3xl rounded-ss-sm px-6 py-4 flex items-center gap-4 shadow-md">
+                      <div className="relative">
+                        <div className="w-3 h-3 bg-blue-500 rounded-full animate-ping absolute inset-0 opacity-75"></div>
+                        <div className="w-3 h-3 bg-blue-500 rounded-full relative"></div>
+                      </div>
+                      <span className="text-slate-500 text-sm font-medium">{retrying ? t('error.retrying') : t('chat.analyzing')}</span>
+                      <button onClick={stopAnalysis} className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors" title={t('chat.stop')}>
+                        <Square className="w-4 h-4 fill-current" />
+                      </button>
+                    </div>
+                  )}
                </div>
             )}
             
-            {status === AppState.ERROR && errorMessage && (
-              <div className="mx-auto max-w-md bg-red-50 dark:bg-red-900/10 border border-red-100 dark:border-red-900/30 p-4 rounded-xl text-center text-red-600 dark:text-red-400 text-sm">
-                {errorMessage}
-              </div>
+            {status === AppState.ERROR && errorKind && (
+              <TriageErrorNotice kind={errorKind} onRetry={() => runAnalysis(messages)} />
             )}
             
             <div ref={messagesEndRef} />
@@ -340,17 +869,29 @@ const App: React.FC = () => {
             ? 'fixed bottom-0 left-0 right-0 p-4 z-40 bg-gradient-to-t from-slate-50 via-slate-50 to-transparent dark:from-slate-950 dark:via-slate-950 pb-6' 
             : 'bg-white dark:bg-slate-900 rounded-3xl shadow-xl shadow-slate-200/50 dark:shadow-none border border-slate-100 dark:border-slate-800 overflow-hidden'
         }`}>
-          <div className={`max-w-3xl mx-auto ${messages.length > 0 ? 'bg-white dark:bg-slate-900 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-800 p-2 pl-4 flex items-center gap-2' : 'p-6 space-y-6'}`}>
+          <div className={`max-w-3xl mx-auto ${messages.length > 0 ? 'bg-white dark:bg-slate-900 rounded-2xl shadow-lg border border-slate-200 dark:border-slate-800 p-2 ps-4 flex items-center gap-2' : 'p-6 space-y-6'}`}>
              
              {/* INTAKE FORM (When no messages) */}
              {messages.length === 0 && (
                <>
+                 <section className="space-y-3">
+                   <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider">{t('household.question')}</h3>
+                   <SubjectPicker
+                     profiles={profiles}
+                     selectedId={subject.id}
+                     onSelect={selectSubject}
+                     onAdd={() => setEditingProfile(newProfile())}
+                   />
+                   <h3 className="pt-2 text-sm font-bold text-slate-400 uppercase tracking-wider">{t('promptProfile.title')}</h3>
+                   <PromptProfilePicker value={promptChoice} inferred={inferredPromptProfile} onChange={setPromptChoice} />
+                 </section>
+
                  <section className="space-y-4">
                    <div className="flex items-center gap-2 mb-2">
                       <span className="flex items-center justify-center w-6 h-6 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-600 text-xs font-bold">1</span>
-                      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider">Media Input</h3>
+                      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider">{t('intake.media')}</h3>
                    </div>
-                   <Recorder onCapture={handleCapture} disabled={status === AppState.ANALYZING} />
+                   <Recorder onCapture={handleCapture} attachments={attachments} disabled={status === AppState.ANALYZING} />
                    
                    {/* Attachments Preview Grid */}
                    {attachments.length > 0 && (
@@ -366,6 +907,7 @@ const App: React.FC = () => {
                           )}
                           <button 
                             onClick={() => removeAttachment(att.id)} 
+                            title={t('intake.removeAttachment')}
                             className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center text-white"
                           >
                             <Trash2 className="w-5 h-5" />
@@ -374,14 +916,50 @@ const App: React.FC = () => {
                       ))}
                     </div>
                   )}
+
+                  {photoComparison && (
+                    <p className="flex items-center gap-1.5 text-xs font-semibold text-blue-600 dark:text-blue-400">
+                      <Images className="w-3.5 h-3.5" />
+                      {t('photos.then')} / {t('photos.now')} · {photoComparison.siteName}
+                    </p>
+                  )}
+                  {filableImages.length > 0 && (
+                    <PhotoSiteFiler
+                      key={subject.id}
+                      images={filableImages}
+                      sites={photoSites.filter(site => site.profileId === subject.id)}
+                      profileId={subject.id}
+                      onSaveSite={handlePhotoSiteSave}
+                    />
+                  )}
                  </section>
 
                  <section className="space-y-4">
                     <div className="flex items-center gap-2">
                       <span className="flex items-center justify-center w-6 h-6 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-600 text-xs font-bold">2</span>
-                      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider">Pain Check</h3>
+                      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider">{t('intake.painCheck')}</h3>
                    </div>
+                   {subjectDiaries.length > 0 && (
+                     <div className="space-y-1">
+                       <label className="flex items-center gap-2 text-sm">
+                         <NotebookPen className="w-4 h-4 text-blue-500 flex-shrink-0" />
+                         <span className="font-semibold text-slate-500 whitespace-nowrap">{t('diary.link')}</span>
+                         <select
+                           value={diaryId || ''}
+                           onChange={(e) => setDiaryId(e.target.value || null)}
+                           className="flex-1 min-w-0 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-950 px-2 py-1.5 text-sm"
+                         >
+                           <option value="">{t('diary.notLinked')}</option>
+                           {subjectDiaries.map(diary => (
+                             <option key={diary.id} value={diary.id}>{diary.name}</option>
+                           ))}
+                         </select>
+                       </label>
+                       {diaryId && <p className="text-xs text-slate-500">{t('diary.linkHint')}</p>}
+                     </div>
+                   )}
                    <PainScale />
+                   <BodyMap value={bodyRegions} onChange={setBodyRegions} />
                  </section>
                </>
              )}
@@ -391,14 +969,14 @@ const App: React.FC = () => {
                 {messages.length === 0 && (
                    <div className="flex items-center gap-2">
                       <span className="flex items-center justify-center w-6 h-6 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-600 text-xs font-bold">3</span>
-                      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider">Details</h3>
+                      <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider">{t('intake.details')}</h3>
                    </div>
                 )}
                 
                 <textarea
                   value={inputText}
                   onChange={(e) => setInputText(e.target.value)}
-                  placeholder={messages.length > 0 ? "Ask a follow-up question..." : "Describe what you're feeling..."}
+                  placeholder={messages.length > 0 ? t('intake.followUpPlaceholder') : t('intake.symptomsPlaceholder')}
                   disabled={status === AppState.ANALYZING}
                   onKeyDown={(e) => {
                     if (e.key === 'Enter' && !e.shiftKey && messages.length > 0) {
@@ -407,19 +985,49 @@ const App: React.FC = () => {
                     }
                   }}
                   className={`w-full bg-transparent border-0 focus:ring-0 resize-none text-slate-800 dark:text-slate-100 placeholder-slate-400 ${
-                    messages.length > 0 ? 'h-10 py-2' : 'h-24 p-4 bg-slate-50 dark:bg-slate-950 rounded-xl border border-slate-200 dark:border-slate-800 focus:bg-white dark:focus:bg-slate-900 transition-colors'
+                    messages.length > 0 ? 'h-10 py-2' : 'h-24 p-4 pe-12 bg-slate-50 dark:bg-slate-950 rounded-xl border border-slate-200 dark:border-slate-800 focus:bg-white dark:focus:bg-slate-900 transition-colors'
                   }`}
                 />
+                {messages.length === 0 && (
+                  <DictationButton
+                    value={inputText}
+                    onChange={setInputText}
+                    disabled={status === AppState.ANALYZING}
+                    className="absolute bottom-3 end-3"
+                  />
+                )}
              </div>
 
+             {messages.length === 0 && (
+               <section className="space-y-4">
+                 <div className="flex items-center gap-2">
+                   <span className="flex items-center justify-center w-6 h-6 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-600 text-xs font-bold">4</span>
+                   <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider">
+                     {subject.relationship === 'self' ? t('profile.title') : t('profile.titleFor', { name: profileDisplayName(subject, t) })}
+                   </h3>
+                 </div>
+                 <ProfileReview
+                   profile={subject}
+                   sharedFields={sharedProfileFields}
+                   onChange={setSharedProfileFields}
+                   onEdit={() => setEditingProfile(subject)}
+                 />
+               </section>
+             )}
+
+             {messages.length > 0 && (
+               <DictationButton value={inputText} onChange={setInputText} disabled={status === AppState.ANALYZING} />
+             )}
+
              {/* Send Button (Dynamic) */}
              {messages.length > 0 ? (
                <button 
                  onClick={() => handleSubmit(true)}
                  disabled={!inputText.trim() || status === AppState.ANALYZING}
                  className="p-3 bg-blue-600 text-white rounded-xl hover:bg-blue-700 disabled:opacity-50 disabled:grayscale transition-all shadow-md hover:shadow-lg"
+                 title={t('chat.send')}
                >
-                 <Send className="w-5 h-5" />
+                 <Send className="w-5 h-5 rtl:-scale-x-100" />
                </button>
              ) : (
                <button
@@ -434,17 +1042,28 @@ const App: React.FC = () => {
                   {status === AppState.ANALYZING ? (
                     <span className="flex items-center gap-2">
                       <div className="w-5 h-5 border-2 border-slate-400 border-t-transparent rounded-full animate-spin" />
-                      Analyzing...
+                      {t('intake.analyzing')}
                     </span>
                   ) : (
                     <>
-                      <span>Start Triage</span>
-                      <ArrowRight className="w-5 h-5" />
+                      <span>{t('intake.start')}</span>
+                      <ArrowRight className="w-5 h-5 rtl:rotate-180" />
                     </>
                   )}
                 </button>
              )}
+
+             {messages.length === 0 && (
+               <div className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                 {shareLocation && !locationFailed ? <MapPin className="w-3.5 h-3.5 flex-shrink-0" /> : <MapPinOff className="w-3.5 h-3.5 flex-shrink-0" />}
+                 <span>{!shareLocation ? t('location.off') : locationFailed ? t('location.unavailable') : t('location.on')}</span>
+                 <button onClick={toggleShareLocation} className="font-semibold text-blue-600 dark:text-blue-400 hover:underline whitespace-nowrap">
+                   {shareLocation ? t('location.turnOff') : t('location.turnOn')}
+                 </button>
+               </div>
+             )}
           </div>
+          {messages.length > 0 && <ContextMeter history={messages} />}
         </div>
 
       </main>
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { X, RefreshCw } from 'lucide-react';
+import { BodyRegionSelection, BodyView, Sensation } from '../types';
+import { BODY_REGIONS, SENSATIONS, bodyRegionLabel } from '../utils/bodyRegions';
+import { useI18n } from '../i18n/I18nContext';
+
+interface BodyMapProps {
+  value: BodyRegionSelection[];
+  onChange: (selection: BodyRegionSelection[]) => void;
+}
+
+const BodyMap: React.FC<BodyMapProps> = ({ value, onChange }) => {
+  const { t } = useI18n();
+  const [view, setView] = useState<BodyView>('front');
+
+  const isSelected = (id: string) => value.some(selection => selection.regionId === id);
+
+  const toggleRegion = (id: string) => {
+    if (isSelected(id)) {
+      onChange(value.filter(selection => selection.regionId !== id));
+    } else {
+      onChange([...value, { regionId: id, painLevel: null, sensation: null }]);
+    }
+  };
+
+  const updateRegion = (id: string, changes: Partial<BodyRegionSelection>) => {
+    onChange(value.map(selection => selection.regionId === id ? { ...selection, ...changes } : selection));
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl p-5 border border-slate-100 dark:border-slate-800 shadow-sm space-y-4">
+      <div className="flex justify-between items-center">
+        <label className="text-sm font-semibold text-slate-500 uppercase tracking-wider">{t('bodyMap.title')}</label>
+        <button
+          onClick={() => setView(view === 'front' ? 'back' : 'front')}
+          className="flex items-center gap-2 px-3 py-1 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 text-xs font-bold uppercase tracking-wider hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+        >
+          <RefreshCw className="w-3 h-3" />
+          {view === 'front' ? t('bodyMap.front') : t('bodyMap.back')}
+        </button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-6 items-center sm:items-start">
+        <svg viewBox="0 0 200 420" className="w-40 flex-shrink-0 select-none" role="group" aria-label={view === 'front' ? t('bodyMap.diagramFront') : t('bodyMap.diagramBack')}>
+          {BODY_REGIONS.filter(region => region.view === view).map(region => {
+            const selected = isSelected(region.id);
+            const className = `cursor-pointer transition-colors stroke-white dark:stroke-slate-900 ${
+              selected ? 'fill-red-500' : 'fill-slate-200 dark:fill-slate-700 hover:fill-blue-300 dark:hover:fill-blue-800'
+            }`;
+            const { x, y, w, h, r } = region.shape;
+            const label = t(`bodyRegion.${region.id}`);
+            return (
+              <g key={region.id} onClick={() => toggleRegion(region.id)} role="button" aria-pressed={selected} aria-label={label}>
+                <title>{label}</title>
+                {r !== undefined
+                  ? <circle cx={x} cy={y} r={r} strokeWidth={2} className={className} />
+                  : <rect x={x} y={y} width={w} height={h} rx={8} strokeWidth={2} className={className} />}
+              </g>
+            );
+          })}
+        </svg>
+
+        <div className="flex-1 w-full space-y-3">
+          {value.length === 0 && (
+            <p className="text-sm text-slate-400">{t('bodyMap.hint')}</p>
+          )}
+          {value.map(selection => (
+            <div key={selection.regionId} className="p-3 rounded-xl bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="font-semibold text-sm">{bodyRegionLabel(selection.regionId, t)}</span>
+                <button onClick={() => toggleRegion(selection.regionId)} className="p-1 rounded-full text-slate-400 hover:text-red-600 transition-colors" title={t('bodyMap.remove')}>
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-1.5">
+                {SENSATIONS.map(sensation => (
+                  <button
+                    key={sensation}
+                    onClick={() => updateRegion(selection.regionId, { sensation: selection.sensation === sensation ? null : sensation as Sensation })}
+                    className={`px-2.5 py-1 rounded-full text-xs font-semibold capitalize transition-colors ${
+                      selection.sensation === sensation
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-white dark:bg-slate-900 text-slate-500 border border-slate-200 dark:border-slate-700 hover:border-blue-300'
+                    }`}
+                  >
+                    {t(`sensation.${sensation}`)}
+                  </button>
+                ))}
+              </div>
+              <select
+                value={selection.painLevel ?? ''}
+                onChange={(e) => updateRegion(selection.regionId, { painLevel: e.target.value ? Number(e.target.value) : null })}
+                className="w-full p-1.5 rounded-lg bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-xs"
+              >
+                <option value="">{t('bodyMap.painNotRated')}</option>
+                {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(level => (
+                  <option key={level} value={level}>{t('bodyMap.pain', { level })}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BodyMap;
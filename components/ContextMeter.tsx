@@ -0,0 +1,34 @@
+import React, { useMemo } from 'react';
+import { Gauge } from 'lucide-react';
+import { ChatMessage } from '../types';
+import { CONTEXT_TOKEN_BUDGET, estimateHistoryTokens } from '../services/contextManager';
+import { useI18n } from '../i18n/I18nContext';
+
+interface ContextMeterProps {
+  history: ChatMessage[];
+}
+
+/**
+ * Rough size of the conversation against the budget, so it is clear why
+ * older turns start getting summarised on long follow-ups.
+ */
+const ContextMeter: React.FC<ContextMeterProps> = ({ history }) => {
+  const { language, t } = useI18n();
+  const tokens = useMemo(() => estimateHistoryTokens(history), [history]);
+  const overBudget = tokens > CONTEXT_TOKEN_BUDGET;
+  const filled = Math.min(100, Math.round(tokens / CONTEXT_TOKEN_BUDGET * 100));
+  const formatted = new Intl.NumberFormat(language, { notation: 'compact', maximumFractionDigits: 1 }).format(tokens);
+
+  return (
+    <div className="max-w-3xl mx-auto mt-2 px-2 flex items-center gap-2 text-xs text-slate-400" title={t('context.hint')}>
+      <Gauge className="w-3.5 h-3.5 flex-shrink-0" />
+      <span className="whitespace-nowrap">{t('context.size', { tokens: formatted })}</span>
+      <div className="w-16 h-1.5 rounded-full bg-slate-200 dark:bg-slate-800 overflow-hidden flex-shrink-0">
+        <div className={`h-full rounded-full ${overBudget ? 'bg-amber-500' : 'bg-blue-500'}`} style={{ width: `${filled}%` }} />
+      </div>
+      {overBudget && <span className="truncate text-amber-600">{t('context.compacted')}</span>}
+    </div>
+  );
+};
+
+export default ContextMeter;
@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, MicOff } from 'lucide-react';
+import { Dictation, isDictationSupported, joinTranscript, startDictation } from '../utils/dictation';
+import { useI18n } from '../i18n/I18nContext';
+import { getSpeechLocale } from '../i18n/languages';
+
+interface DictationButtonProps {
+  value: string;
+  onChange: (text: string) => void;
+  disabled?: boolean;
+  // Recognition locale; defaults to the chosen UI language
+  lang?: string;
+  className?: string;
+}
+
+/**
+ * Mic toggle that types what the user says into a text field as they speak.
+ * The field stays editable: typing while dictating stops the dictation and
+ * keeps the edit.
+ */
+const DictationButton: React.FC<DictationButtonProps> = ({ value, onChange, disabled, lang, className = '' }) => {
+  const { language, t } = useI18n();
+  const [listening, setListening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const dictationRef = useRef<Dictation | null>(null);
+  const lastEmittedRef = useRef<string | null>(null);
+
+  useEffect(() => () => dictationRef.current?.stop(), []);
+
+  // The user typed over the live transcript: stop dictating so we don't overwrite it
+  useEffect(() => {
+    if (listening && lastEmittedRef.current !== null && value !== lastEmittedRef.current) {
+      stop();
+    }
+  }, [value]);
+
+  if (!isDictationSupported()) return null;
+
+  const stop = () => {
+    dictationRef.current?.stop();
+    dictationRef.current = null;
+    lastEmittedRef.current = null;
+    setListening(false);
+  };
+
+  const start = () => {
+    const base = value;
+    setError(null);
+    lastEmittedRef.current = base;
+    dictationRef.current = startDictation({
+      lang: lang || getSpeechLocale(language),
+      onUpdate: (finalText, interimText) => {
+        const next = joinTranscript(base, joinTranscript(finalText, interimText));
+        lastEmittedRef.current = next;
+        onChange(next);
+      },
+      onEnd: () => {
+        dictationRef.current = null;
+        lastEmittedRef.current = null;
+        setListening(false);
+      },
+      onError: (code) => {
+        setError(code === 'not-allowed' ? t('dictation.permission') : t('dictation.failed'));
+      }
+    });
+    setListening(dictationRef.current !== null);
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={listening ? stop : start}
+      disabled={disabled}
+      title={error || (listening ? t('dictation.stop') : t('dictation.start'))}
+      aria-pressed={listening}
+      className={`p-2 rounded-xl transition-colors disabled:opacity-50 ${
+        listening
+          ? 'bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400 animate-pulse'
+          : error
+            ? 'text-red-500 hover:bg-slate-100 dark:hover:bg-slate-800'
+            : 'text-slate-400 hover:text-blue-600 hover:bg-slate-100 dark:hover:bg-slate-800'
+      } ${className}`}
+    >
+      {listening ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
+    </button>
+  );
+};
+
+export default DictationButton;
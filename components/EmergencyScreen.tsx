@@ -0,0 +1,81 @@
+import React from 'react';
+import { Siren, Phone, MapPin, ArrowLeft } from 'lucide-react';
+import { RedFlagMatch } from '../types';
+import { getEmergencyNumber } from '../services/redFlagScreener';
+import { useI18n } from '../i18n/I18nContext';
+
+interface EmergencyScreenProps {
+  matches: RedFlagMatch[];
+  location?: { lat: number, lng: number } | null;
+  onBack: () => void;
+  onContinue: () => void;
+}
+
+const EmergencyScreen: React.FC<EmergencyScreenProps> = ({ matches, location, onBack, onContinue }) => {
+  const { t } = useI18n();
+  const emergencyNumber = getEmergencyNumber();
+
+  return (
+    <div role="alertdialog" aria-modal="true" aria-labelledby="emergency-title" className="fixed inset-0 z-50 bg-red-700/95 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="w-full max-w-lg bg-white dark:bg-slate-900 rounded-3xl shadow-2xl overflow-hidden">
+        <div className="bg-red-600 text-white p-6 flex items-center gap-4">
+          <div className="p-3 bg-white/20 rounded-full animate-pulse">
+            <Siren className="w-8 h-8" />
+          </div>
+          <div>
+            <h2 id="emergency-title" className="text-2xl font-bold">{t('emergency.title')}</h2>
+            <p className="text-red-100 text-sm">{t('emergency.subtitle')}</p>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <ul className="space-y-3">
+            {matches.map(match => (
+              <li key={match.rule.id} className="p-4 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-900/50">
+                <div className="font-bold text-red-700 dark:text-red-300">{t(`redFlag.${match.rule.id}.reason`)}</div>
+                <p className="mt-1 text-sm text-slate-600 dark:text-slate-300 leading-relaxed">{t(`redFlag.${match.rule.id}.advice`)}</p>
+              </li>
+            ))}
+          </ul>
+
+          <div className="space-y-3">
+            <a
+              href={`tel:${emergencyNumber}`}
+              className="w-full py-4 rounded-xl font-bold text-lg flex items-center justify-center gap-3 bg-red-600 hover:bg-red-700 text-white shadow-lg transition-all active:scale-[0.98]"
+            >
+              <Phone className="w-5 h-5" />
+              {t('emergency.call', { number: emergencyNumber })}
+            </a>
+            <a
+              href={`https://www.google.com/maps/search/emergency+room${location ? `/@${location.lat},${location.lng},13z` : ''}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="w-full py-3 rounded-xl font-bold flex items-center justify-center gap-2 bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400 border border-red-100 dark:border-red-900/50 hover:bg-red-100 transition-colors"
+            >
+              <MapPin className="w-4 h-4" />
+              {t('emergency.findRoom')}
+            </a>
+          </div>
+
+          <div className="pt-4 border-t border-slate-100 dark:border-slate-800 flex flex-col sm:flex-row gap-3 justify-between">
+            <button
+              onClick={onBack}
+              className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold text-slate-500 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4 rtl:rotate-180" />
+              {t('emergency.back')}
+            </button>
+            <button
+              onClick={onContinue}
+              className="px-4 py-2 rounded-lg text-sm font-semibold text-slate-500 underline underline-offset-4 hover:text-slate-700 dark:hover:text-slate-300 transition-colors"
+            >
+              {t('emergency.continue')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EmergencyScreen;
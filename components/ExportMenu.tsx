@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Download, FileText, FileJson } from 'lucide-react';
+import { ChatMessage } from '../types';
+import { printConsultationSummary } from '../utils/summaryExport';
+import { downloadFhirBundle } from '../utils/fhirExport';
+import { deriveSessionTitle } from '../services/sessionStore';
+import { useI18n } from '../i18n/I18nContext';
+
+interface ExportMenuProps {
+  messages: ChatMessage[];
+  sessionId: string | null;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ messages, sessionId }) => {
+  const { language, t } = useI18n();
+  const [open, setOpen] = useState(false);
+
+  const handlePrint = () => {
+    setOpen(false);
+    printConsultationSummary(messages, {
+      title: deriveSessionTitle(messages, t),
+      createdAt: messages[0].timestamp,
+      language
+    });
+  };
+
+  const handleFhir = () => {
+    setOpen(false);
+    try {
+      downloadFhirBundle(messages, sessionId || messages[0].id);
+    } catch (error) {
+      console.error(error);
+      // The details are the FHIR check failures, in English
+      alert(error instanceof Error ? `${t('export.failed')}\n\n${error.message}` : t('export.failed'));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+        title={t('export.title')}
+      >
+        <Download className="w-5 h-5" />
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute end-0 mt-2 z-50 w-64 bg-white dark:bg-slate-900 rounded-2xl shadow-xl border border-slate-100 dark:border-slate-800 p-2 animate-fade-in">
+            <button onClick={handlePrint} className="w-full flex items-start gap-3 p-3 rounded-xl text-start hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors">
+              <FileText className="w-5 h-5 text-blue-500 flex-shrink-0" />
+              <span>
+                <span className="block text-sm font-semibold">{t('export.summary')}</span>
+                <span className="block text-xs text-slate-400">{t('export.summaryHint')}</span>
+              </span>
+            </button>
+            <button onClick={handleFhir} className="w-full flex items-start gap-3 p-3 rounded-xl text-start hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors">
+              <FileJson className="w-5 h-5 text-emerald-500 flex-shrink-0" />
+              <span>
+                <span className="block text-sm font-semibold">{t('export.fhir')}</span>
+                <span className="block text-xs text-slate-400">{t('export.fhirHint')}</span>
+              </span>
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { MapPin, Globe, ExternalLink } from 'lucide-react';
+import { GroundingChunk } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+
+interface GroundingSourcesProps {
+  chunks: GroundingChunk[];
+}
+
+const hostname = (uri: string) => {
+  try {
+    return new URL(uri).hostname.replace(/^www\./, '');
+  } catch {
+    return uri;
+  }
+};
+
+/**
+ * Cited places and pages the reply was grounded on, numbered in the order
+ * the model returned them.
+ */
+const GroundingSources: React.FC<GroundingSourcesProps> = ({ chunks }) => {
+  const { t } = useI18n();
+
+  return (
+    <section className="mt-6 space-y-3">
+      <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t('sources.title')}</h4>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {chunks.map((chunk, idx) => {
+          const place = chunk.maps;
+          const page = chunk.web;
+          const uri = place?.uri || page?.uri;
+          if (!uri) return null;
+          const Icon = place ? MapPin : Globe;
+          return (
+            <a
+              key={uri}
+              href={uri}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="group flex gap-3 items-start p-3 rounded-xl border border-slate-100 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/50 hover:border-blue-200 dark:hover:border-blue-900 transition-colors"
+            >
+              <span className="flex items-center justify-center w-6 h-6 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-600 text-xs font-bold flex-shrink-0">{idx + 1}</span>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-1.5 font-semibold text-sm text-slate-900 dark:text-white">
+                  <span className="truncate">{place?.title || page?.title || hostname(uri)}</span>
+                  <ExternalLink className="w-3 h-3 flex-shrink-0 text-slate-400 group-hover:text-blue-500" />
+                </div>
+                {place?.text && <p className="mt-1 text-xs text-slate-500 line-clamp-2">{place.text}</p>}
+                <div className="mt-1 flex items-center gap-1 text-xs text-slate-400">
+                  <Icon className="w-3 h-3" />
+                  {place ? t('sources.maps') : page?.domain || hostname(uri)}
+                </div>
+              </div>
+            </a>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default GroundingSources;
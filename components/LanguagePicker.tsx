@@ -0,0 +1,30 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LANGUAGES, isLanguageCode } from '../i18n/languages';
+import { useI18n } from '../i18n/I18nContext';
+
+/**
+ * Sets both the UI language and the language the model replies in.
+ */
+const LanguagePicker: React.FC = () => {
+  const { language, setLanguage, t } = useI18n();
+
+  return (
+    <label className="relative flex items-center p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors cursor-pointer" title={t('header.language')}>
+      <Languages className="w-5 h-5" />
+      <span className="ms-1 text-xs font-bold uppercase">{language}</span>
+      <select
+        value={language}
+        onChange={(e) => isLanguageCode(e.target.value) && setLanguage(e.target.value)}
+        aria-label={t('header.language')}
+        className="absolute inset-0 opacity-0 cursor-pointer"
+      >
+        {LANGUAGES.map(option => (
+          <option key={option.code} value={option.code} dir={option.dir}>{option.nativeName}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguagePicker;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, Pencil, RotateCcw } from 'lucide-react';
+import { useI18n } from '../i18n/I18nContext';
+
+interface MessageActionsProps {
+  // Position among the alternatives for this turn, zero-based
+  index: number;
+  count: number;
+  onSwitch: (index: number) => void;
+  onEdit?: () => void;
+  onRegenerate?: () => void;
+  disabled?: boolean;
+}
+
+const buttonClass = "p-1.5 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-400 transition-colors";
+
+/**
+ * Small toolbar under a message: version arrows when the turn has been
+ * edited or regenerated, plus the edit or regenerate button.
+ */
+const MessageActions: React.FC<MessageActionsProps> = ({ index, count, onSwitch, onEdit, onRegenerate, disabled }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="mt-1 flex items-center gap-1 text-xs text-slate-400 opacity-60 hover:opacity-100 focus-within:opacity-100 transition-opacity">
+      {count > 1 && (
+        <div className="flex items-center">
+          <button onClick={() => onSwitch(index - 1)} disabled={disabled || index === 0} title={t('chat.previousBranch')} className={buttonClass}>
+            <ChevronLeft className="w-3.5 h-3.5 rtl:rotate-180" />
+          </button>
+          <span className="tabular-nums font-semibold">{index + 1} / {count}</span>
+          <button onClick={() => onSwitch(index + 1)} disabled={disabled || index === count - 1} title={t('chat.nextBranch')} className={buttonClass}>
+            <ChevronRight className="w-3.5 h-3.5 rtl:rotate-180" />
+          </button>
+        </div>
+      )}
+      {onEdit && (
+        <button onClick={onEdit} disabled={disabled} title={t('chat.edit')} className={buttonClass}>
+          <Pencil className="w-3.5 h-3.5" />
+        </button>
+      )}
+      {onRegenerate && (
+        <button onClick={onRegenerate} disabled={disabled} title={t('chat.regenerate')} className={buttonClass}>
+          <RotateCcw className="w-3.5 h-3.5" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MessageActions;
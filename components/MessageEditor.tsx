@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pencil, ImagePlus, Trash2, Volume2 } from 'lucide-react';
+import { ChatMessage, MediaAttachment } from '../types';
+import { preprocessImage, checkMessageMedia, MediaLimitError } from '../utils/mediaPreprocess';
+import { blobToBase64 } from '../utils/mediaUtils';
+import { useI18n } from '../i18n/I18nContext';
+
+export type MessageEdit = Pick<ChatMessage, 'text' | 'painLevel' | 'attachments'>;
+
+interface MessageEditorProps {
+  message: ChatMessage;
+  onSave: (edit: MessageEdit) => void;
+  onCancel: () => void;
+}
+
+// Same 1-10 range as the pain scale on the intake form
+const PAIN_LEVELS = Array.from({ length: 10 }, (_, index) => index + 1);
+
+/**
+ * Inline form replacing a sent user message. Saving creates a new branch
+ * from that point; the original stays reachable with the branch arrows.
+ */
+const MessageEditor: React.FC<MessageEditorProps> = ({ message, onSave, onCancel }) => {
+  const { t } = useI18n();
+  const [text, setText] = useState(message.text || '');
+  const [painLevel, setPainLevel] = useState<number | null>(message.painLevel ?? null);
+  const [attachments, setAttachments] = useState<MediaAttachment[]>(message.attachments || []);
+  const [error, setError] = useState<string | null>(null);
+  // Preview URLs for photos added here. A save hands the ones it keeps to the
+  // new message; everything else is revoked when the editor closes
+  const createdUrls = useRef<string[]>([]);
+  const handedOver = useRef(new Set<string | undefined>());
+
+  useEffect(() => () => {
+    createdUrls.current
+      .filter(url => !handedOver.current.has(url))
+      .forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  const addPhoto = async (file: File) => {
+    setError(null);
+    try {
+      const image = await preprocessImage(file);
+      const attachment: MediaAttachment = {
+        id: Date.now().toString(),
+        type: 'image',
+        mimeType: image.type,
+        data: await blobToBase64(image),
+        sizeBytes: image.size
+      };
+      checkMessageMedia([...attachments, attachment]);
+      const previewUrl = URL.createObjectURL(image);
+      createdUrls.current.push(previewUrl);
+      setAttachments(prev => [...prev, { ...attachment, previewUrl }]);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof MediaLimitError ? err.describe(t) : t('recorder.photoFailed'));
+    }
+  };
+
+  const canSave = text.trim() !== '' || attachments.length > 0;
+
+  // A save held back by the emergency screen can still end in a cancel
+  const save = () => {
+    handedOver.current = new Set(attachments.map(att => att.previewUrl));
+    onSave({ text, painLevel, attachments });
+  };
+
+  const cancel = () => {
+    handedOver.current = new Set();
+    onCancel();
+  };
+
+  return (
+    <div className="w-full max-w-2xl bg-white dark:bg-slate-900 border-2 border-blue-200 dark:border-blue-900/50 rounded-3xl p-5 space-y-4 shadow-lg">
+      <h4 className="flex items-center gap-2 text-xs font-bold text-slate-400 uppercase tracking-wider">
+        <Pencil className="w-3.5 h-3.5" />
+        {t('edit.title')}
+      </h4>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        autoFocus
+        className="w-full h-24 p-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-950 text-sm resize-none focus:ring-0 focus:bg-white dark:focus:bg-slate-900"
+      />
+
+      {/* Pain is only asked for on the opening message */}
+      {!message.parentId && (
+        <label className="flex items-center gap-3 text-sm">
+          <span className="font-semibold text-slate-500">{t('pain.title')}</span>
+          <select
+            value={painLevel ?? ''}
+            onChange={(e) => setPainLevel(e.target.value === '' ? null : Number(e.target.value))}
+            className="rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-950 px-2 py-1.5 text-sm"
+          >
+            <option value="">{t('pain.notRated')}</option>
+            {PAIN_LEVELS.map(level => <option key={level} value={level}>{level}/10</option>)}
+          </select>
+        </label>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {attachments.map(att => (
+          <div key={att.id} className="relative group w-20 h-20 rounded-xl overflow-hidden border border-slate-200 dark:border-slate-700">
+            {att.type === 'image' && <img src={att.previewUrl} className="w-full h-full object-cover" />}
+            {att.type === 'video' && <video src={att.previewUrl} className="w-full h-full object-cover bg-black" />}
+            {att.type === 'audio' && (
+              <div className="w-full h-full bg-slate-50 dark:bg-slate-800 flex items-center justify-center">
+                <Volume2 className="w-6 h-6 text-blue-500" />
+              </div>
+            )}
+            <button
+              onClick={() => setAttachments(prev => prev.filter(other => other.id !== att.id))}
+              title={t('intake.removeAttachment')}
+              className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity flex items-center justify-center text-white"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <label className="w-20 h-20 rounded-xl border border-dashed border-slate-300 dark:border-slate-600 flex flex-col items-center justify-center gap-1 text-[11px] font-semibold text-slate-500 hover:text-blue-600 hover:border-blue-300 transition-colors cursor-pointer">
+          <ImagePlus className="w-5 h-5" />
+          {t('edit.addPhoto')}
+          <input
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) addPhoto(file);
+            }}
+          />
+        </label>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={cancel} className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+          {t('edit.cancel')}
+        </button>
+        <button
+          onClick={save}
+          disabled={!canSave}
+          className="px-4 py-2 rounded-xl text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {t('edit.save')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MessageEditor;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { DiaryEntry } from '../types';
+import { daysBetween, ratedEntries } from '../utils/painTrend';
+
+interface PainTrendChartProps {
+  entries: DiaryEntry[];
+  formatDate: (date: string) => string;
+}
+
+const WIDTH = 320;
+const HEIGHT = 120;
+const PAD = 12;
+
+const dotClass = (level: number) =>
+  level <= 3 ? 'fill-emerald-500' : level <= 6 ? 'fill-yellow-500' : level <= 8 ? 'fill-orange-500' : 'fill-red-600';
+
+/**
+ * Pain ratings plotted against the calendar, so a gap of several days
+ * between entries shows as a gap.
+ */
+const PainTrendChart: React.FC<PainTrendChartProps> = ({ entries, formatDate }) => {
+  const rated = ratedEntries(entries);
+  if (rated.length < 2) return null;
+
+  const first = rated[0].date;
+  const last = rated[rated.length - 1].date;
+  const span = Math.max(daysBetween(first, last), 1);
+  const x = (date: string) => PAD + (daysBetween(first, date) / span) * (WIDTH - PAD * 2);
+  const y = (level: number) => PAD + (1 - level / 10) * (HEIGHT - PAD * 2);
+  const path = rated.map((entry, idx) => `${idx === 0 ? 'M' : 'L'}${x(entry.date)},${y(entry.painLevel as number)}`).join(' ');
+
+  return (
+    // Time runs left to right in every language
+    <figure className="space-y-1" dir="ltr">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-32" role="img" aria-label={rated.map(entry => `${formatDate(entry.date)}: ${entry.painLevel}/10`).join(', ')}>
+        {[0, 5, 10].map(level => (
+          <g key={level}>
+            <line x1={PAD} x2={WIDTH - PAD} y1={y(level)} y2={y(level)} className="stroke-slate-200 dark:stroke-slate-700" strokeDasharray="3 3" />
+            <text x={0} y={y(level) + 3} className="fill-slate-400 text-[8px]">{level}</text>
+          </g>
+        ))}
+        <path d={path} fill="none" className="stroke-blue-500" strokeWidth={2} strokeLinejoin="round" />
+        {rated.map(entry => (
+          <circle key={entry.id} cx={x(entry.date)} cy={y(entry.painLevel as number)} r={4} className={dotClass(entry.painLevel as number)} />
+        ))}
+      </svg>
+      <figcaption className="flex justify-between text-xs text-slate-400">
+        <span>{formatDate(first)}</span>
+        <span>{formatDate(last)}</span>
+      </figcaption>
+    </figure>
+  );
+};
+
+export default PainTrendChart;
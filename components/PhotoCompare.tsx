@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Columns2, SplitSquareHorizontal } from 'lucide-react';
+import { useI18n } from '../i18n/I18nContext';
+
+interface ComparedImage {
+  url: string;
+  label: string;
+}
+
+interface PhotoCompareProps {
+  before: ComparedImage;
+  after: ComparedImage;
+}
+
+type CompareMode = 'side-by-side' | 'slider';
+
+const Caption: React.FC<{ title: string, label: string, className?: string }> = ({ title, label, className = '' }) => (
+  <span className={`px-2 py-0.5 rounded-full bg-black/60 text-white text-xs font-semibold ${className}`}>
+    {title} · {label}
+  </span>
+);
+
+/**
+ * Two photos of the same spot, either next to each other or stacked with
+ * a draggable divider revealing "then" on the left and "now" on the right.
+ */
+const PhotoCompare: React.FC<PhotoCompareProps> = ({ before, after }) => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<CompareMode>('side-by-side');
+  const [split, setSplit] = useState(50);
+
+  const modeButton = (value: CompareMode, Icon: typeof Columns2, label: string) => (
+    <button
+      onClick={() => setMode(value)}
+      aria-pressed={mode === value}
+      className={`flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg text-xs font-semibold transition-colors ${
+        mode === value ? 'bg-white dark:bg-slate-900 text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'
+      }`}
+    >
+      <Icon className="w-3.5 h-3.5" />
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1 p-1 rounded-xl bg-slate-100 dark:bg-slate-800">
+        {modeButton('side-by-side', Columns2, t('photos.sideBySide'))}
+        {modeButton('slider', SplitSquareHorizontal, t('photos.slider'))}
+      </div>
+
+      {/* Then stays on the left in every language, matching the timeline */}
+      {mode === 'side-by-side' ? (
+        <div className="grid grid-cols-2 gap-2" dir="ltr">
+          {[{ image: before, title: t('photos.then') }, { image: after, title: t('photos.now') }].map(({ image, title }) => (
+            <figure key={title} className="relative rounded-xl overflow-hidden bg-black aspect-square">
+              <img src={image.url} alt={`${title} · ${image.label}`} className="w-full h-full object-contain" />
+              <Caption title={title} label={image.label} className="absolute bottom-2 left-2" />
+            </figure>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-2" dir="ltr">
+          <div className="relative rounded-xl overflow-hidden bg-black aspect-square select-none">
+            <img src={after.url} alt={`${t('photos.now')} · ${after.label}`} className="absolute inset-0 w-full h-full object-contain" />
+            <img
+              src={before.url}
+              alt={`${t('photos.then')} · ${before.label}`}
+              className="absolute inset-0 w-full h-full object-contain"
+              style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+            />
+            <div className="absolute inset-y-0 w-0.5 bg-white shadow" style={{ left: `${split}%` }} />
+            <Caption title={t('photos.then')} label={before.label} className="absolute bottom-2 left-2" />
+            <Caption title={t('photos.now')} label={after.label} className="absolute bottom-2 right-2" />
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={split}
+            onChange={(e) => setSplit(Number(e.target.value))}
+            aria-label={t('photos.slider')}
+            className="w-full accent-blue-600"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PhotoCompare;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Images, Check } from 'lucide-react';
+import { MediaAttachment, PhotoSite } from '../types';
+import { addSitePhoto, newPhotoSite } from '../services/photoStore';
+import { base64ToBlob } from '../utils/mediaUtils';
+import { useI18n } from '../i18n/I18nContext';
+
+interface PhotoSiteFilerProps {
+  images: MediaAttachment[];
+  // Body sites belonging to the person the check is about
+  sites: PhotoSite[];
+  profileId: string;
+  onSaveSite: (site: PhotoSite) => void;
+}
+
+const NEW_SITE = 'new';
+
+/**
+ * Files the photos picked for this check under a body site, so they show
+ * up on that site's timeline for later comparison.
+ */
+const PhotoSiteFiler: React.FC<PhotoSiteFilerProps> = ({ images, sites, profileId, onSaveSite }) => {
+  const { t } = useI18n();
+  const [choice, setChoice] = useState(sites[0]?.id || '');
+  const [newName, setNewName] = useState('');
+  const [savedIds, setSavedIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const unsaved = images.filter(image => !savedIds.includes(image.id));
+  const canSave = choice === NEW_SITE ? newName.trim() !== '' : sites.some(site => site.id === choice);
+
+  const save = async () => {
+    const site = choice === NEW_SITE ? newPhotoSite(newName, profileId) : sites.find(s => s.id === choice);
+    if (!site) return;
+    setSaving(true);
+    setError(null);
+    // Photos filed before a failure stay filed, so a retry doesn't add them twice
+    const filed: string[] = [];
+    try {
+      for (const image of unsaved) {
+        await addSitePhoto({
+          id: crypto.randomUUID(),
+          siteId: site.id,
+          takenAt: Date.now(),
+          mimeType: image.mimeType,
+          blob: base64ToBlob(image.data, image.mimeType)
+        });
+        filed.push(image.id);
+      }
+    } catch (err) {
+      console.error("Could not save photos to the timeline", err);
+      setError(t('photos.fileFailed'));
+    } finally {
+      if (filed.length > 0) {
+        onSaveSite({ ...site, updatedAt: Date.now() });
+        setSavedIds(prev => [...prev, ...filed]);
+        setChoice(site.id);
+        setNewName('');
+      }
+      setSaving(false);
+    }
+  };
+
+  if (unsaved.length === 0) {
+    return (
+      <p className="flex items-center gap-1.5 text-xs font-semibold text-emerald-600">
+        <Check className="w-3.5 h-3.5" /> {t('photos.saved')}
+      </p>
+    );
+  }
+
+  const controlClass = 'rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-950 px-2 py-1.5 text-sm';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <Images className="w-4 h-4 text-blue-500 flex-shrink-0" />
+      <span className="font-semibold text-slate-500">{t('photos.fileUnder')}</span>
+      <select value={choice} onChange={(e) => setChoice(e.target.value)} className={`${controlClass} flex-1 min-w-0`}>
+        <option value="" disabled>{t('photos.chooseSite')}</option>
+        {sites.map(site => (
+          <option key={site.id} value={site.id}>{site.name}</option>
+        ))}
+        <option value={NEW_SITE}>{t('photos.newSite')}</option>
+      </select>
+      {choice === NEW_SITE && (
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder={t('photos.namePlaceholder')}
+          className={`${controlClass} flex-1 min-w-0`}
+        />
+      )}
+      <button
+        onClick={save}
+        disabled={!canSave || saving}
+        className="px-3 py-1.5 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+      >
+        {t('photos.save')}
+      </button>
+      {error && <p className="w-full text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default PhotoSiteFiler;
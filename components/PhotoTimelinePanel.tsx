@@ -0,0 +1,290 @@
+import React, { useEffect, useState } from 'react';
+import { X, Images, ChevronLeft, Trash2, Plus, ImagePlus, UserRound, MessageSquareText } from 'lucide-react';
+import { HouseholdProfile, PhotoSite, SitePhoto } from '../types';
+import { addSitePhoto, deleteSitePhoto, listSitePhotos, newPhotoSite } from '../services/photoStore';
+import { preprocessImage, MediaLimitError } from '../utils/mediaPreprocess';
+import { profileDisplayName } from './SubjectPicker';
+import PhotoCompare from './PhotoCompare';
+import { useI18n } from '../i18n/I18nContext';
+
+interface PhotoTimelinePanelProps {
+  sites: PhotoSite[];
+  profiles: HouseholdProfile[];
+  // Who new body sites are for unless the user picks someone else
+  subjectId: string;
+  onSaveSite: (site: PhotoSite) => void;
+  onDeleteSite: (id: string) => void;
+  onCompare: (site: PhotoSite, before: SitePhoto, after: SitePhoto) => void;
+  onClose: () => void;
+}
+
+type ShownPhoto = SitePhoto & { url: string };
+
+const inputClass = 'w-full rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-950 px-3 py-2 text-sm focus:ring-0 focus:bg-white dark:focus:bg-slate-900';
+
+const PhotoTimelinePanel: React.FC<PhotoTimelinePanelProps> = ({ sites, profiles, subjectId, onSaveSite, onDeleteSite, onCompare, onClose }) => {
+  const { language, t } = useI18n();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newProfileId, setNewProfileId] = useState(subjectId);
+  const [photos, setPhotos] = useState<ShownPhoto[]>([]);
+  const [thenId, setThenId] = useState<string | null>(null);
+  const [nowId, setNowId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to reload the open site's photos after a change
+  const [version, setVersion] = useState(0);
+
+  const selected = sites.find(site => site.id === selectedId);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    let shown: ShownPhoto[] = [];
+    let cancelled = false;
+    listSitePhotos(selectedId)
+      .then(loaded => {
+        if (cancelled) return;
+        shown = loaded.map(photo => ({ ...photo, url: URL.createObjectURL(photo.blob) }));
+        setPhotos(shown);
+        setThenId(shown.length > 1 ? shown[0].id : null);
+        setNowId(shown.length > 0 ? shown[shown.length - 1].id : null);
+      })
+      .catch(err => console.error("Could not load photos", err));
+    return () => {
+      cancelled = true;
+      shown.forEach(photo => URL.revokeObjectURL(photo.url));
+    };
+  }, [selectedId, version]);
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString(language, { day: 'numeric', month: 'short', year: 'numeric' });
+
+  const personName = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    return profile ? profileDisplayName(profile, t) : '';
+  };
+
+  const openSite = (id: string | null) => {
+    setPhotos([]);
+    setError(null);
+    setSelectedId(id);
+  };
+
+  const createSite = () => {
+    if (!newName.trim()) return;
+    const site = newPhotoSite(newName, newProfileId);
+    onSaveSite(site);
+    setNewName('');
+    openSite(site.id);
+  };
+
+  const addPhoto = async (file: File, site: PhotoSite) => {
+    setError(null);
+    try {
+      const image = await preprocessImage(file);
+      await addSitePhoto({
+        id: crypto.randomUUID(),
+        siteId: site.id,
+        // EXIF is stripped, so the file date is the best guess at when it was taken
+        takenAt: file.lastModified || Date.now(),
+        mimeType: image.type,
+        blob: image
+      });
+      onSaveSite({ ...site, updatedAt: Date.now() });
+      setVersion(v => v + 1);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof MediaLimitError ? err.describe(t) : t('photos.addFailed'));
+    }
+  };
+
+  const removePhoto = async (id: string) => {
+    setError(null);
+    try {
+      await deleteSitePhoto(id);
+      setVersion(v => v + 1);
+    } catch (err) {
+      console.error(err);
+      setError(t('photos.removeFailed'));
+    }
+  };
+
+  const handleDelete = (site: PhotoSite) => {
+    if (!window.confirm(t('photos.confirmDelete', { name: site.name }))) return;
+    onDeleteSite(site.id);
+    openSite(null);
+  };
+
+  // The tapped photo becomes "then" if it is older than "now", otherwise "now"
+  const pickPhoto = (photo: ShownPhoto) => {
+    const now = photos.find(p => p.id === nowId);
+    if (now && photo.takenAt < now.takenAt) {
+      setThenId(photo.id);
+    } else {
+      setNowId(photo.id);
+      // "Then" may also have been removed since it was picked
+      const then = photos.find(p => p.id === thenId);
+      if (thenId && (!then || then.takenAt >= photo.takenAt)) setThenId(null);
+    }
+  };
+
+  const renderList = () => (
+    <>
+      <p className="text-sm text-slate-500">{t('photos.intro')}</p>
+      <div className="space-y-2">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && createSite()}
+          placeholder={t('photos.namePlaceholder')}
+          className={inputClass}
+        />
+        <div className="flex gap-2">
+          {profiles.length > 1 && (
+            <select value={newProfileId} onChange={(e) => setNewProfileId(e.target.value)} className={inputClass}>
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profileDisplayName(profile, t)}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={createSite}
+            disabled={!newName.trim()}
+            className="flex items-center justify-center gap-1.5 px-4 py-2 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors whitespace-nowrap flex-1"
+          >
+            <Plus className="w-4 h-4" />
+            {t('photos.create')}
+          </button>
+        </div>
+      </div>
+
+      {sites.length === 0 && <p className="p-6 text-center text-sm text-slate-400">{t('photos.empty')}</p>}
+      <div className="space-y-2">
+        {sites.map(site => (
+          <button
+            key={site.id}
+            onClick={() => openSite(site.id)}
+            className="w-full text-start p-3 rounded-xl border border-slate-100 dark:border-slate-800 hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors"
+          >
+            <div className="font-semibold text-sm text-slate-800 dark:text-slate-100 truncate">{site.name}</div>
+            <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-slate-400">
+              {profiles.length > 1 && <span className="flex items-center gap-1"><UserRound className="w-3 h-3" />{personName(site.profileId)}</span>}
+              <span>{formatDate(site.updatedAt)}</span>
+            </div>
+          </button>
+        ))}
+      </div>
+    </>
+  );
+
+  const renderSite = (site: PhotoSite) => {
+    const then = photos.find(photo => photo.id === thenId);
+    const now = photos.find(photo => photo.id === nowId);
+    return (
+      <>
+        <div className="flex items-start gap-2">
+          <div className="flex-1 min-w-0">
+            <h3 className="font-bold text-slate-900 dark:text-white truncate">{site.name}</h3>
+            {profiles.length > 1 && <p className="text-xs text-slate-400">{personName(site.profileId)}</p>}
+          </div>
+          <button onClick={() => handleDelete(site)} className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors" title={t('photos.delete')}>
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+
+        {then && now && (
+          <>
+            <PhotoCompare
+              before={{ url: then.url, label: formatDate(then.takenAt) }}
+              after={{ url: now.url, label: formatDate(now.takenAt) }}
+            />
+            <button
+              onClick={() => onCompare(site, then, now)}
+              className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl text-sm font-bold bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-md hover:shadow-lg transition-all"
+            >
+              <MessageSquareText className="w-4 h-4" />
+              {t('photos.ask')}
+            </button>
+          </>
+        )}
+
+        {photos.length === 0 ? (
+          <p className="p-4 text-center text-sm text-slate-400">{t('photos.noPhotos')}</p>
+        ) : (
+          <div className="space-y-2">
+            {photos.length > 1 && <p className="text-xs text-slate-500">{t('photos.pickHint')}</p>}
+            {/* Oldest first, left to right like a calendar */}
+            <div className="flex gap-2 overflow-x-auto pb-2" dir="ltr">
+              {photos.map(photo => {
+                const role = photo.id === thenId ? t('photos.then') : photo.id === nowId ? t('photos.now') : null;
+                return (
+                  <div key={photo.id} className="group relative flex-shrink-0 w-24">
+                    <button
+                      onClick={() => pickPhoto(photo)}
+                      className={`block w-24 h-24 rounded-xl overflow-hidden border-2 transition-colors ${role ? 'border-blue-500' : 'border-transparent'}`}
+                    >
+                      <img src={photo.url} alt={formatDate(photo.takenAt)} className="w-full h-full object-cover" />
+                    </button>
+                    {role && <span className="absolute top-1 left-1 px-1.5 rounded bg-blue-600 text-white text-[10px] font-bold uppercase">{role}</span>}
+                    <button
+                      onClick={() => removePhoto(photo.id)}
+                      className="absolute top-1 right-1 p-1 rounded-full bg-black/50 text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                      title={t('photos.deletePhoto')}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                    <div className="mt-1 text-[10px] text-center text-slate-400">{formatDate(photo.takenAt)}</div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <label className="w-full flex items-center justify-center gap-2 py-2 rounded-xl border border-dashed border-slate-300 dark:border-slate-600 text-sm font-semibold text-slate-500 hover:text-blue-600 hover:border-blue-300 transition-colors cursor-pointer">
+          <ImagePlus className="w-4 h-4" />
+          {t('photos.add')}
+          <input
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) addPhoto(file, site);
+            }}
+          />
+        </label>
+      </>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end animate-fade-in">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose} />
+      <aside className="relative w-full max-w-sm h-full bg-white dark:bg-slate-900 shadow-2xl border-s border-slate-200 dark:border-slate-800 flex flex-col">
+        <div className="h-16 px-5 flex items-center justify-between border-b border-slate-100 dark:border-slate-800">
+          <h2 className="flex items-center gap-2 font-bold text-slate-900 dark:text-white">
+            {selected ? (
+              <button onClick={() => openSite(null)} className="p-1 -ms-1 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title={t('photos.back')}>
+                <ChevronLeft className="w-5 h-5 rtl:rotate-180" />
+              </button>
+            ) : (
+              <Images className="w-5 h-5 text-blue-500" />
+            )}
+            {t('photos.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title={t('photos.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {selected ? renderSite(selected) : renderList()}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default PhotoTimelinePanel;
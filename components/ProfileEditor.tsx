@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { X, UserRound, Trash2 } from 'lucide-react';
+import { HouseholdProfile, ProfileRelationship, ProfileSex } from '../types';
+import { EMPTY_PROFILE, RELATIONSHIPS, SELF_PROFILE_ID } from '../services/profileStore';
+import { useI18n } from '../i18n/I18nContext';
+
+interface ProfileEditorProps {
+  profile: HouseholdProfile;
+  onSave: (profile: HouseholdProfile) => void;
+  // Not offered for the user's own profile
+  onDelete?: (id: string) => void;
+  onClose: () => void;
+}
+
+const toLines = (items: string[]) => items.join('\n');
+
+const fromLines = (text: string) =>
+  text.split(/[\n,;]/).map(item => item.trim()).filter(Boolean);
+
+const inputClass = 'w-full rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-950 px-3 py-2 text-sm focus:ring-0 focus:bg-white dark:focus:bg-slate-900';
+const labelClass = 'block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1';
+
+const parseNumber = (value: string, max: number): number | undefined => {
+  const parsed = Number(value.replace(',', '.'));
+  return value.trim() !== '' && Number.isFinite(parsed) && parsed >= 0 && parsed <= max ? parsed : undefined;
+};
+
+const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, onSave, onDelete, onClose }) => {
+  const { t } = useI18n();
+  const isSelf = profile.id === SELF_PROFILE_ID;
+  const [name, setName] = useState(profile.name);
+  const [relationship, setRelationship] = useState<ProfileRelationship>(profile.relationship);
+  const [age, setAge] = useState(profile.age?.toString() ?? '');
+  const [ageMonths, setAgeMonths] = useState(profile.ageMonths?.toString() ?? '');
+  const [weight, setWeight] = useState(profile.weightKg?.toString() ?? '');
+  const [sex, setSex] = useState<ProfileSex | ''>(profile.sex ?? '');
+  const [pregnant, setPregnant] = useState(profile.pregnant === undefined ? '' : profile.pregnant ? 'yes' : 'no');
+  const [conditions, setConditions] = useState(toLines(profile.conditions));
+  const [medications, setMedications] = useState(toLines(profile.medications));
+  const [allergies, setAllergies] = useState(toLines(profile.allergies));
+
+  const parsedAge = parseNumber(age, 129);
+  // Months only matter for babies under two
+  const askMonths = parsedAge === undefined || parsedAge < 2;
+
+  const handleSave = () => {
+    const months = askMonths ? parseNumber(ageMonths, 23) : undefined;
+    onSave({
+      id: profile.id,
+      name: name.trim(),
+      relationship: isSelf ? 'self' : relationship,
+      age: parsedAge !== undefined ? Math.floor(parsedAge) : undefined,
+      ageMonths: months !== undefined ? Math.floor(months) : undefined,
+      weightKg: parseNumber(weight, 399),
+      sex: sex || undefined,
+      // Pregnancy is not asked for men, so don't keep a stale answer
+      pregnant: sex === 'male' || pregnant === '' ? undefined : pregnant === 'yes',
+      conditions: fromLines(conditions),
+      medications: fromLines(medications),
+      allergies: fromLines(allergies)
+    });
+  };
+
+  const listField = (label: string, value: string, onChange: (value: string) => void) => (
+    <label className="block">
+      <span className={labelClass}>{label}</span>
+      <textarea value={value} onChange={(e) => onChange(e.target.value)} placeholder={t('profile.listHint')} className={`${inputClass} h-20 resize-none`} />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 animate-fade-in">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose} />
+      <div role="dialog" aria-modal="true" className="relative w-full max-w-lg max-h-full overflow-y-auto bg-white dark:bg-slate-900 rounded-3xl shadow-2xl border border-slate-200 dark:border-slate-800">
+        <div className="h-16 px-5 flex items-center justify-between border-b border-slate-100 dark:border-slate-800">
+          <h2 className="flex items-center gap-2 font-bold text-slate-900 dark:text-white">
+            <UserRound className="w-5 h-5 text-blue-500" />
+            {isSelf ? t('profile.editorTitle') : t('profile.editorTitleOther')}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title={t('profile.cancel')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <p className="text-sm text-slate-500">{t('profile.privacy')}</p>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className={labelClass}>{t('profile.name')}</span>
+              <input value={name} onChange={(e) => setName(e.target.value)} placeholder={isSelf ? t('relationship.self') : ''} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className={labelClass}>{t('profile.relationship')}</span>
+              <select value={isSelf ? 'self' : relationship} disabled={isSelf} onChange={(e) => setRelationship(e.target.value as ProfileRelationship)} className={`${inputClass} disabled:opacity-60`}>
+                {RELATIONSHIPS.filter(option => isSelf || option !== 'self').map(option => (
+                  <option key={option} value={option}>{t(`relationship.${option}`)}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <label className="block">
+              <span className={labelClass}>{t('profile.age')}</span>
+              <input type="number" min={0} max={129} inputMode="numeric" value={age} onChange={(e) => setAge(e.target.value)} className={inputClass} />
+            </label>
+            {askMonths && (
+              <label className="block">
+                <span className={labelClass}>{t('profile.ageMonths')}</span>
+                <input type="number" min={0} max={23} inputMode="numeric" value={ageMonths} onChange={(e) => setAgeMonths(e.target.value)} className={inputClass} />
+              </label>
+            )}
+            <label className="block">
+              <span className={labelClass}>{t('profile.weight')}</span>
+              <input type="number" min={0} step="0.1" inputMode="decimal" value={weight} onChange={(e) => setWeight(e.target.value)} className={inputClass} />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className={labelClass}>{t('profile.sex')}</span>
+              <select value={sex} onChange={(e) => setSex(e.target.value as ProfileSex | '')} className={inputClass}>
+                <option value="">{t('profile.notSaid')}</option>
+                <option value="female">{t('profile.sex.female')}</option>
+                <option value="male">{t('profile.sex.male')}</option>
+                <option value="other">{t('profile.sex.other')}</option>
+              </select>
+            </label>
+            {sex !== 'male' && (
+              <label className="block">
+                <span className={labelClass}>{t('profile.pregnant')}</span>
+                <select value={pregnant} onChange={(e) => setPregnant(e.target.value)} className={inputClass}>
+                  <option value="">{t('profile.notSaid')}</option>
+                  <option value="yes">{t('profile.yes')}</option>
+                  <option value="no">{t('profile.no')}</option>
+                </select>
+              </label>
+            )}
+          </div>
+
+          {listField(t('profile.conditions'), conditions, setConditions)}
+          {listField(t('profile.medications'), medications, setMedications)}
+          {listField(t('profile.allergies'), allergies, setAllergies)}
+        </div>
+
+        <div className="px-5 pb-5 flex items-center gap-3">
+          {isSelf || !onDelete ? (
+            <button onClick={() => onSave({ ...EMPTY_PROFILE, id: profile.id, name: '', relationship: 'self' })} className="text-xs font-semibold text-red-600 hover:underline">
+              {t('profile.clear')}
+            </button>
+          ) : (
+            <button onClick={() => onDelete(profile.id)} className="flex items-center gap-1.5 text-xs font-semibold text-red-600 hover:underline">
+              <Trash2 className="w-3.5 h-3.5" />
+              {t('household.delete')}
+            </button>
+          )}
+          <div className="flex-1" />
+          <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-semibold text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+            {t('profile.cancel')}
+          </button>
+          <button onClick={handleSave} className="px-4 py-2 rounded-xl text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 transition-colors">
+            {t('profile.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileEditor;
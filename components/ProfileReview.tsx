@@ -0,0 +1,94 @@
+import React from 'react';
+import { UserRound, Pencil } from 'lucide-react';
+import { PatientProfile, ProfileField } from '../types';
+import { filledProfileFields } from '../services/profileStore';
+import { useI18n } from '../i18n/I18nContext';
+import { TranslationKey } from '../i18n/translations';
+
+interface ProfileReviewProps {
+  profile: PatientProfile;
+  sharedFields: ProfileField[];
+  onChange: (fields: ProfileField[]) => void;
+  onEdit: () => void;
+}
+
+export const PROFILE_FIELD_LABELS: Record<ProfileField, TranslationKey> = {
+  age: 'profile.age',
+  weight: 'profile.weight',
+  sex: 'profile.sex',
+  pregnant: 'profile.pregnant',
+  conditions: 'profile.conditions',
+  medications: 'profile.medications',
+  allergies: 'profile.allergies'
+};
+
+// Localised display value for one filled field
+export const formatProfileValue = (
+  profile: PatientProfile,
+  field: ProfileField,
+  t: (key: TranslationKey, vars?: Record<string, string | number>) => string
+): string => {
+  switch (field) {
+    case 'age': return profile.ageMonths !== undefined && !profile.age ? t('profile.monthsValue', { months: profile.ageMonths }) : String(profile.age);
+    case 'weight': return `${profile.weightKg} kg`;
+    case 'sex': return profile.sex ? t(`profile.sex.${profile.sex}`) : '';
+    case 'pregnant': return t(profile.pregnant ? 'profile.yes' : 'profile.no');
+    default: return profile[field].join(', ');
+  }
+};
+
+/**
+ * Shows exactly which profile details go with this consultation and lets
+ * the user untick any of them. Unticking here never changes the saved profile.
+ */
+const ProfileReview: React.FC<ProfileReviewProps> = ({ profile, sharedFields, onChange, onEdit }) => {
+  const { t } = useI18n();
+  const fields = filledProfileFields(profile);
+
+  const toggle = (field: ProfileField) => {
+    onChange(sharedFields.includes(field) ? sharedFields.filter(f => f !== field) : [...sharedFields, field]);
+  };
+
+  if (fields.length === 0) {
+    return (
+      <div className="flex items-center gap-4 p-4 rounded-2xl border border-dashed border-slate-200 dark:border-slate-700">
+        <UserRound className="w-8 h-8 text-slate-300 flex-shrink-0" />
+        <p className="flex-1 text-sm text-slate-500">{t('profile.emptyHint')}</p>
+        <button onClick={onEdit} className="px-3 py-2 rounded-xl text-sm font-semibold text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors whitespace-nowrap">
+          {t('profile.add')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-2xl p-4 border border-slate-100 dark:border-slate-800 shadow-sm space-y-3">
+      <div className="flex items-start gap-3">
+        <p className="flex-1 text-xs text-slate-500">{t('profile.shareHint')}</p>
+        <button onClick={onEdit} className="flex items-center gap-1.5 px-2 py-1 rounded-lg text-xs font-semibold text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors">
+          <Pencil className="w-3.5 h-3.5" />
+          {t('profile.edit')}
+        </button>
+      </div>
+      <ul className="space-y-1">
+        {fields.map(field => (
+          <li key={field}>
+            <label className="flex items-start gap-3 p-2 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800/50 cursor-pointer text-sm">
+              <input
+                type="checkbox"
+                checked={sharedFields.includes(field)}
+                onChange={() => toggle(field)}
+                className="mt-0.5 rounded text-blue-600 focus:ring-blue-500"
+              />
+              <span className={sharedFields.includes(field) ? '' : 'text-slate-400 line-through'}>
+                <span className="font-semibold">{t(PROFILE_FIELD_LABELS[field])}:</span> {formatProfileValue(profile, field, t)}
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ProfileReview;
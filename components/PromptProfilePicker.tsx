@@ -0,0 +1,53 @@
+import React from 'react';
+import { Sparkles } from 'lucide-react';
+import { PromptProfileId } from '../types';
+import { PROMPT_PROFILES } from '../services/promptProfiles';
+import { useI18n } from '../i18n/I18nContext';
+
+export type PromptProfileChoice = PromptProfileId | 'auto';
+
+interface PromptProfilePickerProps {
+  value: PromptProfileChoice;
+  // What "auto" resolves to for the person the check is about
+  inferred: PromptProfileId;
+  onChange: (value: PromptProfileChoice) => void;
+}
+
+/**
+ * Chooses the triage mode, i.e. which prompt profile the model gets.
+ * "Auto" follows the selected person's age.
+ */
+const PromptProfilePicker: React.FC<PromptProfilePickerProps> = ({ value, inferred, onChange }) => {
+  const { t } = useI18n();
+
+  const choices: { id: PromptProfileChoice, label: string }[] = [
+    { id: 'auto', label: t('promptProfile.auto', { name: t(`promptProfile.${inferred}`) }) },
+    ...PROMPT_PROFILES.map(profile => ({ id: profile.id, label: t(`promptProfile.${profile.id}`) }))
+  ];
+
+  return (
+    <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={t('promptProfile.title')}>
+      {choices.map(({ id, label }) => {
+        const selected = id === value;
+        return (
+          <button
+            key={id}
+            role="radio"
+            aria-checked={selected}
+            onClick={() => onChange(id)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-xs font-semibold transition-colors ${
+              selected
+                ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-500 text-blue-700 dark:text-blue-300'
+                : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:border-blue-300'
+            }`}
+          >
+            {id === 'auto' && <Sparkles className="w-3.5 h-3.5" />}
+            {label}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PromptProfilePicker;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { MessageCircleQuestion } from 'lucide-react';
+import { FollowUpQuestion } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+
+interface QuickRepliesProps {
+  questions: FollowUpQuestion[];
+  onAnswer: (text: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * The model's clarifying questions as tappable answers, so the follow-up
+ * can be a guided interview instead of typing.
+ */
+const QuickReplies: React.FC<QuickRepliesProps> = ({ questions, onAnswer, disabled }) => {
+  const { t } = useI18n();
+
+  return (
+    <section className="mt-6 space-y-4">
+      <h4 className="flex items-center gap-2 text-xs font-bold text-slate-400 uppercase tracking-wider">
+        <MessageCircleQuestion className="w-4 h-4 rtl:-scale-x-100" />
+        {t('quickReplies.title')}
+      </h4>
+      {questions.map(({ question, answers }) => (
+        <div key={question} className="space-y-2">
+          <p className="text-sm font-semibold text-slate-700 dark:text-slate-200">{question}</p>
+          <div className="flex flex-wrap gap-2">
+            {answers.map(answer => (
+              <button
+                key={answer}
+                onClick={() => onAnswer(`${question} ${answer}`)}
+                disabled={disabled}
+                className="px-4 py-2 rounded-full border border-blue-200 dark:border-blue-900/50 bg-blue-50 dark:bg-blue-900/20 text-sm font-semibold text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-900/40 disabled:opacity-50 transition-colors"
+              >
+                {answer}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </section>
+  );
+};
+
+export default QuickReplies;
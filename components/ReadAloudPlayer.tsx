@@ -0,0 +1,247 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Volume2, Play, Pause, SkipBack, SkipForward, Settings2, X } from 'lucide-react';
+import { useI18n } from '../i18n/I18nContext';
+import { getSpeechLocale } from '../i18n/languages';
+import {
+  SpeechSection, SpeechSettings, MIN_SPEECH_RATE, MAX_SPEECH_RATE,
+  loadVoices, pickVoice, voicesForLanguage, getSpeechSettings, saveSpeechSettings
+} from '../utils/speech';
+
+interface ReadAloudPlayerProps {
+  sections: SpeechSection[];
+  // Only one reply is read at a time; the parent tracks which
+  active: boolean;
+  onActivate: () => void;
+  onClose: () => void;
+}
+
+// sentence -1 is the section title
+interface Position {
+  section: number;
+  sentence: number;
+}
+
+const START: Position = { section: 0, sentence: -1 };
+
+// Shared by every player and bumped on each new utterance, so events from
+// cancelled ones (including another reply's) are ignored
+let currentUtterance = 0;
+
+/**
+ * Reads a reply one sentence at a time so it can be paused, skipped by
+ * section and followed on screen. Pausing cancels the utterance and
+ * resumes from the start of the sentence: speechSynthesis.pause() is
+ * unreliable across browsers.
+ */
+const ReadAloudPlayer: React.FC<ReadAloudPlayerProps> = ({ sections, active, onActivate, onClose }) => {
+  const { language, t } = useI18n();
+  const locale = getSpeechLocale(language);
+  const [playing, setPlaying] = useState(false);
+  const [position, setPosition] = useState<Position>(START);
+  const [showSettings, setShowSettings] = useState(false);
+  const [settings, setSettings] = useState<SpeechSettings>(getSpeechSettings);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const playingRef = useRef(false);
+  const settingsRef = useRef(settings);
+  const voicesRef = useRef(voices);
+  playingRef.current = playing;
+  settingsRef.current = settings;
+  voicesRef.current = voices;
+
+  useEffect(() => {
+    loadVoices().then(setVoices);
+  }, []);
+
+  // Another reply took over: its first utterance already cancelled ours
+  useEffect(() => {
+    if (!active) {
+      setPlaying(false);
+      setPosition(START);
+      setShowSettings(false);
+    }
+  }, [active]);
+
+  useEffect(() => () => {
+    if (playingRef.current) {
+      currentUtterance++;
+      window.speechSynthesis.cancel();
+    }
+  }, []);
+
+  const chosenVoice = () => {
+    const available = voicesForLanguage(voicesRef.current, locale);
+    const saved = settingsRef.current.voices[language];
+    return available.find(voice => voice.voiceURI === saved) || pickVoice(voicesRef.current, locale);
+  };
+
+  const stop = () => {
+    currentUtterance++;
+    window.speechSynthesis.cancel();
+    setPlaying(false);
+  };
+
+  const speakAt = (section: number, sentence: number) => {
+    const current = sections[section];
+    if (!current) {
+      stop();
+      setPosition(START);
+      return;
+    }
+    if (sentence === -1 && !current.title) return speakAt(section, 0);
+    const text = sentence === -1 ? current.title : current.sentences[sentence];
+    if (text === undefined) return speakAt(section + 1, -1);
+
+    const utteranceId = ++currentUtterance;
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = locale;
+    utterance.voice = chosenVoice();
+    utterance.rate = settingsRef.current.rate;
+    utterance.onend = () => {
+      if (currentUtterance === utteranceId) speakAt(section, sentence + 1);
+    };
+    utterance.onerror = (event) => {
+      if (currentUtterance === utteranceId && event.error !== 'interrupted' && event.error !== 'canceled') {
+        console.error("Speech synthesis failed", event.error);
+        setPlaying(false);
+      }
+    };
+    setPosition({ section, sentence });
+    setPlaying(true);
+    window.speechSynthesis.speak(utterance);
+  };
+
+  const togglePlay = () => {
+    if (playing) stop();
+    else speakAt(position.section, position.sentence);
+  };
+
+  const previousSection = () => {
+    // Like a music player: first press restarts the section, second goes back
+    const target = position.sentence > 0 || position.section === 0 ? position.section : position.section - 1;
+    speakAt(target, -1);
+  };
+
+  const nextSection = () => {
+    if (position.section < sections.length - 1) speakAt(position.section + 1, -1);
+  };
+
+  const updateSettings = (next: SpeechSettings) => {
+    setSettings(next);
+    settingsRef.current = next;
+    saveSpeechSettings(next);
+    // Apply straight away rather than at the next sentence
+    if (playing) speakAt(position.section, position.sentence);
+  };
+
+  const close = () => {
+    stop();
+    onClose();
+  };
+
+  if (!active) {
+    return (
+      <div className="mt-4 pt-4 border-t border-slate-100 dark:border-slate-800 flex justify-end">
+        <button
+          onClick={() => { onActivate(); speakAt(0, -1); }}
+          disabled={sections.length === 0}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-semibold text-slate-500 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50 transition-colors uppercase tracking-wide"
+        >
+          <Volume2 className="w-3.5 h-3.5" />
+          {t('chat.listen')}
+        </button>
+      </div>
+    );
+  }
+
+  const section = sections[position.section];
+  const languageVoices = voicesForLanguage(voices, locale);
+  const controlClass = 'p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-40 transition-colors';
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-100 dark:border-slate-800 space-y-3 animate-fade-in">
+      <div className="flex items-center gap-1">
+        <button onClick={previousSection} className={controlClass} title={t('speech.previous')}>
+          <SkipBack className="w-4 h-4 rtl:-scale-x-100" />
+        </button>
+        <button
+          onClick={togglePlay}
+          className="p-2.5 rounded-full bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+          title={playing ? t('speech.pause') : t('speech.play')}
+        >
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4 rtl:-scale-x-100" />}
+        </button>
+        <button onClick={nextSection} disabled={position.section >= sections.length - 1} className={controlClass} title={t('speech.next')}>
+          <SkipForward className="w-4 h-4 rtl:-scale-x-100" />
+        </button>
+        <span className="flex-1 px-2 text-xs font-semibold text-slate-500 uppercase tracking-wider truncate">
+          {position.section + 1}/{sections.length} {section?.title && `· ${section.title}`}
+        </span>
+        <button onClick={() => setShowSettings(!showSettings)} className={controlClass} title={t('speech.settings')} aria-expanded={showSettings}>
+          <Settings2 className="w-4 h-4" />
+        </button>
+        <button onClick={close} className={controlClass} title={t('speech.close')}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {showSettings && (
+        <div className="grid gap-3 sm:grid-cols-2 p-3 rounded-xl bg-slate-50 dark:bg-slate-800/50 text-sm">
+          <label className="space-y-1">
+            <span className="block text-xs font-semibold text-slate-500 uppercase tracking-wider">{t('speech.voice')}</span>
+            <select
+              value={settings.voices[language] || ''}
+              onChange={(e) => updateSettings({ ...settings, voices: { ...settings.voices, [language]: e.target.value || undefined } })}
+              className="w-full rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 px-2 py-1.5"
+            >
+              <option value="">{t('speech.automaticVoice')}</option>
+              {languageVoices.map(voice => (
+                <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="block text-xs font-semibold text-slate-500 uppercase tracking-wider">
+              {t('speech.speed')} · {settings.rate.toFixed(1)}×
+            </span>
+            <input
+              type="range"
+              min={MIN_SPEECH_RATE}
+              max={MAX_SPEECH_RATE}
+              step={0.1}
+              value={settings.rate}
+              onChange={(e) => updateSettings({ ...settings, rate: Number(e.target.value) })}
+              className="w-full accent-blue-600"
+            />
+          </label>
+        </div>
+      )}
+
+      {/* Read-along text: the sentence being spoken is highlighted; tap one to jump to it */}
+      {section && (
+        <div className="p-4 rounded-xl bg-slate-50 dark:bg-slate-800/50 text-lg leading-relaxed text-slate-700 dark:text-slate-200" aria-live="polite">
+          {section.title && (
+            <p className={`mb-2 font-bold rounded px-1 -mx-1 ${position.sentence === -1 ? 'bg-yellow-200 dark:bg-yellow-500/30' : ''}`}>
+              {section.title}
+            </p>
+          )}
+          <p>
+            {section.sentences.map((sentence, idx) => (
+              <span
+                key={idx}
+                onClick={() => speakAt(position.section, idx)}
+                className={`cursor-pointer rounded px-0.5 transition-colors ${
+                  position.sentence === idx ? 'bg-yellow-200 dark:bg-yellow-500/30' : 'hover:bg-slate-100 dark:hover:bg-slate-700'
+                }`}
+              >
+                {sentence}{' '}
+              </span>
+            ))}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReadAloudPlayer;
@@ -1,64 +1,210 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { Camera, Mic, Square, Video, X, Image as ImageIcon } from 'lucide-react';
+import { Mic, Square, Video, X, Image as ImageIcon, AlertCircle, Pause, Play, RotateCcw, Check, SwitchCamera } from 'lucide-react';
 import { blobToBase64 } from '../utils/mediaUtils';
+import { MEDIA_LIMITS, MediaLimitError, preprocessImage, checkRecording, checkMessageMedia } from '../utils/mediaPreprocess';
+import { Dictation, startDictation, joinTranscript } from '../utils/dictation';
 import { MediaAttachment } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+import { getSpeechLocale } from '../i18n/languages';
 
 interface RecorderProps {
   onCapture: (attachment: MediaAttachment) => void;
+  // Already attached to the message being written; new captures must fit alongside
+  attachments: MediaAttachment[];
   disabled: boolean;
+  // Auto-stop after this many seconds; never above MEDIA_LIMITS.maxRecordingSeconds
+  maxDurationSeconds?: Partial<Record<'audio' | 'video', number>>;
 }
 
-const Recorder: React.FC<RecorderProps> = ({ onCapture, disabled }) => {
+type RecorderPhase = 'ready' | 'recording' | 'paused' | 'review';
+
+const TICK_MS = 250;
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+const Recorder: React.FC<RecorderProps> = ({ onCapture, attachments, disabled, maxDurationSeconds }) => {
+  const { language, t } = useI18n();
   const [mode, setMode] = useState<'audio' | 'video' | null>(null);
-  const [isRecording, setIsRecording] = useState(false);
+  const [phase, setPhase] = useState<RecorderPhase>('ready');
   const [stream, setStream] = useState<MediaStream | null>(null);
+  const [facingMode, setFacingMode] = useState<'user' | 'environment'>('user');
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [recording, setRecording] = useState<{ blob: Blob, url: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [transcript, setTranscript] = useState('');
+  const dictationRef = useRef<Dictation | null>(null);
+  // Transcript from earlier runs, before a pause
+  const transcriptBaseRef = useRef('');
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Time recorded before the current run, plus when the current run started
+  const elapsedRef = useRef({ banked: 0, startedAt: 0 });
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const chunksRef = useRef<Blob[]>([]);
 
+  const maxMs = mode
+    ? Math.min(maxDurationSeconds?.[mode] ?? Infinity, MEDIA_LIMITS.maxRecordingSeconds[mode]) * 1000
+    : 0;
+
   useEffect(() => {
     return () => {
-      cleanupStream();
+      stopTimer();
+      dictationRef.current?.stop();
+      streamRef.current?.getTracks().forEach(track => track.stop());
     };
   }, []);
 
   useEffect(() => {
-    if (videoRef.current && stream && mode === 'video') {
+    if (videoRef.current && stream && mode === 'video' && phase !== 'review') {
       videoRef.current.srcObject = stream;
     }
-  }, [stream, mode]);
+  }, [stream, mode, phase]);
+
+  const showError = (err: unknown, fallback: string) => {
+    console.error(err);
+    setError(err instanceof MediaLimitError ? err.describe(t) : fallback);
+  };
+
+  const stopTimer = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const clearRecording = () => {
+    setRecording(null);
+    setTranscript('');
+    transcriptBaseRef.current = '';
+  };
+
+  const discardRecording = () => {
+    if (recording) URL.revokeObjectURL(recording.url);
+    clearRecording();
+  };
+
+  // Voice notes are transcribed live so the words can be read and edited later
+  const startTranscribing = () => {
+    if (mode !== 'audio') return;
+    const base = transcriptBaseRef.current;
+    dictationRef.current = startDictation({
+      lang: getSpeechLocale(language),
+      onUpdate: (finalText, interimText) => setTranscript(joinTranscript(base, joinTranscript(finalText, interimText))),
+      onEnd: () => { dictationRef.current = null; }
+    });
+  };
+
+  const stopTranscribing = () => {
+    dictationRef.current?.stop();
+    dictationRef.current = null;
+    setTranscript(current => {
+      transcriptBaseRef.current = current;
+      return current;
+    });
+  };
+
+  const stopTracks = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setStream(null);
+  };
 
   const cleanupStream = () => {
-    if (stream) {
-      stream.getTracks().forEach(track => track.stop());
-      setStream(null);
+    stopTimer();
+    stopTranscribing();
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
+      mediaRecorderRef.current.onstop = null;
+      mediaRecorderRef.current.stop();
     }
+    stopTracks();
+    // Leaves the preview URL alone: a kept clip's attachment still shows it
+    clearRecording();
     setMode(null);
-    setIsRecording(false);
+    setPhase('ready');
+    setElapsedMs(0);
+  };
+
+  const openStream = async (type: 'audio' | 'video', facing: 'user' | 'environment') => {
+    const constraints = type === 'video' 
+      ? { video: { facingMode: facing }, audio: true }
+      : { audio: true };
+    
+    const newStream = await navigator.mediaDevices.getUserMedia(constraints);
+    streamRef.current = newStream;
+    setStream(newStream);
   };
 
   const startStream = async (type: 'audio' | 'video') => {
+    setError(null);
     try {
-      const constraints = type === 'video' 
-        ? { video: { facingMode: 'user' }, audio: true }
-        : { audio: true };
-      
-      const newStream = await navigator.mediaDevices.getUserMedia(constraints);
-      setStream(newStream);
+      await openStream(type, facingMode);
       setMode(type);
+      setPhase('ready');
     } catch (err) {
       console.error("Error accessing media devices:", err);
-      alert("We need permission to use your camera/microphone to see or hear you.");
+      alert(t('recorder.permission'));
+    }
+  };
+
+  const switchCamera = async () => {
+    const next = facingMode === 'user' ? 'environment' : 'user';
+    stopTracks();
+    try {
+      await openStream('video', next);
+      setFacingMode(next);
+    } catch (err) {
+      // Device has only one camera: go back to the one that worked
+      console.error("Could not switch camera:", err);
+      try {
+        await openStream('video', facingMode);
+      } catch (retryErr) {
+        console.error("Error accessing media devices:", retryErr);
+        cancel();
+        alert(t('recorder.permission'));
+      }
     }
   };
 
+  const currentElapsed = () => {
+    const { banked, startedAt } = elapsedRef.current;
+    return banked + (startedAt ? Date.now() - startedAt : 0);
+  };
+
+  const startTimer = () => {
+    elapsedRef.current.startedAt = Date.now();
+    timerRef.current = setInterval(() => {
+      const elapsed = currentElapsed();
+      setElapsedMs(elapsed);
+      // Auto-stop: long clips make the request slow or fail outright
+      if (elapsed >= maxMs) stopRecording();
+    }, TICK_MS);
+  };
+
+  const pauseTimer = () => {
+    stopTimer();
+    elapsedRef.current = { banked: currentElapsed(), startedAt: 0 };
+  };
+
   const startRecording = () => {
-    if (!stream) return;
+    if (!stream || !mode) return;
     
     chunksRef.current = [];
+    elapsedRef.current = { banked: 0, startedAt: 0 };
+    setElapsedMs(0);
+    setError(null);
     // Use supported MIME types
-    const mimeType = mode === 'video' ? 'video/webm' : 'audio/webm';
-    const options = MediaRecorder.isTypeSupported(mimeType) ? { mimeType } : undefined;
+    const type = mode;
+    const mimeType = type === 'video' ? 'video/webm' : 'audio/webm';
+    const options: MediaRecorderOptions = {
+      ...(MediaRecorder.isTypeSupported(mimeType) ? { mimeType } : {}),
+      // Cap bitrates so a full-length clip stays under the size limit
+      videoBitsPerSecond: MEDIA_LIMITS.videoBitsPerSecond,
+      audioBitsPerSecond: MEDIA_LIMITS.audioBitsPerSecond
+    };
 
     const recorder = new MediaRecorder(stream, options);
     
@@ -68,86 +214,226 @@ const Recorder: React.FC<RecorderProps> = ({ onCapture, disabled }) => {
       }
     };
 
-    recorder.onstop = async () => {
-        const blob = new Blob(chunksRef.current, { type: mimeType });
-        const base64 = await blobToBase64(blob);
-        
-        onCapture({
-          id: Date.now().toString(),
-          type: mode as 'audio' | 'video',
-          mimeType: blob.type,
-          data: base64,
-          previewUrl: URL.createObjectURL(blob)
-        });
-        
-        cleanupStream();
+    recorder.onstop = () => {
+      const blob = new Blob(chunksRef.current, { type: mimeType });
+      setRecording({ blob, url: URL.createObjectURL(blob) });
+      setPhase('review');
+      try {
+        checkRecording(blob, type);
+      } catch (err) {
+        showError(err, t('recorder.saveFailed'));
+      }
     };
 
     mediaRecorderRef.current = recorder;
     recorder.start();
-    setIsRecording(true);
+    setPhase('recording');
+    startTimer();
+    startTranscribing();
   };
 
   const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
+    const recorder = mediaRecorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      pauseTimer();
+      stopTranscribing();
+      setElapsedMs(currentElapsed());
+      recorder.stop();
+    }
+  };
+
+  const togglePause = () => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder) return;
+    if (recorder.state === 'recording') {
+      recorder.pause();
+      pauseTimer();
+      stopTranscribing();
+      setPhase('paused');
+    } else if (recorder.state === 'paused') {
+      recorder.resume();
+      startTimer();
+      startTranscribing();
+      setPhase('recording');
+    }
+  };
+
+  const cancel = () => {
+    discardRecording();
+    cleanupStream();
+  };
+
+  const retake = () => {
+    discardRecording();
+    setError(null);
+    setElapsedMs(0);
+    setPhase('ready');
+  };
+
+  const keepRecording = async () => {
+    if (!recording || !mode) return;
+    try {
+      checkRecording(recording.blob, mode);
+      const attachment: MediaAttachment = {
+        id: Date.now().toString(),
+        type: mode,
+        mimeType: recording.blob.type,
+        data: await blobToBase64(recording.blob),
+        previewUrl: recording.url,
+        sizeBytes: recording.blob.size,
+        transcript: transcript.trim() || undefined
+      };
+      checkMessageMedia([...attachments, attachment]);
+      onCapture(attachment);
+      // The attachment now owns the preview URL, so don't revoke it
+      cleanupStream();
+    } catch (err) {
+      showError(err, t('recorder.saveFailed'));
     }
   };
 
   if (mode) {
+    const isActive = phase === 'recording' || phase === 'paused';
     return (
       <div className="fixed inset-0 z-50 bg-slate-900/95 backdrop-blur-sm flex flex-col items-center justify-center p-4 animate-fade-in">
         <div className="relative w-full max-w-lg bg-black rounded-3xl overflow-hidden shadow-2xl border border-slate-700 ring-1 ring-white/10">
-          {mode === 'video' && (
-             <video 
-               ref={videoRef} 
-               autoPlay 
-               playsInline 
-               muted 
-               className="w-full h-[50vh] object-cover bg-black"
-             />
-          )}
-          {mode === 'audio' && (
-            <div className="w-full h-[40vh] flex flex-col items-center justify-center bg-gradient-to-b from-slate-800 to-slate-900">
-               <div className="relative">
-                 <div className="absolute inset-0 bg-blue-500/30 blur-3xl rounded-full animate-pulse-slow"></div>
-                 <Mic className="relative w-24 h-24 text-blue-400" />
-               </div>
-               <p className="mt-8 text-xl font-medium text-blue-200">Listening...</p>
-            </div>
+          {phase === 'review' && recording ? (
+            mode === 'video' ? (
+              <video src={recording.url} controls playsInline className="w-full h-[50vh] object-contain bg-black" />
+            ) : (
+              <div className="w-full min-h-[40vh] flex flex-col items-center justify-center gap-4 bg-gradient-to-b from-slate-800 to-slate-900 p-6">
+                <Mic className="w-12 h-12 text-blue-400" />
+                <audio src={recording.url} controls className="w-full" />
+                <label className="w-full text-start text-xs font-semibold text-slate-400 uppercase tracking-wider">
+                  {t('recorder.transcriptLabel')}
+                  <textarea
+                    value={transcript}
+                    onChange={(e) => setTranscript(e.target.value)}
+                    placeholder={t('recorder.transcriptEmpty')}
+                    className="mt-2 w-full h-24 p-3 rounded-xl bg-slate-950 border border-slate-700 text-slate-100 text-sm normal-case tracking-normal font-normal resize-none focus:ring-0"
+                  />
+                </label>
+              </div>
+            )
+          ) : (
+            <>
+              {mode === 'video' && (
+                 <div className="relative">
+                   <video 
+                     ref={videoRef} 
+                     autoPlay 
+                     playsInline 
+                     muted 
+                     className={`w-full h-[50vh] object-cover bg-black ${facingMode === 'user' ? '-scale-x-100' : ''}`}
+                   />
+                   {phase === 'ready' && (
+                     <button
+                       onClick={switchCamera}
+                       className="absolute top-4 end-4 p-3 rounded-full bg-black/50 text-white hover:bg-black/70 transition-colors"
+                       title={facingMode === 'user' ? t('recorder.useBackCamera') : t('recorder.useFrontCamera')}
+                     >
+                       <SwitchCamera className="w-5 h-5" />
+                     </button>
+                   )}
+                 </div>
+              )}
+              {mode === 'audio' && (
+                <div className="w-full h-[40vh] flex flex-col items-center justify-center bg-gradient-to-b from-slate-800 to-slate-900">
+                   <div className="relative">
+                     <div className={`absolute inset-0 bg-blue-500/30 blur-3xl rounded-full ${phase === 'recording' ? 'animate-pulse-slow' : ''}`}></div>
+                     <Mic className="relative w-24 h-24 text-blue-400" />
+                   </div>
+                   <p className="mt-8 text-xl font-medium text-blue-200">{phase === 'paused' ? t('recorder.paused') : t('recorder.listening')}</p>
+                   {transcript && (
+                     <p className="mt-4 px-6 max-h-24 overflow-y-auto text-center text-sm text-slate-300 leading-relaxed">{transcript}</p>
+                   )}
+                </div>
+              )}
+            </>
           )}
 
           <div className="p-8 flex flex-col items-center gap-6 bg-slate-900 border-t border-slate-800">
-             <div className="text-slate-300 font-medium tracking-wide">
-               {isRecording ? <span className="text-red-400 flex items-center gap-2"><span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span> Recording</span> : "Ready to start"}
+             <div className="text-slate-300 font-medium tracking-wide text-center">
+               {phase === 'recording' && <span className="text-red-400 flex items-center justify-center gap-2"><span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span> {t('recorder.recording')}</span>}
+               {phase === 'paused' && <span className="text-amber-400">{t('recorder.paused')}</span>}
+               {phase === 'ready' && t('recorder.ready')}
+               {phase === 'review' && t('recorder.review')}
+               <div className="mt-1 font-mono text-2xl text-white tabular-nums">
+                 {formatDuration(elapsedMs)} <span className="text-slate-500 text-base">/ {formatDuration(maxMs)}</span>
+               </div>
+               {isActive && (
+                 <div className="mt-3 h-1 w-48 mx-auto bg-slate-800 rounded-full overflow-hidden">
+                   <div className="h-full bg-red-500 transition-all" style={{ width: `${Math.min(100, (elapsedMs / maxMs) * 100)}%` }} />
+                 </div>
+               )}
+               {phase === 'ready' && <div className="mt-1 text-xs text-slate-500">{t('recorder.autoStop')}</div>}
              </div>
+
+             {error && (
+               <div role="alert" className="w-full flex items-start gap-2 p-3 rounded-xl bg-red-900/30 border border-red-900/50 text-red-300 text-sm">
+                 <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                 {error}
+               </div>
+             )}
              
              <div className="flex gap-8 items-center">
                 <button 
-                  onClick={cleanupStream}
+                  onClick={cancel}
                   className="p-4 rounded-full bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-all transform hover:scale-105 active:scale-95"
-                  title="Cancel"
+                  title={t('recorder.cancel')}
                 >
                   <X className="w-6 h-6" />
                 </button>
 
-                {!isRecording ? (
+                {phase === 'ready' && (
                   <button 
                     onClick={startRecording}
                     className="p-1 rounded-full border-4 border-slate-700 hover:border-slate-600 transition-colors"
+                    title={t('recorder.start')}
                   >
                     <div className="w-16 h-16 bg-red-500 rounded-full hover:bg-red-600 transition-all transform active:scale-90 shadow-[0_0_20px_rgba(239,68,68,0.4)]"></div>
                   </button>
-                ) : (
-                   <button 
-                    onClick={stopRecording}
-                    className="p-1 rounded-full border-4 border-slate-700"
-                  >
-                    <div className="w-16 h-16 bg-white rounded-xl transform scale-50 hover:scale-55 transition-all shadow-[0_0_20px_rgba(255,255,255,0.4)] flex items-center justify-center">
-                       <Square className="w-8 h-8 text-black fill-black" />
-                    </div>
-                  </button>
+                )}
+
+                {isActive && (
+                  <>
+                    <button 
+                      onClick={stopRecording}
+                      className="p-1 rounded-full border-4 border-slate-700"
+                      title={t('recorder.stop')}
+                    >
+                      <div className="w-16 h-16 bg-white rounded-xl transform scale-50 hover:scale-55 transition-all shadow-[0_0_20px_rgba(255,255,255,0.4)] flex items-center justify-center">
+                         <Square className="w-8 h-8 text-black fill-black" />
+                      </div>
+                    </button>
+                    <button
+                      onClick={togglePause}
+                      className="p-4 rounded-full bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-all transform hover:scale-105 active:scale-95"
+                      title={phase === 'paused' ? t('recorder.resume') : t('recorder.pause')}
+                    >
+                      {phase === 'paused' ? <Play className="w-6 h-6" /> : <Pause className="w-6 h-6" />}
+                    </button>
+                  </>
+                )}
+
+                {phase === 'review' && (
+                  <>
+                    <button
+                      onClick={retake}
+                      className="flex items-center gap-2 px-5 py-3 rounded-full bg-slate-800 text-slate-200 hover:bg-slate-700 transition-colors font-semibold"
+                    >
+                      <RotateCcw className="w-5 h-5" />
+                      {t('recorder.retake')}
+                    </button>
+                    <button
+                      onClick={keepRecording}
+                      disabled={!!error}
+                      className="flex items-center gap-2 px-5 py-3 rounded-full bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors font-semibold"
+                    >
+                      <Check className="w-5 h-5" />
+                      {t('recorder.keep')}
+                    </button>
+                  </>
                 )}
              </div>
           </div>
@@ -187,51 +473,69 @@ const Recorder: React.FC<RecorderProps> = ({ onCapture, disabled }) => {
   );
 
   return (
-    <div className="grid grid-cols-3 gap-3 w-full">
-      <ButtonCard 
-        icon={Mic} 
-        label="Voice" 
-        subLabel="Speak"
-        onClick={() => startStream('audio')}
-        disabled={disabled}
-        colorClass="bg-blue-50 dark:bg-blue-900/20 border-blue-100 dark:border-blue-800 text-blue-700 dark:text-blue-300"
-      />
-      
-      <ButtonCard 
-        icon={Video} 
-        label="Video" 
-        subLabel="Record"
-        onClick={() => startStream('video')}
-        disabled={disabled}
-        colorClass="bg-purple-50 dark:bg-purple-900/20 border-purple-100 dark:border-purple-800 text-purple-700 dark:text-purple-300"
-      />
-
-      <label className={`group relative flex-1 flex flex-col items-center justify-center p-4 h-32 rounded-2xl border transition-all duration-300 ${disabled ? 'opacity-50 cursor-not-allowed grayscale pointer-events-none' : 'hover:-translate-y-1 hover:shadow-lg cursor-pointer'} bg-emerald-50 dark:bg-emerald-900/20 border-emerald-100 dark:border-emerald-800 text-emerald-700 dark:text-emerald-300`}>
-        <div className="absolute inset-0 bg-gradient-to-br from-white/40 to-transparent dark:from-white/5 opacity-0 group-hover:opacity-100 transition-opacity rounded-2xl" />
-        <div className="mb-3 p-3 rounded-full bg-white/60 dark:bg-black/20 shadow-sm backdrop-blur-sm group-hover:scale-110 transition-transform duration-300">
-          <ImageIcon className="w-6 h-6" />
+    <div className="space-y-3 w-full">
+      {error && (
+        <div role="alert" className="flex items-start gap-3 p-3 rounded-xl bg-red-50 dark:bg-red-900/10 border border-red-100 dark:border-red-900/30 text-red-600 dark:text-red-400 text-sm">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)} title={t('recorder.dismiss')}><X className="w-4 h-4" /></button>
         </div>
-        <span className="font-semibold text-sm tracking-wide">Photo</span>
-        <span className="text-[10px] opacity-70 mt-1 font-medium uppercase tracking-wider">Upload</span>
-        <input 
-          type="file" 
-          accept="image/*" 
-          className="hidden" 
-          onChange={async (e) => {
-            const file = e.target.files?.[0];
-            if (file) {
-              const base64 = await blobToBase64(file);
-              onCapture({
-                id: Date.now().toString(),
-                type: 'image',
-                mimeType: file.type,
-                data: base64,
-                previewUrl: URL.createObjectURL(file)
-              });
-            }
-          }}
+      )}
+      <div className="grid grid-cols-3 gap-3 w-full">
+        <ButtonCard 
+          icon={Mic} 
+          label={t('recorder.voice')}
+          subLabel={t('recorder.speak')}
+          onClick={() => startStream('audio')}
+          disabled={disabled}
+          colorClass="bg-blue-50 dark:bg-blue-900/20 border-blue-100 dark:border-blue-800 text-blue-700 dark:text-blue-300"
+        />
+        
+        <ButtonCard 
+          icon={Video} 
+          label={t('recorder.video')}
+          subLabel={t('recorder.record')}
+          onClick={() => startStream('video')}
+          disabled={disabled}
+          colorClass="bg-purple-50 dark:bg-purple-900/20 border-purple-100 dark:border-purple-800 text-purple-700 dark:text-purple-300"
         />
-      </label>
+
+        <label className={`group relative flex-1 flex flex-col items-center justify-center p-4 h-32 rounded-2xl border transition-all duration-300 ${disabled ? 'opacity-50 cursor-not-allowed grayscale pointer-events-none' : 'hover:-translate-y-1 hover:shadow-lg cursor-pointer'} bg-emerald-50 dark:bg-emerald-900/20 border-emerald-100 dark:border-emerald-800 text-emerald-700 dark:text-emerald-300`}>
+          <div className="absolute inset-0 bg-gradient-to-br from-white/40 to-transparent dark:from-white/5 opacity-0 group-hover:opacity-100 transition-opacity rounded-2xl" />
+          <div className="mb-3 p-3 rounded-full bg-white/60 dark:bg-black/20 shadow-sm backdrop-blur-sm group-hover:scale-110 transition-transform duration-300">
+            <ImageIcon className="w-6 h-6" />
+          </div>
+          <span className="font-semibold text-sm tracking-wide">{t('recorder.photo')}</span>
+          <span className="text-[10px] opacity-70 mt-1 font-medium uppercase tracking-wider">{t('recorder.upload')}</span>
+          <input 
+            type="file" 
+            accept="image/*" 
+            className="hidden" 
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) {
+                setError(null);
+                try {
+                  // Resize and strip EXIF/GPS before anything leaves the device
+                  const image = await preprocessImage(file);
+                  const attachment: MediaAttachment = {
+                    id: Date.now().toString(),
+                    type: 'image',
+                    mimeType: image.type,
+                    data: await blobToBase64(image),
+                    sizeBytes: image.size
+                  };
+                  checkMessageMedia([...attachments, attachment]);
+                  onCapture({ ...attachment, previewUrl: URL.createObjectURL(image) });
+                } catch (err) {
+                  showError(err, t('recorder.photoFailed'));
+                }
+              }
+            }}
+          />
+        </label>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { X, Trash2, MessageSquare, History, UserRound } from 'lucide-react';
+import { SessionSummary } from '../types';
+import { listSessions, deleteSession, clearSessions, getRetentionDays, setRetentionDays, purgeExpiredSessions } from '../services/sessionStore';
+import { useI18n } from '../i18n/I18nContext';
+
+interface SessionHistoryProps {
+  activeSessionId: string | null;
+  onOpen: (id: string) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+// 0 keeps sessions until the user deletes them
+const RETENTION_OPTIONS = [0, 7, 30, 90];
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({ activeSessionId, onOpen, onDeleted, onClose }) => {
+  const { t } = useI18n();
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [retentionDays, setRetention] = useState(getRetentionDays());
+
+  const refresh = () => {
+    listSessions()
+      .then(setSessions)
+      .catch(err => console.error("Could not load saved sessions", err));
+  };
+
+  useEffect(refresh, []);
+
+  const handleDelete = async (id: string) => {
+    await deleteSession(id);
+    onDeleted(id);
+    refresh();
+  };
+
+  const handleClearAll = async () => {
+    if (!window.confirm(t('history.confirmClear'))) return;
+    await clearSessions();
+    sessions.forEach(session => onDeleted(session.id));
+    refresh();
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    setRetentionDays(days);
+    setRetention(days);
+    await purgeExpiredSessions(days);
+    refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end animate-fade-in">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose} />
+      <aside className="relative w-full max-w-sm h-full bg-white dark:bg-slate-900 shadow-2xl border-s border-slate-200 dark:border-slate-800 flex flex-col">
+        <div className="h-16 px-5 flex items-center justify-between border-b border-slate-100 dark:border-slate-800">
+          <h2 className="flex items-center gap-2 font-bold text-slate-900 dark:text-white">
+            <History className="w-5 h-5 text-blue-500" />
+            {t('header.history')}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title={t('history.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-2">
+          {sessions.length === 0 && (
+            <p className="p-6 text-center text-sm text-slate-400">{t('history.empty')}</p>
+          )}
+          {sessions.map(session => (
+            <div
+              key={session.id}
+              className={`group flex items-start gap-3 p-3 rounded-xl border transition-colors ${
+                session.id === activeSessionId
+                  ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-100 dark:border-blue-900/50'
+                  : 'border-transparent hover:bg-slate-50 dark:hover:bg-slate-800/50'
+              }`}
+            >
+              <button onClick={() => onOpen(session.id)} className="flex-1 text-start min-w-0">
+                <div className="font-semibold text-sm text-slate-800 dark:text-slate-100 truncate">{session.title}</div>
+                <div className="mt-1 flex items-center gap-2 text-xs text-slate-400">
+                  <span>{formatDate(session.updatedAt)}</span>
+                  <span className="flex items-center gap-1"><MessageSquare className="w-3 h-3" />{session.messageCount}</span>
+                  {session.subject && session.subject.relationship !== 'self' && (
+                    <span className="flex items-center gap-1 truncate"><UserRound className="w-3 h-3" />{session.subject.name}</span>
+                  )}
+                </div>
+              </button>
+              <button
+                onClick={() => handleDelete(session.id)}
+                className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                title={t('history.delete')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 dark:border-slate-800 space-y-3">
+          <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider">{t('history.privacy')}</label>
+          <select
+            value={retentionDays}
+            onChange={(e) => handleRetentionChange(Number(e.target.value))}
+            className="w-full p-2 rounded-lg bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-800 text-sm"
+          >
+            {RETENTION_OPTIONS.map(days => (
+              <option key={days} value={days}>{days === 0 ? t('history.keepForever') : t('history.deleteAfter', { days })}</option>
+            ))}
+          </select>
+          {sessions.length > 0 && (
+            <button
+              onClick={handleClearAll}
+              className="w-full py-2 rounded-lg text-sm font-semibold text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+            >
+              {t('history.deleteAll')}
+            </button>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default SessionHistory;
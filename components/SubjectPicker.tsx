@@ -0,0 +1,56 @@
+import React from 'react';
+import { UserRound, Baby, Users, Plus } from 'lucide-react';
+import { HouseholdProfile } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+
+interface SubjectPickerProps {
+  profiles: HouseholdProfile[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+}
+
+export const profileDisplayName = (profile: HouseholdProfile, t: ReturnType<typeof useI18n>['t']) =>
+  profile.name || t(`relationship.${profile.relationship}`);
+
+/**
+ * "Who is this about?" chips at the start of triage, one per household
+ * profile, plus a shortcut to add someone new.
+ */
+const SubjectPicker: React.FC<SubjectPickerProps> = ({ profiles, selectedId, onSelect, onAdd }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={t('household.question')}>
+      {profiles.map(profile => {
+        const selected = profile.id === selectedId;
+        const Icon = profile.relationship === 'child' ? Baby : profile.relationship === 'self' ? UserRound : Users;
+        return (
+          <button
+            key={profile.id}
+            role="radio"
+            aria-checked={selected}
+            onClick={() => onSelect(profile.id)}
+            className={`flex items-center gap-2 px-4 py-2 rounded-full border text-sm font-semibold transition-colors ${
+              selected
+                ? 'bg-blue-600 border-blue-600 text-white shadow-md'
+                : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-blue-300'
+            }`}
+          >
+            <Icon className="w-4 h-4" />
+            {profileDisplayName(profile, t)}
+          </button>
+        );
+      })}
+      <button
+        onClick={onAdd}
+        className="flex items-center gap-2 px-4 py-2 rounded-full border border-dashed border-slate-300 dark:border-slate-600 text-sm font-semibold text-slate-500 hover:text-blue-600 hover:border-blue-300 transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        {t('household.add')}
+      </button>
+    </div>
+  );
+};
+
+export default SubjectPicker;
@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { X, NotebookPen, ChevronLeft, Trash2, Plus, TrendingUp, TrendingDown, MoveRight, Stethoscope, UserRound } from 'lucide-react';
+import { HouseholdProfile, PainTrendDirection, SymptomDiary } from '../types';
+import { addDiaryEntry, newDiary, newDiaryEntry, removeDiaryEntry, todayIso } from '../services/diaryStore';
+import { summarizePainTrend } from '../utils/painTrend';
+import { profileDisplayName } from './SubjectPicker';
+import PainTrendChart from './PainTrendChart';
+import { useI18n } from '../i18n/I18nContext';
+
+interface SymptomDiaryPanelProps {
+  diaries: SymptomDiary[];
+  profiles: HouseholdProfile[];
+  // Who new diaries are for unless the user picks someone else
+  subjectId: string;
+  onSave: (diary: SymptomDiary) => void;
+  onDelete: (id: string) => void;
+  onStartTriage: (diary: SymptomDiary) => void;
+  onClose: () => void;
+}
+
+const TREND_STYLES: Record<PainTrendDirection, { icon: typeof TrendingUp, className: string }> = {
+  worsening: { icon: TrendingUp, className: 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+  improving: { icon: TrendingDown, className: 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300' },
+  stable: { icon: MoveRight, className: 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300' }
+};
+
+const inputClass = 'w-full rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-950 px-3 py-2 text-sm focus:ring-0 focus:bg-white dark:focus:bg-slate-900';
+const labelClass = 'block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1';
+
+const SymptomDiaryPanel: React.FC<SymptomDiaryPanelProps> = ({ diaries, profiles, subjectId, onSave, onDelete, onStartTriage, onClose }) => {
+  const { language, t } = useI18n();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newProfileId, setNewProfileId] = useState(subjectId);
+  const [entryDate, setEntryDate] = useState(todayIso);
+  const [entryPain, setEntryPain] = useState<number | null>(null);
+  const [entrySymptoms, setEntrySymptoms] = useState('');
+  const [entryNotes, setEntryNotes] = useState('');
+
+  const selected = diaries.find(diary => diary.id === selectedId);
+  const personName = (profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    return profile ? profileDisplayName(profile, t) : '';
+  };
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00`).toLocaleDateString(language, { day: 'numeric', month: 'short' });
+
+  const createDiary = () => {
+    if (!newName.trim()) return;
+    const diary = newDiary(newName, newProfileId);
+    onSave(diary);
+    setNewName('');
+    setSelectedId(diary.id);
+  };
+
+  const saveEntry = () => {
+    if (!selected || (entryPain === null && !entrySymptoms.trim() && !entryNotes.trim())) return;
+    onSave(addDiaryEntry(selected, newDiaryEntry({
+      date: entryDate || todayIso(),
+      painLevel: entryPain,
+      symptoms: entrySymptoms.trim(),
+      notes: entryNotes.trim()
+    })));
+    setEntryPain(null);
+    setEntrySymptoms('');
+    setEntryNotes('');
+  };
+
+  const handleDelete = (diary: SymptomDiary) => {
+    if (!window.confirm(t('diary.confirmDelete', { name: diary.name }))) return;
+    onDelete(diary.id);
+    setSelectedId(null);
+  };
+
+  const trendBadge = (diary: SymptomDiary) => {
+    const trend = summarizePainTrend(diary.entries);
+    if (!trend) return null;
+    const { icon: Icon, className } = TREND_STYLES[trend.direction];
+    return (
+      <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold ${className}`}>
+        <Icon className="w-3 h-3 rtl:-scale-x-100" />
+        {t(`diary.${trend.direction}`)}
+      </span>
+    );
+  };
+
+  const renderList = () => (
+    <>
+      <p className="text-sm text-slate-500">{t('diary.intro')}</p>
+      <div className="space-y-2">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && createDiary()}
+          placeholder={t('diary.namePlaceholder')}
+          className={inputClass}
+        />
+        <div className="flex gap-2">
+          {profiles.length > 1 && (
+            <select value={newProfileId} onChange={(e) => setNewProfileId(e.target.value)} className={inputClass}>
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profileDisplayName(profile, t)}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={createDiary}
+            disabled={!newName.trim()}
+            className="flex items-center justify-center gap-1.5 px-4 py-2 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors whitespace-nowrap flex-1"
+          >
+            <Plus className="w-4 h-4" />
+            {t('diary.create')}
+          </button>
+        </div>
+      </div>
+
+      {diaries.length === 0 && <p className="p-6 text-center text-sm text-slate-400">{t('diary.empty')}</p>}
+      <div className="space-y-2">
+        {diaries.map(diary => {
+          const latest = diary.entries[diary.entries.length - 1];
+          return (
+            <button
+              key={diary.id}
+              onClick={() => setSelectedId(diary.id)}
+              className="w-full text-start p-3 rounded-xl border border-slate-100 dark:border-slate-800 hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors"
+            >
+              <div className="font-semibold text-sm text-slate-800 dark:text-slate-100 truncate">{diary.name}</div>
+              <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-slate-400">
+                {profiles.length > 1 && <span className="flex items-center gap-1"><UserRound className="w-3 h-3" />{personName(diary.profileId)}</span>}
+                {latest && <span>{formatDate(latest.date)}{latest.painLevel !== null && ` · ${latest.painLevel}/10`}</span>}
+                {trendBadge(diary)}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </>
+  );
+
+  const renderDiary = (diary: SymptomDiary) => {
+    const trend = summarizePainTrend(diary.entries);
+    return (
+      <>
+        <div className="flex items-start gap-2">
+          <div className="flex-1 min-w-0">
+            <h3 className="font-bold text-slate-900 dark:text-white truncate">{diary.name}</h3>
+            {profiles.length > 1 && <p className="text-xs text-slate-400">{personName(diary.profileId)}</p>}
+          </div>
+          <button onClick={() => handleDelete(diary)} className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors" title={t('diary.delete')}>
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-3 rounded-xl bg-slate-50 dark:bg-slate-800/50 space-y-2">
+          {trend ? (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-sm text-slate-700 dark:text-slate-200">
+                {trendBadge(diary)}
+                <span>{t('diary.trend', { from: trend.from.painLevel as number, to: trend.to.painLevel as number, start: formatDate(trend.from.date), end: formatDate(trend.to.date) })}</span>
+              </div>
+              <PainTrendChart entries={diary.entries} formatDate={formatDate} />
+            </>
+          ) : (
+            <p className="text-sm text-slate-400">{t('diary.chartEmpty')}</p>
+          )}
+        </div>
+
+        <button
+          onClick={() => onStartTriage(diary)}
+          className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl text-sm font-bold bg-gradient-to-r from-blue-600 to-indigo-600 text-white shadow-md hover:shadow-lg transition-all"
+        >
+          <Stethoscope className="w-4 h-4" />
+          {t('diary.startTriage')}
+        </button>
+
+        <section className="space-y-3 p-3 rounded-xl border border-slate-100 dark:border-slate-800">
+          <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider">{t('diary.addEntry')}</h4>
+          <label className="block">
+            <span className={labelClass}>{t('diary.date')}</span>
+            <input type="date" value={entryDate} max={todayIso()} onChange={(e) => setEntryDate(e.target.value)} className={inputClass} />
+          </label>
+          <div>
+            <span className={labelClass}>{t('diary.pain')}{entryPain !== null && ` · ${entryPain}/10`}</span>
+            <div className="flex justify-between gap-0.5" dir="ltr">
+              {Array.from({ length: 11 }, (_, level) => (
+                <button
+                  key={level}
+                  onClick={() => setEntryPain(level === entryPain ? null : level)}
+                  className={`flex-1 h-8 rounded text-xs font-bold transition-colors ${
+                    entryPain === level ? 'bg-blue-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'
+                  }`}
+                >
+                  {level}
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="block">
+            <span className={labelClass}>{t('diary.symptoms')}</span>
+            <input value={entrySymptoms} onChange={(e) => setEntrySymptoms(e.target.value)} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className={labelClass}>{t('diary.notes')}</span>
+            <textarea value={entryNotes} onChange={(e) => setEntryNotes(e.target.value)} className={`${inputClass} h-16 resize-none`} />
+          </label>
+          <button
+            onClick={saveEntry}
+            disabled={entryPain === null && !entrySymptoms.trim() && !entryNotes.trim()}
+            className="w-full py-2 rounded-lg text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            {t('diary.save')}
+          </button>
+        </section>
+
+        {diary.entries.length === 0 ? (
+          <p className="p-4 text-center text-sm text-slate-400">{t('diary.noEntries')}</p>
+        ) : (
+          <ul className="space-y-2">
+            {[...diary.entries].reverse().map(entry => (
+              <li key={entry.id} className="group flex items-start gap-3 p-3 rounded-xl bg-slate-50 dark:bg-slate-800/50 text-sm">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 text-xs text-slate-400">
+                    <span className="font-semibold">{formatDate(entry.date)}</span>
+                    {entry.painLevel !== null && <span className="px-2 py-0.5 rounded-full bg-white dark:bg-slate-900 font-bold text-slate-600 dark:text-slate-300">{entry.painLevel}/10</span>}
+                  </div>
+                  {entry.symptoms && <p className="text-slate-700 dark:text-slate-200">{entry.symptoms}</p>}
+                  {entry.notes && <p className="text-slate-500 whitespace-pre-wrap">{entry.notes}</p>}
+                </div>
+                <button
+                  onClick={() => onSave(removeDiaryEntry(diary, entry.id))}
+                  className="p-1.5 rounded-lg text-slate-400 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-all"
+                  title={t('diary.deleteEntry')}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end animate-fade-in">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose} />
+      <aside className="relative w-full max-w-sm h-full bg-white dark:bg-slate-900 shadow-2xl border-s border-slate-200 dark:border-slate-800 flex flex-col">
+        <div className="h-16 px-5 flex items-center justify-between border-b border-slate-100 dark:border-slate-800">
+          <h2 className="flex items-center gap-2 font-bold text-slate-900 dark:text-white">
+            {selected ? (
+              <button onClick={() => setSelectedId(null)} className="p-1 -ms-1 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title={t('diary.back')}>
+                <ChevronLeft className="w-5 h-5 rtl:rotate-180" />
+              </button>
+            ) : (
+              <NotebookPen className="w-5 h-5 text-blue-500" />
+            )}
+            {t('diary.title')}
+          </h2>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors" title={t('diary.close')}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {selected ? renderDiary(selected) : renderList()}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default SymptomDiaryPanel;
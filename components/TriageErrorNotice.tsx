@@ -0,0 +1,47 @@
+import React from 'react';
+import { AlertCircle, RotateCw } from 'lucide-react';
+import { TriageErrorKind } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+import { TranslationKey } from '../i18n/translations';
+
+interface TriageErrorNoticeProps {
+  kind: TriageErrorKind;
+  onRetry: () => void;
+}
+
+const ERROR_MESSAGES: Record<TriageErrorKind, TranslationKey> = {
+  'network': 'chat.connectionError',
+  'rate-limit': 'error.rateLimit',
+  'invalid-key': 'error.invalidKey',
+  'safety': 'error.safety',
+  'too-large': 'error.tooLarge',
+  'empty': 'error.empty',
+  'unavailable': 'error.unavailable',
+  'unknown': 'error.unknown'
+};
+
+/**
+ * Explains why a reply failed and resends the same conversation on retry,
+ * so nothing has to be retyped or re-recorded.
+ */
+const TriageErrorNotice: React.FC<TriageErrorNoticeProps> = ({ kind, onRetry }) => {
+  const { t } = useI18n();
+
+  return (
+    <div role="alert" className="mx-auto max-w-md bg-red-50 dark:bg-red-900/10 border border-red-100 dark:border-red-900/30 p-4 rounded-xl text-center text-red-600 dark:text-red-400 text-sm space-y-3">
+      <p className="flex items-start justify-center gap-2">
+        <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <span>{t(ERROR_MESSAGES[kind])}</span>
+      </p>
+      <button
+        onClick={onRetry}
+        className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-white dark:bg-slate-900 border border-red-200 dark:border-red-900/50 font-semibold hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+      >
+        <RotateCw className="w-4 h-4" />
+        {t('error.retry')}
+      </button>
+    </div>
+  );
+};
+
+export default TriageErrorNotice;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { ShieldCheck, Siren, Clock, CalendarCheck, Home, Eye, Lightbulb, Stethoscope, Compass } from 'lucide-react';
+import { TriageReport, UrgencyLevel, PossibleCause } from '../types';
+import { useI18n } from '../i18n/I18nContext';
+import { TranslationKey } from '../i18n/translations';
+
+interface TriageReportViewProps {
+  report: TriageReport;
+}
+
+const URGENCY_STYLES: Record<UrgencyLevel, { icon: any, className: string }> = {
+  'emergency': {
+    icon: Siren,
+    className: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-900/50 text-red-700 dark:text-red-300'
+  },
+  'urgent': {
+    icon: Clock,
+    className: 'bg-orange-50 dark:bg-orange-900/20 border-orange-200 dark:border-orange-900/50 text-orange-700 dark:text-orange-300'
+  },
+  'see-doctor': {
+    icon: CalendarCheck,
+    className: 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-900/50 text-yellow-800 dark:text-yellow-300'
+  },
+  'self-care': {
+    icon: Home,
+    className: 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-900/50 text-emerald-700 dark:text-emerald-300'
+  }
+};
+
+export const SafetyNote = () => {
+  const { t } = useI18n();
+  return (
+    <div className="flex gap-4 p-4 bg-amber-50 dark:bg-amber-900/10 border border-amber-100 dark:border-amber-900/30 rounded-xl text-amber-900 dark:text-amber-200 text-sm leading-relaxed">
+      <ShieldCheck className="w-5 h-5 flex-shrink-0 text-amber-600" />
+      <div>{t('report.safetyNote')}</div>
+    </div>
+  );
+};
+
+const UrgencyBanner = ({ urgency, reason }: { urgency: UrgencyLevel, reason: string }) => {
+  const { t } = useI18n();
+  const { icon: Icon, className } = URGENCY_STYLES[urgency];
+  return (
+    <div className={`flex gap-4 items-start p-4 rounded-2xl border ${className}`}>
+      <Icon className="w-6 h-6 flex-shrink-0 mt-0.5" />
+      <div>
+        <div className="font-bold uppercase tracking-wider text-sm">{t(`urgency.${urgency}`)}</div>
+        <p className="mt-1 leading-relaxed">{reason}</p>
+      </div>
+    </div>
+  );
+};
+
+const ReportSection = ({ icon: Icon, title, children }: { icon: any, title: TranslationKey, children: React.ReactNode }) => {
+  const { t } = useI18n();
+  return (
+    <section className="space-y-3">
+      <h4 className="flex items-center gap-2 text-sm font-bold text-slate-900 dark:text-white uppercase tracking-wider">
+        <Icon className="w-4 h-4 text-blue-500" />
+        {t(title)}
+      </h4>
+      {children}
+    </section>
+  );
+};
+
+const BulletList = ({ items }: { items: string[] }) => (
+  <ul className="space-y-2">
+    {items.map((item, idx) => (
+      <li key={idx} className="flex gap-2 items-start leading-7">
+        <span className="mt-3 w-1.5 h-1.5 bg-blue-500 rounded-full flex-shrink-0" />
+        <span className="flex-1">{item}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+const ObservationsSection = ({ observations }: { observations: string[] }) => (
+  <ReportSection icon={Eye} title="report.observations">
+    <BulletList items={observations} />
+  </ReportSection>
+);
+
+const PossibleCausesSection = ({ causes }: { causes: PossibleCause[] }) => (
+  <ReportSection icon={Lightbulb} title="report.possibleCauses">
+    <div className="grid gap-3 sm:grid-cols-2">
+      {causes.map((cause, idx) => (
+        <div key={idx} className="p-4 rounded-xl bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800">
+          <div className="font-bold text-slate-900 dark:text-white">{cause.name}</div>
+          <p className="mt-1 text-sm leading-relaxed">{cause.explanation}</p>
+        </div>
+      ))}
+    </div>
+  </ReportSection>
+);
+
+const DoctorQuestionsSection = ({ questions }: { questions: string[] }) => (
+  <ReportSection icon={Stethoscope} title="report.doctorQuestions">
+    <ol className="space-y-2">
+      {questions.map((question, idx) => (
+        <li key={idx} className="flex gap-3 items-start leading-7">
+          <span className="flex items-center justify-center w-6 h-6 mt-0.5 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-600 text-xs font-bold flex-shrink-0">{idx + 1}</span>
+          <span className="flex-1">{question}</span>
+        </li>
+      ))}
+    </ol>
+  </ReportSection>
+);
+
+const NextStepsSection = ({ steps }: { steps: string[] }) => (
+  <ReportSection icon={Compass} title="report.nextSteps">
+    <BulletList items={steps} />
+  </ReportSection>
+);
+
+const TriageReportView: React.FC<TriageReportViewProps> = ({ report }) => (
+  <div className="space-y-6 text-slate-600 dark:text-slate-300">
+    <UrgencyBanner urgency={report.urgency} reason={report.urgencyReason} />
+    <SafetyNote />
+    <ObservationsSection observations={report.observations} />
+    {report.possibleCauses.length > 0 && <PossibleCausesSection causes={report.possibleCauses} />}
+    {report.doctorQuestions.length > 0 && <DoctorQuestionsSection questions={report.doctorQuestions} />}
+    <NextStepsSection steps={report.nextSteps} />
+  </div>
+);
+
+export default TriageReportView;
@@ -0,0 +1,122 @@
+import { readdirSync, readFileSync } from "node:fs";
+import { basename, extname, join, resolve } from "node:path";
+import { ChatMessage, LanguageCode, MediaAttachment, PromptProfileId, UrgencyLevel } from "../types";
+import { isLanguageCode } from "../i18n/languages";
+import { PROMPT_PROFILES } from "../services/promptProfiles";
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.wav': 'audio/wav'
+};
+
+export interface EvalMedia {
+  type: MediaAttachment['type'];
+  // Relative to the case file
+  path: string;
+}
+
+export interface EvalTurn {
+  role: ChatMessage['role'];
+  text?: string;
+  painLevel?: number;
+  media?: EvalMedia[];
+}
+
+export interface EvalExpectations {
+  // The reply's urgency must be one of these
+  urgency?: UrgencyLevel | UrgencyLevel[];
+  // ...or at least this urgent
+  minUrgency?: UrgencyLevel;
+  doctorQuestions?: number;
+  // Fail on any word from JARGON_WORDS in eval/checks.ts
+  noJargon?: boolean;
+  forbiddenWords?: string[];
+  // Each must appear somewhere in the reply, case-insensitively
+  mustMention?: string[];
+}
+
+export interface EvalCase {
+  // File name without .json; also names the recording
+  id: string;
+  name: string;
+  language?: LanguageCode;
+  promptProfile?: PromptProfileId;
+  // Oldest first, ending with the user turn to be answered
+  history: EvalTurn[];
+  expect: EvalExpectations;
+  dir: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isTurn = (value: unknown): value is EvalTurn =>
+  isRecord(value)
+  && (value.role === 'user' || value.role === 'model')
+  && (value.text === undefined || typeof value.text === 'string')
+  && (value.painLevel === undefined || typeof value.painLevel === 'number')
+  && (value.media === undefined || (Array.isArray(value.media) && value.media.every(media => isRecord(media) && typeof media.type === 'string' && typeof media.path === 'string')));
+
+const checkCase = (value: unknown, file: string): Omit<EvalCase, 'id' | 'dir'> => {
+  const fail = (reason: string): never => { throw new Error(`${file}: ${reason}`); };
+  if (!isRecord(value)) return fail('a case must be a JSON object');
+  const { name, language, promptProfile, history, expect } = value;
+  if (typeof name !== 'string') return fail('"name" must be a string');
+  if (language !== undefined && !isLanguageCode(language)) return fail(`unknown language "${language}"`);
+  if (promptProfile !== undefined && !PROMPT_PROFILES.some(profile => profile.id === promptProfile)) return fail(`unknown prompt profile "${promptProfile}"`);
+  if (!Array.isArray(history) || history.length === 0) return fail('"history" must be a non-empty array');
+  if (!history.every(isTurn)) return fail('each turn needs a "user" or "model" role and optional text, painLevel and media');
+  if (history[history.length - 1].role !== 'user') return fail('the last turn must be from the user');
+  if (!isRecord(expect)) return fail('"expect" is required');
+  return {
+    name,
+    language: isLanguageCode(language) ? language : undefined,
+    promptProfile: promptProfile as PromptProfileId | undefined,
+    history,
+    expect: expect as EvalExpectations
+  };
+};
+
+export const loadCases = (dir: string): EvalCase[] =>
+  readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => {
+      const path = join(dir, file);
+      const value: unknown = JSON.parse(readFileSync(path, 'utf8'));
+      return { ...checkCase(value, path), id: basename(file, '.json'), dir: resolve(dir) };
+    });
+
+const loadMedia = (evalCase: EvalCase, media: EvalMedia, index: number): MediaAttachment => {
+  const path = join(evalCase.dir, media.path);
+  const mimeType = MIME_TYPES[extname(path).toLowerCase()];
+  if (!mimeType) throw new Error(`${evalCase.id}: unknown media type for ${media.path}`);
+  const bytes = readFileSync(path);
+  return {
+    id: `${evalCase.id}-${index}`,
+    type: media.type,
+    mimeType,
+    data: bytes.toString('base64'),
+    sizeBytes: bytes.length
+  };
+};
+
+// Fixed ids and timestamps keep runs comparable
+export const toHistory = (evalCase: EvalCase): ChatMessage[] => {
+  let mediaIndex = 0;
+  return evalCase.history.map((turn, index) => ({
+    id: `${evalCase.id}-${index}`,
+    role: turn.role,
+    text: turn.text,
+    painLevel: turn.painLevel,
+    attachments: turn.media?.map(media => loadMedia(evalCase, media, mediaIndex++)),
+    promptProfile: index === 0 ? evalCase.promptProfile : undefined,
+    timestamp: index
+  }));
+};
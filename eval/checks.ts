@@ -0,0 +1,62 @@
+import { AnalysisResult, TriageReport, UrgencyLevel } from "../types";
+import { EvalExpectations } from "./cases";
+
+// Most urgent first
+const URGENCY_ORDER: UrgencyLevel[] = ['emergency', 'urgent', 'see-doctor', 'self-care'];
+
+// Medical terms the prompt asks the model to put in everyday words
+export const JARGON_WORDS = [
+  'edema', 'oedema', 'erythema', 'pruritus', 'dyspnea', 'dyspnoea', 'tachycardia', 'bradycardia',
+  'myocardial', 'infarction', 'ischemia', 'pyrexia', 'febrile', 'etiology', 'aetiology', 'idiopathic',
+  'contusion', 'laceration', 'syncope', 'emesis', 'cephalgia', 'urticaria', 'prognosis',
+  'bilateral', 'anterior', 'posterior', 'lesion'
+];
+
+const reportText = (report: TriageReport) => [
+  report.urgencyReason,
+  ...report.observations,
+  ...report.possibleCauses.flatMap(cause => [cause.name, cause.explanation]),
+  ...report.doctorQuestions,
+  ...report.nextSteps
+].join('\n');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// \b only knows ASCII letters, so it would find a word inside a longer one with accents
+const findWords = (text: string, words: string[]) =>
+  words.filter(word => new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(word)}(?![\\p{L}\\p{N}])`, 'iu').test(text));
+
+/**
+ * Compares a reply with a case's expectations. Returns one line per
+ * failed expectation; an empty list means the case passed.
+ */
+export const checkExpectations = (result: AnalysisResult, expect: EvalExpectations): string[] => {
+  const { report } = result;
+  if (!report) return ['the reply was not a structured report'];
+
+  const failures: string[] = [];
+  const text = reportText(report);
+
+  if (expect.urgency) {
+    const allowed = Array.isArray(expect.urgency) ? expect.urgency : [expect.urgency];
+    if (!allowed.includes(report.urgency)) {
+      failures.push(`urgency was "${report.urgency}", expected ${allowed.map(level => `"${level}"`).join(' or ')}`);
+    }
+  }
+  if (expect.minUrgency && URGENCY_ORDER.indexOf(report.urgency) > URGENCY_ORDER.indexOf(expect.minUrgency)) {
+    failures.push(`urgency was "${report.urgency}", expected "${expect.minUrgency}" or more urgent`);
+  }
+  if (expect.doctorQuestions !== undefined && report.doctorQuestions.length !== expect.doctorQuestions) {
+    failures.push(`got ${report.doctorQuestions.length} doctor questions, expected ${expect.doctorQuestions}`);
+  }
+  const jargon = findWords(text, [...(expect.noJargon ? JARGON_WORDS : []), ...(expect.forbiddenWords || [])]);
+  if (jargon.length > 0) {
+    failures.push(`used forbidden words: ${jargon.join(', ')}`);
+  }
+  const missing = (expect.mustMention || []).filter(phrase => !text.toLowerCase().includes(phrase.toLowerCase()));
+  if (missing.length > 0) {
+    failures.push(`did not mention: ${missing.join(', ')}`);
+  }
+
+  return failures;
+};
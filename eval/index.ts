@@ -0,0 +1,148 @@
+import { parseArgs } from "node:util";
+import { PromptRef, ProviderConfig, ProviderId, TriageProvider } from "../types";
+import { createProvider } from "../services/providers";
+import { createMockProvider } from "../services/providers/mockProvider";
+import { DEFAULT_GEMINI_MODEL } from "../services/providers/geminiProvider";
+import { getPromptProfile, promptRef } from "../services/promptProfiles";
+import { buildSystemInstruction, MARKDOWN_RESPONSE_FORMAT } from "../services/prompt";
+import { analyzeHealthCondition } from "../services/triageService";
+import { toTriageError } from "../services/triageErrors";
+import { EvalCase, loadCases, toHistory } from "./cases";
+import { checkExpectations } from "./checks";
+import { createReplayProvider, loadRecording, saveRecording } from "./recordings";
+
+const USAGE = `Usage: npm run eval -- [options]
+
+  --provider <name>  replay (default), mock, gemini or openai-compatible
+  --model <name>     Model for a live provider
+  --record           Save live replies to the recordings folder for later replay (not with mock)
+  --cases <dir>      Case files to run (default: eval/cases)
+  --recordings <dir> Where recordings are kept (default: eval/recordings)
+  --filter <text>    Only run cases whose id contains this text
+`;
+
+const LIVE_PROVIDERS: ProviderId[] = ['mock', 'gemini', 'openai-compatible'];
+
+type Outcome = 'pass' | 'fail' | 'error' | 'skip';
+
+const { values: args } = parseArgs({
+  options: {
+    provider: { type: 'string', default: 'replay' },
+    model: { type: 'string' },
+    record: { type: 'boolean', default: false },
+    cases: { type: 'string', default: 'eval/cases' },
+    recordings: { type: 'string', default: 'eval/recordings' },
+    filter: { type: 'string' },
+    help: { type: 'boolean', default: false }
+  }
+});
+
+// Same keys as the app and the proxy server
+const liveProvider = (provider: ProviderId): TriageProvider => {
+  try {
+    process.loadEnvFile('.env.local');
+  } catch {
+    // No file, rely on the environment
+  }
+  const config: ProviderConfig = provider === 'gemini'
+    ? { provider, model: args.model || process.env.TRIAGE_MODEL || DEFAULT_GEMINI_MODEL, apiKey: process.env.GEMINI_API_KEY }
+    : { provider, model: args.model || process.env.TRIAGE_MODEL || '', apiKey: process.env.TRIAGE_API_KEY, baseUrl: process.env.TRIAGE_BASE_URL };
+  return provider === 'mock' ? createMockProvider(config, { delayMs: 0 }) : createProvider(config);
+};
+
+const describePrompt = (prompt: PromptRef) => `${prompt.id} v${prompt.version} (${prompt.hash || 'no hash'})`;
+
+const runCase = async (evalCase: EvalCase, live: TriageProvider | null): Promise<{ outcome: Outcome, notes: string[] }> => {
+  let provider = live;
+
+  if (!provider) {
+    const recording = loadRecording(args.recordings, evalCase.id);
+    if (!recording) return { outcome: 'fail', notes: ['no recording; run a live provider with --record first'] };
+    // Canned mock replies say nothing about how the prompt behaves
+    if (recording.provider === 'mock') return { outcome: 'skip', notes: ['recorded with the mock provider; re-record with a real model'] };
+    // Same instruction the providers build for this case (no location is sent),
+    // and the one they retry with when the reply is not a valid report
+    const profile = getPromptProfile(evalCase.promptProfile);
+    const instruction = buildSystemInstruction(evalCase.language, { profile });
+    const current = promptRef(profile, instruction);
+    const fallback = promptRef(profile, instruction + MARKDOWN_RESPONSE_FORMAT);
+    if (recording.prompt?.hash !== current.hash && recording.prompt?.hash !== fallback.hash) {
+      const recorded = recording.prompt ? describePrompt(recording.prompt) : 'an unknown prompt';
+      return { outcome: 'fail', notes: [`stale: recorded with ${recorded}, current is ${describePrompt(current)}; re-record with --record`] };
+    }
+    provider = createReplayProvider(recording);
+  }
+
+  let raw = '';
+  try {
+    const result = await analyzeHealthCondition(toHistory(evalCase), null, {
+      language: evalCase.language,
+      promptProfile: evalCase.promptProfile,
+      provider,
+      onText: text => { raw = text; },
+      onRetry: () => { raw = ''; }
+    });
+
+    if (live && args.record) {
+      saveRecording(args.recordings, {
+        caseId: evalCase.id,
+        provider: live.id,
+        model: live.model,
+        prompt: result.prompt,
+        recordedAt: new Date().toISOString(),
+        raw
+      });
+    }
+
+    const failures = checkExpectations(result, evalCase.expect);
+    return { outcome: failures.length > 0 ? 'fail' : 'pass', notes: failures };
+  } catch (error) {
+    const triageError = toTriageError(error);
+    return { outcome: 'error', notes: [`${triageError.kind}: ${triageError.message}`] };
+  }
+};
+
+const main = async () => {
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const providerId = args.provider as ProviderId | 'replay';
+  if (providerId !== 'replay' && !LIVE_PROVIDERS.includes(providerId)) {
+    console.error(`Unknown provider "${providerId}".\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+  if (args.record && (providerId === 'replay' || providerId === 'mock')) {
+    console.error("--record needs a real model, e.g. --provider gemini");
+    process.exitCode = 2;
+    return;
+  }
+
+  const live = providerId === 'replay' ? null : liveProvider(providerId);
+  if (providerId === 'gemini' && !process.env.GEMINI_API_KEY) {
+    console.error("GEMINI_API_KEY is not set (in the environment or .env.local)");
+    process.exitCode = 2;
+    return;
+  }
+  const cases = loadCases(args.cases).filter(evalCase => !args.filter || evalCase.id.includes(args.filter));
+  console.log(`Running ${cases.length} cases against ${live ? `${live.id}/${live.model || 'default'}` : 'recorded replies'}\n`);
+
+  const totals: Record<Outcome, number> = { pass: 0, fail: 0, error: 0, skip: 0 };
+  for (const evalCase of cases) {
+    const { outcome, notes } = await runCase(evalCase, live);
+    totals[outcome]++;
+    console.log(`${outcome.toUpperCase().padEnd(5)} ${evalCase.id}  ${evalCase.name}`);
+    notes.forEach(note => console.log(`      - ${note}`));
+  }
+
+  console.log(`\n${totals.pass} passed, ${totals.fail} failed, ${totals.error} errors, ${totals.skip} skipped`);
+  // A run that checked nothing says nothing about the prompt either
+  if (totals.pass + totals.fail + totals.error === 0) {
+    console.error("No case was checked");
+  }
+  process.exitCode = totals.fail + totals.error > 0 || totals.pass === 0 ? 1 : 0;
+};
+
+main();
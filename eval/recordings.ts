@@ -0,0 +1,39 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { PromptRef, ProviderId, TriageProvider } from "../types";
+import { createMockProvider } from "../services/providers/mockProvider";
+
+/**
+ * A model's raw reply to one case, saved so the case can be checked again
+ * offline. Replays go through the same parsing as a live reply.
+ */
+export interface Recording {
+  caseId: string;
+  provider: ProviderId;
+  model: string;
+  // Prompt profile, version and system instruction hash the reply was recorded with
+  prompt?: PromptRef;
+  recordedAt: string;
+  raw: string;
+}
+
+const recordingPath = (dir: string, caseId: string) => join(dir, `${caseId}.json`);
+
+export const loadRecording = (dir: string, caseId: string): Recording | null => {
+  const path = recordingPath(dir, caseId);
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : null;
+};
+
+export const saveRecording = (dir: string, recording: Recording): void => {
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(recordingPath(dir, recording.caseId), JSON.stringify(recording, null, 2) + '\n');
+};
+
+export const createReplayProvider = (recording: Recording): TriageProvider => {
+  const mock = createMockProvider({ provider: 'mock', model: recording.model }, { script: [recording.raw], delayMs: 0 });
+  return {
+    id: 'mock',
+    model: `replay of ${recording.provider}/${recording.model}`,
+    analyze: async request => ({ ...await mock.analyze(request), prompt: recording.prompt })
+  };
+};
@@ -0,0 +1,50 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { LanguageCode } from '../types';
+import { detectLanguage, getLanguage, isLanguageCode } from './languages';
+import { TranslationKey, translate } from './translations';
+
+const LANGUAGE_KEY = 'triage.language';
+
+interface I18nContextValue {
+  language: LanguageCode;
+  setLanguage: (language: LanguageCode) => void;
+  dir: 'ltr' | 'rtl';
+  t: (key: TranslationKey, vars?: Record<string, string | number>) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+const getStoredLanguage = (): LanguageCode => {
+  const stored = localStorage.getItem(LANGUAGE_KEY);
+  return isLanguageCode(stored) ? stored : detectLanguage();
+};
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguageState] = useState<LanguageCode>(getStoredLanguage);
+  const { dir } = getLanguage(language);
+
+  // lang drives hyphenation and screen readers; dir flips the whole layout for RTL scripts
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.documentElement.dir = dir;
+  }, [language, dir]);
+
+  const setLanguage = (next: LanguageCode) => {
+    localStorage.setItem(LANGUAGE_KEY, next);
+    setLanguageState(next);
+  };
+
+  const t = (key: TranslationKey, vars?: Record<string, string | number>) => translate(language, key, vars);
+
+  return (
+    <I18nContext.Provider value={{ language, setLanguage, dir, t }}>
+      {children}
+    </I18nContext.Provider>
+  );
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside an I18nProvider');
+  return context;
+};
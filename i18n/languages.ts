@@ -0,0 +1,43 @@
+import { LanguageCode } from '../types';
+
+export interface LanguageInfo {
+  code: LanguageCode;
+  // Name in the language itself, shown in the picker
+  nativeName: string;
+  // Name in English, used in the model prompt
+  englishName: string;
+  dir: 'ltr' | 'rtl';
+  // BCP 47 tag for speech recognition and synthesis
+  speechLocale: string;
+}
+
+export const LANGUAGES: LanguageInfo[] = [
+  { code: 'en', nativeName: 'English', englishName: 'English', dir: 'ltr', speechLocale: 'en-US' },
+  { code: 'es', nativeName: 'Español', englishName: 'Spanish', dir: 'ltr', speechLocale: 'es-ES' },
+  { code: 'fr', nativeName: 'Français', englishName: 'French', dir: 'ltr', speechLocale: 'fr-FR' },
+  { code: 'pt', nativeName: 'Português', englishName: 'Portuguese', dir: 'ltr', speechLocale: 'pt-BR' },
+  { code: 'ar', nativeName: 'العربية', englishName: 'Arabic', dir: 'rtl', speechLocale: 'ar-SA' }
+];
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+export const getLanguage = (code: LanguageCode): LanguageInfo =>
+  LANGUAGES.find(language => language.code === code) || LANGUAGES[0];
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  LANGUAGES.some(language => language.code === value);
+
+/**
+ * The regional tag to use for speech. Prefers the browser's own region when
+ * it speaks the same language (en-GB stays en-GB), otherwise our default.
+ */
+export const getSpeechLocale = (code: LanguageCode): string => {
+  const browserLocale = typeof navigator !== 'undefined' ? navigator.language : '';
+  return browserLocale.toLowerCase().split('-')[0] === code ? browserLocale : getLanguage(code).speechLocale;
+};
+
+// First visit: follow the browser if we support its language
+export const detectLanguage = (): LanguageCode => {
+  const browserCode = typeof navigator !== 'undefined' ? navigator.language.toLowerCase().split('-')[0] : '';
+  return isLanguageCode(browserCode) ? browserCode : DEFAULT_LANGUAGE;
+};
@@ -0,0 +1,1683 @@
+import { LanguageCode } from '../types';
+
+// English is the source of truth: every other language must define the same keys
+const en = {
+  'header.emergencyMap': 'Emergency Map',
+  'header.history': 'Past Consultations',
+  'header.newSession': 'New Session',
+  'header.toggleTheme': 'Switch light/dark mode',
+  'header.language': 'Language',
+
+  'welcome.title': 'How can I help you?',
+  'welcome.subtitle': "Describe your symptoms using voice, video, or text. I'll help you understand what might be wrong.",
+
+  'intake.media': 'Media Input',
+  'intake.painCheck': 'Pain Check',
+  'intake.details': 'Details',
+  'intake.symptomsPlaceholder': "Describe what you're feeling...",
+  'intake.followUpPlaceholder': 'Ask a follow-up question...',
+  'intake.start': 'Start Triage',
+  'intake.analyzing': 'Analyzing...',
+  'intake.removeAttachment': 'Remove',
+
+  'pain.title': 'Pain Intensity',
+  'pain.notRated': 'Not Rated',
+  'pain.none': 'No Pain',
+  'pain.moderate': 'Moderate',
+  'pain.severe': 'Severe',
+  'pain.badge': 'Pain Level: {level}/10',
+
+  'chat.analyzing': 'Analyzing symptoms...',
+  'chat.stop': 'Stop',
+  'chat.listen': 'Listen',
+  'chat.interrupted': 'Interrupted, this answer is incomplete',
+  'chat.send': 'Send',
+  'chat.connectionError': "I'm having trouble connecting right now. Please check your connection and try again.",
+
+  'report.safetyNote': 'I am an AI, not a doctor. If you feel this is an emergency, please call for help right away.',
+  'report.observations': 'What I Noticed',
+  'report.possibleCauses': 'What It Might Be',
+  'report.doctorQuestions': 'Questions for the Doctor',
+  'report.nextSteps': 'Recommended Next Steps',
+  'urgency.emergency': 'Get Help Now',
+  'urgency.urgent': 'See Someone Today',
+  'urgency.see-doctor': 'Book a Doctor Visit',
+  'urgency.self-care': 'Care for It at Home',
+
+  'recorder.voice': 'Voice',
+  'recorder.speak': 'Speak',
+  'recorder.video': 'Video',
+  'recorder.record': 'Record',
+  'recorder.photo': 'Photo',
+  'recorder.upload': 'Upload',
+  'recorder.permission': 'We need permission to use your camera/microphone to see or hear you.',
+  'recorder.saveFailed': 'Something went wrong saving the recording. Please try again.',
+  'recorder.photoFailed': "We couldn't read that photo. Please try a different one.",
+  'recorder.transcriptLabel': 'What you said (you can fix any mistakes)',
+  'recorder.transcriptEmpty': 'No words were picked up. You can type them here.',
+  'recorder.useBackCamera': 'Use back camera',
+  'recorder.useFrontCamera': 'Use front camera',
+  'recorder.listening': 'Listening...',
+  'recorder.recording': 'Recording',
+  'recorder.paused': 'Paused',
+  'recorder.ready': 'Ready to start',
+  'recorder.review': 'Check your recording',
+  'recorder.autoStop': 'Stops automatically at the limit',
+  'recorder.cancel': 'Cancel',
+  'recorder.start': 'Start recording',
+  'recorder.stop': 'Stop',
+  'recorder.pause': 'Pause',
+  'recorder.resume': 'Resume',
+  'recorder.retake': 'Retake',
+  'recorder.keep': 'Keep',
+  'recorder.dismiss': 'Dismiss',
+
+  'dictation.start': 'Dictate',
+  'dictation.stop': 'Stop dictation',
+  'dictation.permission': 'Microphone permission is needed for dictation.',
+  'dictation.failed': 'Dictation stopped. Please try again.',
+
+  'speech.play': 'Play',
+  'speech.pause': 'Pause',
+  'speech.previous': 'Previous section',
+  'speech.next': 'Next section',
+  'speech.settings': 'Voice and speed',
+  'speech.close': 'Close player',
+  'speech.voice': 'Voice',
+  'speech.automaticVoice': 'Automatic',
+  'speech.speed': 'Speed',
+
+  'sources.title': 'Sources',
+  'sources.maps': 'Google Maps',
+  'location.on': 'Your location is used to suggest nearby care.',
+  'location.off': "Location is off. Replies won't name nearby places.",
+  'location.unavailable': "We couldn't get your location, so replies won't name nearby places.",
+  'location.turnOff': 'Turn off',
+  'location.turnOn': 'Share location',
+
+  'profile.title': 'About You',
+  'profile.edit': 'Edit profile',
+  'profile.add': 'Add health profile',
+  'profile.emptyHint': 'Age, medicines and allergies help the advice fit you. Saved only on this device.',
+  'profile.shareHint': 'Ticked items are shared in this consultation only. Untick anything you want to keep private.',
+  'profile.editorTitle': 'Your Health Profile',
+  'profile.privacy': 'Stored only on this device. Before each consultation you choose what to share.',
+  'profile.age': 'Age',
+  'profile.sex': 'Sex',
+  'profile.notSaid': 'Prefer not to say',
+  'profile.sex.female': 'Female',
+  'profile.sex.male': 'Male',
+  'profile.sex.other': 'Other',
+  'profile.pregnant': 'Pregnant',
+  'profile.yes': 'Yes',
+  'profile.no': 'No',
+  'profile.conditions': 'Long-term conditions',
+  'profile.medications': 'Current medications',
+  'profile.allergies': 'Allergies',
+  'profile.listHint': 'One per line',
+  'profile.save': 'Save',
+  'profile.cancel': 'Cancel',
+  'profile.clear': 'Clear profile',
+  'profile.shared': 'Profile shared',
+
+  'profile.weight': 'Weight (kg)',
+  'profile.ageMonths': 'Age in months',
+  'profile.monthsValue': '{months} months',
+  'profile.name': 'Name',
+  'profile.relationship': 'Who is this?',
+  'profile.editorTitleOther': 'Their Health Profile',
+  'profile.titleFor': 'About {name}',
+  'profile.confirmDelete': 'Remove {name} and their profile from this device?',
+  'relationship.self': 'Me',
+  'relationship.child': 'My child',
+  'relationship.parent': 'My parent',
+  'relationship.partner': 'My partner',
+  'relationship.other': 'Someone I care for',
+  'household.question': 'Who is this about?',
+  'household.add': 'Add person',
+  'household.delete': 'Remove person',
+  'header.diary': 'Symptom diary',
+  'diary.title': 'Symptom Diary',
+  'diary.intro': 'Track a problem over days or weeks. Entries stay on this device.',
+  'diary.empty': 'No diaries yet.',
+  'diary.namePlaceholder': 'What are you tracking? e.g. Left knee',
+  'diary.create': 'Start diary',
+  'diary.back': 'All diaries',
+  'diary.delete': 'Delete diary',
+  'diary.confirmDelete': 'Delete the "{name}" diary and all its entries?',
+  'diary.addEntry': 'Add entry',
+  'diary.date': 'Date',
+  'diary.pain': 'Pain',
+  'diary.symptoms': 'Symptoms',
+  'diary.notes': 'Notes',
+  'diary.save': 'Save entry',
+  'diary.deleteEntry': 'Delete entry',
+  'diary.noEntries': 'No entries yet. Add how it feels today.',
+  'diary.chartEmpty': 'Rate the pain on two or more days to see a trend.',
+  'diary.trend': 'Pain went from {from}/10 on {start} to {to}/10 on {end}',
+  'diary.worsening': 'Getting worse',
+  'diary.improving': 'Getting better',
+  'diary.stable': 'About the same',
+  'diary.startTriage': 'Start follow-up check',
+  'diary.link': 'Follow-up for',
+  'diary.notLinked': 'Not a follow-up',
+  'diary.linkHint': "Today's pain rating is added to the diary and the trend is shared with this check.",
+  'diary.close': 'Close',
+  'header.photos': 'Photo timeline',
+  'photos.title': 'Photo Timeline',
+  'photos.intro': 'Follow a wound or rash by filing photos of the same spot over time. Photos stay on this device.',
+  'photos.empty': 'No body sites yet.',
+  'photos.namePlaceholder': 'Where is it? e.g. Left forearm',
+  'photos.create': 'Add body site',
+  'photos.back': 'All body sites',
+  'photos.delete': 'Delete body site',
+  'photos.confirmDelete': 'Delete "{name}" and all its photos?',
+  'photos.add': 'Add photo',
+  'photos.addFailed': 'Could not add this photo.',
+  'photos.removeFailed': 'Could not remove this photo.',
+  'photos.fileFailed': 'Could not save these photos to the timeline. Please try again.',
+  'photos.noPhotos': 'No photos yet. Take each one in good light, from the same distance.',
+  'photos.deletePhoto': 'Delete photo',
+  'photos.pickHint': 'Tap photos on the timeline to choose which two to compare.',
+  'photos.then': 'Then',
+  'photos.now': 'Now',
+  'photos.sideBySide': 'Side by side',
+  'photos.slider': 'Slider',
+  'photos.ask': 'Ask about the change',
+  'photos.fileUnder': 'Save photos to a timeline',
+  'photos.chooseSite': 'Choose a body site',
+  'photos.newSite': 'New body site…',
+  'photos.save': 'Save',
+  'photos.saved': 'Saved to timeline',
+  'photos.close': 'Close',
+  'quickReplies.title': 'Tap to answer',
+  'error.rateLimit': 'The service is busy or has hit its usage limit. Please wait a minute and try again.',
+  'error.invalidKey': "The app's API key was rejected. Please ask whoever set up the app to check it.",
+  'error.safety': 'The service declined to answer this. Try describing it differently, and if you are worried, contact a doctor or emergency services.',
+  'error.tooLarge': 'The photos or recordings are too large to send. Try a shorter recording or fewer photos, then start again.',
+  'error.empty': 'The reply came back empty. Please try again.',
+  'error.unavailable': 'The service is having problems right now. Please try again in a moment.',
+  'error.unknown': 'Something went wrong. Please try again.',
+  'error.retry': 'Try again',
+  'error.retrying': 'Connection hiccup, trying again…',
+  'context.size': 'Conversation size: ~{tokens} tokens',
+  'context.compacted': 'Older messages are now summarised to keep replies fast',
+  'context.hint': 'A rough estimate of how much the model reads each turn',
+  'promptProfile.title': 'Type of check',
+  'promptProfile.auto': 'Automatic ({name})',
+  'promptProfile.general': 'General',
+  'promptProfile.pediatric': 'Child',
+  'promptProfile.elderly': 'Older adult',
+  'promptProfile.skin': 'Skin',
+  'promptProfile.mental-health': 'Mental health check-in',
+  'promptProfile.usedBy': 'Prompt: {name}, version {version}',
+  'chat.edit': 'Edit',
+  'chat.regenerate': 'Regenerate',
+  'chat.previousBranch': 'Previous version',
+  'chat.nextBranch': 'Next version',
+  'edit.title': 'Edit your message',
+  'edit.save': 'Save and resend',
+  'edit.cancel': 'Cancel',
+  'edit.addPhoto': 'Add photo',
+  'emergency.title': 'This may be an emergency',
+  'emergency.subtitle': 'Please get help now. Don\'t wait for an AI answer.',
+  'emergency.call': 'Call {number}',
+  'emergency.findRoom': 'Find the Nearest Emergency Room',
+  'emergency.back': 'Go Back and Edit',
+  'emergency.continue': 'I\'m safe, continue to the check',
+  'redFlag.chest-pain.reason': 'Chest pain or pressure',
+  'redFlag.chest-pain.advice': 'Chest pain can be a sign of a heart attack.',
+  'redFlag.breathing.reason': 'Trouble breathing',
+  'redFlag.breathing.advice': 'Struggling to breathe needs help right away.',
+  'redFlag.heavy-bleeding.reason': 'Heavy bleeding',
+  'redFlag.heavy-bleeding.advice': 'Bleeding that will not stop needs emergency care.',
+  'redFlag.stroke-signs.reason': 'Possible stroke signs',
+  'redFlag.stroke-signs.advice': 'Slurred speech, a drooping face or sudden weakness on one side can mean a stroke. Every minute counts.',
+  'redFlag.unresponsive.reason': 'Fainting, seizure or not waking up',
+  'redFlag.unresponsive.advice': 'Someone who has passed out, is having a seizure or cannot be woken needs help now.',
+  'redFlag.allergic-reaction.reason': 'Severe allergic reaction',
+  'redFlag.allergic-reaction.advice': 'A swelling throat, tongue or lips can block breathing quickly.',
+  'redFlag.self-harm.reason': 'Thoughts of suicide or self-harm',
+  'redFlag.self-harm.advice': 'You deserve support right now. Please reach out to emergency services or a crisis line.',
+  'redFlag.worst-headache.reason': 'Sudden, very severe headache',
+  'redFlag.worst-headache.advice': 'A sudden "worst ever" headache can be a sign of bleeding in the brain.',
+  'history.close': 'Close',
+  'history.empty': 'Nothing saved yet. Your consultations are stored only on this device.',
+  'history.delete': 'Delete',
+  'history.privacy': 'Privacy',
+  'history.keepForever': 'Keep until I delete them',
+  'history.deleteAfter': 'Delete after {days} days',
+  'history.confirmClear': 'Delete all saved consultations from this device?',
+  'history.deleteAll': 'Delete All',
+  'export.title': 'Export',
+  'export.summary': 'Summary for a Doctor',
+  'export.summaryHint': 'Print or save as PDF',
+  'export.fhir': 'Clinic Record (FHIR)',
+  'export.fhirHint': 'For importing into a health record',
+  'export.failed': 'Could not create the clinic record.',
+  'bodyMap.title': 'Where does it hurt?',
+  'bodyMap.front': 'Front',
+  'bodyMap.back': 'Back',
+  'bodyMap.diagramFront': 'Body diagram, front view',
+  'bodyMap.diagramBack': 'Body diagram, back view',
+  'bodyMap.hint': 'Tap the body to mark where you feel it. You can pick more than one place.',
+  'bodyMap.remove': 'Remove',
+  'bodyMap.painNotRated': 'Pain here: not rated',
+  'bodyMap.pain': 'Pain here: {level}/10',
+  'sensation.sharp': 'sharp',
+  'sensation.dull': 'dull',
+  'sensation.burning': 'burning',
+  'sensation.throbbing': 'throbbing',
+  'sensation.tingling': 'tingling',
+  'sensation.aching': 'aching',
+  'bodyRegion.front-head': 'Head / face',
+  'bodyRegion.front-neck': 'Throat / neck',
+  'bodyRegion.front-right-shoulder': 'Right shoulder',
+  'bodyRegion.front-left-shoulder': 'Left shoulder',
+  'bodyRegion.front-chest': 'Chest',
+  'bodyRegion.front-abdomen': 'Stomach / belly',
+  'bodyRegion.front-pelvis': 'Groin / pelvis',
+  'bodyRegion.front-right-arm': 'Right arm',
+  'bodyRegion.front-left-arm': 'Left arm',
+  'bodyRegion.front-right-hand': 'Right hand / wrist',
+  'bodyRegion.front-left-hand': 'Left hand / wrist',
+  'bodyRegion.front-right-thigh': 'Right thigh',
+  'bodyRegion.front-left-thigh': 'Left thigh',
+  'bodyRegion.front-right-knee': 'Right knee / shin',
+  'bodyRegion.front-left-knee': 'Left knee / shin',
+  'bodyRegion.front-right-foot': 'Right foot / ankle',
+  'bodyRegion.front-left-foot': 'Left foot / ankle',
+  'bodyRegion.back-head': 'Back of head',
+  'bodyRegion.back-neck': 'Back of neck',
+  'bodyRegion.back-left-shoulder': 'Left shoulder blade',
+  'bodyRegion.back-right-shoulder': 'Right shoulder blade',
+  'bodyRegion.back-upper': 'Upper back',
+  'bodyRegion.back-lower': 'Lower back',
+  'bodyRegion.back-buttocks': 'Buttocks / tailbone',
+  'bodyRegion.back-left-arm': 'Back of left arm / elbow',
+  'bodyRegion.back-right-arm': 'Back of right arm / elbow',
+  'bodyRegion.back-left-hamstring': 'Back of left thigh',
+  'bodyRegion.back-right-hamstring': 'Back of right thigh',
+  'bodyRegion.back-left-calf': 'Left calf',
+  'bodyRegion.back-right-calf': 'Right calf',
+  'bodyRegion.back-left-heel': 'Left heel',
+  'bodyRegion.back-right-heel': 'Right heel',
+  'media.photoTooLarge': 'This photo is {size}, which is too large. Please choose one under {limit}.',
+  'media.videoTooLarge': 'This video is {size}, over the {limit} limit. Please record a shorter clip.',
+  'media.voiceTooLarge': 'This voice note is {size}, over the {limit} limit. Please record a shorter clip.',
+  'media.tooManyAttachments': 'One message can carry up to {limit} attachments. Remove one first.',
+  'media.messageTooLarge': 'These attachments add up to {size}, over the {limit} limit for one message. Remove one first.',
+  'session.photoCheck': 'Photo check',
+  'session.videoCheck': 'Video check',
+  'session.voiceCheck': 'Voice note check',
+  'session.untitled': 'Consultation',
+  'summary.title': 'Health Triage Summary',
+  'summary.disclaimer': 'This summary was prepared with an AI health companion. It is not a diagnosis and does not replace an examination by a doctor.',
+  'summary.started': 'Started {time}',
+  'summary.printed': 'Printed {time}',
+  'summary.aboutPatient': 'About the Patient',
+  'summary.asEntered': 'As entered by the patient.',
+  'summary.diary': 'Symptom Diary: {name}',
+  'summary.patientWords': 'In the Patient\'s Words',
+  'summary.noDescription': 'No written description.',
+  'summary.whereItHurts': 'Where it hurts:',
+  'summary.painLevels': 'Pain Levels',
+  'summary.noPain': 'No pain rating was given.',
+  'summary.time': 'Time',
+  'summary.media': 'Photos & Recordings',
+  'summary.photoAlt': 'Photo shared by the patient',
+  'summary.videoRecording': 'Video recording',
+  'summary.voiceRecording': 'Voice recording',
+  'summary.notPrinted': 'not included in print',
+  'summary.findings': 'What the Companion Noticed',
+  'storage.blocked': 'This app is open in another tab with older saved data. Close that tab to finish updating; your history will load after that.'
+};
+
+export type TranslationKey = keyof typeof en;
+
+export type Translate = (key: TranslationKey, vars?: Record<string, string | number>) => string;
+type Translations = Record<TranslationKey, string>;
+
+const es: Translations = {
+  'header.emergencyMap': 'Mapa de urgencias',
+  'header.history': 'Consultas anteriores',
+  'header.newSession': 'Nueva consulta',
+  'header.toggleTheme': 'Cambiar modo claro/oscuro',
+  'header.language': 'Idioma',
+
+  'welcome.title': '¿Cómo puedo ayudarte?',
+  'welcome.subtitle': 'Describe tus síntomas con voz, vídeo o texto. Te ayudaré a entender qué puede estar pasando.',
+
+  'intake.media': 'Audio, vídeo o foto',
+  'intake.painCheck': 'Dolor',
+  'intake.details': 'Detalles',
+  'intake.symptomsPlaceholder': 'Describe lo que sientes...',
+  'intake.followUpPlaceholder': 'Haz otra pregunta...',
+  'intake.start': 'Empezar',
+  'intake.analyzing': 'Analizando...',
+  'intake.removeAttachment': 'Quitar',
+
+  'pain.title': 'Intensidad del dolor',
+  'pain.notRated': 'Sin valorar',
+  'pain.none': 'Sin dolor',
+  'pain.moderate': 'Moderado',
+  'pain.severe': 'Intenso',
+  'pain.badge': 'Nivel de dolor: {level}/10',
+
+  'chat.analyzing': 'Analizando síntomas...',
+  'chat.stop': 'Detener',
+  'chat.listen': 'Escuchar',
+  'chat.interrupted': 'Interrumpida, esta respuesta está incompleta',
+  'chat.send': 'Enviar',
+  'chat.connectionError': 'Ahora mismo tengo problemas de conexión. Comprueba tu conexión e inténtalo de nuevo.',
+
+  'report.safetyNote': 'Soy una IA, no un médico. Si crees que es una emergencia, pide ayuda de inmediato.',
+  'report.observations': 'Lo que he notado',
+  'report.possibleCauses': 'Lo que podría ser',
+  'report.doctorQuestions': 'Preguntas para el médico',
+  'report.nextSteps': 'Próximos pasos recomendados',
+  'urgency.emergency': 'Pide ayuda ya',
+  'urgency.urgent': 'Ve a alguien hoy',
+  'urgency.see-doctor': 'Pide cita con el médico',
+  'urgency.self-care': 'Cuídate en casa',
+
+  'recorder.voice': 'Voz',
+  'recorder.speak': 'Hablar',
+  'recorder.video': 'Vídeo',
+  'recorder.record': 'Grabar',
+  'recorder.photo': 'Foto',
+  'recorder.upload': 'Subir',
+  'recorder.permission': 'Necesitamos permiso para usar la cámara o el micrófono para verte u oírte.',
+  'recorder.saveFailed': 'Algo salió mal al guardar la grabación. Inténtalo de nuevo.',
+  'recorder.photoFailed': 'No pudimos leer esa foto. Prueba con otra.',
+  'recorder.transcriptLabel': 'Lo que dijiste (puedes corregir errores)',
+  'recorder.transcriptEmpty': 'No se captaron palabras. Puedes escribirlas aquí.',
+  'recorder.useBackCamera': 'Usar cámara trasera',
+  'recorder.useFrontCamera': 'Usar cámara frontal',
+  'recorder.listening': 'Escuchando...',
+  'recorder.recording': 'Grabando',
+  'recorder.paused': 'En pausa',
+  'recorder.ready': 'Listo para empezar',
+  'recorder.review': 'Revisa tu grabación',
+  'recorder.autoStop': 'Se detiene automáticamente al llegar al límite',
+  'recorder.cancel': 'Cancelar',
+  'recorder.start': 'Empezar a grabar',
+  'recorder.stop': 'Detener',
+  'recorder.pause': 'Pausar',
+  'recorder.resume': 'Continuar',
+  'recorder.retake': 'Repetir',
+  'recorder.keep': 'Guardar',
+  'recorder.dismiss': 'Cerrar',
+
+  'dictation.start': 'Dictar',
+  'dictation.stop': 'Dejar de dictar',
+  'dictation.permission': 'Se necesita permiso del micrófono para dictar.',
+  'dictation.failed': 'El dictado se detuvo. Inténtalo de nuevo.',
+
+  'speech.play': 'Reproducir',
+  'speech.pause': 'Pausar',
+  'speech.previous': 'Sección anterior',
+  'speech.next': 'Sección siguiente',
+  'speech.settings': 'Voz y velocidad',
+  'speech.close': 'Cerrar reproductor',
+  'speech.voice': 'Voz',
+  'speech.automaticVoice': 'Automática',
+  'speech.speed': 'Velocidad',
+
+  'sources.title': 'Fuentes',
+  'sources.maps': 'Google Maps',
+  'location.on': 'Usamos tu ubicación para sugerir atención cercana.',
+  'location.off': 'La ubicación está desactivada. Las respuestas no nombrarán lugares cercanos.',
+  'location.unavailable': 'No pudimos obtener tu ubicación, así que las respuestas no nombrarán lugares cercanos.',
+  'location.turnOff': 'Desactivar',
+  'location.turnOn': 'Compartir ubicación',
+
+  'profile.title': 'Sobre ti',
+  'profile.edit': 'Editar perfil',
+  'profile.add': 'Añadir perfil de salud',
+  'profile.emptyHint': 'La edad, los medicamentos y las alergias ayudan a adaptar los consejos. Se guarda solo en este dispositivo.',
+  'profile.shareHint': 'Lo marcado se comparte solo en esta consulta. Desmarca lo que quieras mantener en privado.',
+  'profile.editorTitle': 'Tu perfil de salud',
+  'profile.privacy': 'Se guarda solo en este dispositivo. Antes de cada consulta eliges qué compartir.',
+  'profile.age': 'Edad',
+  'profile.sex': 'Sexo',
+  'profile.notSaid': 'Prefiero no decirlo',
+  'profile.sex.female': 'Mujer',
+  'profile.sex.male': 'Hombre',
+  'profile.sex.other': 'Otro',
+  'profile.pregnant': 'Embarazada',
+  'profile.yes': 'Sí',
+  'profile.no': 'No',
+  'profile.conditions': 'Enfermedades crónicas',
+  'profile.medications': 'Medicamentos actuales',
+  'profile.allergies': 'Alergias',
+  'profile.listHint': 'Uno por línea',
+  'profile.save': 'Guardar',
+  'profile.cancel': 'Cancelar',
+  'profile.clear': 'Borrar perfil',
+  'profile.shared': 'Perfil compartido',
+
+  'profile.weight': 'Peso (kg)',
+  'profile.ageMonths': 'Edad en meses',
+  'profile.monthsValue': '{months} meses',
+  'profile.name': 'Nombre',
+  'profile.relationship': '¿Quién es?',
+  'profile.editorTitleOther': 'Su perfil de salud',
+  'profile.titleFor': 'Sobre {name}',
+  'profile.confirmDelete': '¿Quitar a {name} y su perfil de este dispositivo?',
+  'relationship.self': 'Yo',
+  'relationship.child': 'Mi hijo o hija',
+  'relationship.parent': 'Mi padre o madre',
+  'relationship.partner': 'Mi pareja',
+  'relationship.other': 'Alguien a quien cuido',
+  'household.question': '¿Para quién es la consulta?',
+  'household.add': 'Añadir persona',
+  'household.delete': 'Quitar persona',
+  'header.diary': 'Diario de síntomas',
+  'diary.title': 'Diario de síntomas',
+  'diary.intro': 'Sigue un problema durante días o semanas. Las entradas se quedan en este dispositivo.',
+  'diary.empty': 'Aún no hay diarios.',
+  'diary.namePlaceholder': '¿Qué quieres seguir? p. ej. Rodilla izquierda',
+  'diary.create': 'Crear diario',
+  'diary.back': 'Todos los diarios',
+  'diary.delete': 'Eliminar diario',
+  'diary.confirmDelete': '¿Eliminar el diario "{name}" y todas sus entradas?',
+  'diary.addEntry': 'Añadir entrada',
+  'diary.date': 'Fecha',
+  'diary.pain': 'Dolor',
+  'diary.symptoms': 'Síntomas',
+  'diary.notes': 'Notas',
+  'diary.save': 'Guardar entrada',
+  'diary.deleteEntry': 'Eliminar entrada',
+  'diary.noEntries': 'Aún no hay entradas. Anota cómo te sientes hoy.',
+  'diary.chartEmpty': 'Valora el dolor en dos o más días para ver la tendencia.',
+  'diary.trend': 'El dolor pasó de {from}/10 el {start} a {to}/10 el {end}',
+  'diary.worsening': 'Empeorando',
+  'diary.improving': 'Mejorando',
+  'diary.stable': 'Más o menos igual',
+  'diary.startTriage': 'Iniciar consulta de seguimiento',
+  'diary.link': 'Seguimiento de',
+  'diary.notLinked': 'No es un seguimiento',
+  'diary.linkHint': 'La valoración de dolor de hoy se añade al diario y la tendencia se comparte en esta consulta.',
+  'diary.close': 'Cerrar',
+  'header.photos': 'Cronología de fotos',
+  'photos.title': 'Cronología de fotos',
+  'photos.intro': 'Sigue una herida o sarpullido guardando fotos del mismo sitio a lo largo del tiempo. Las fotos se quedan en este dispositivo.',
+  'photos.empty': 'Aún no hay zonas del cuerpo.',
+  'photos.namePlaceholder': '¿Dónde está? p. ej. Antebrazo izquierdo',
+  'photos.create': 'Añadir zona',
+  'photos.back': 'Todas las zonas',
+  'photos.delete': 'Eliminar zona',
+  'photos.confirmDelete': '¿Eliminar "{name}" y todas sus fotos?',
+  'photos.add': 'Añadir foto',
+  'photos.addFailed': 'No se pudo añadir esta foto.',
+  'photos.removeFailed': 'No se pudo quitar esta foto.',
+  'photos.fileFailed': 'No se pudieron guardar estas fotos en la cronología. Inténtalo de nuevo.',
+  'photos.noPhotos': 'Aún no hay fotos. Haz cada una con buena luz y a la misma distancia.',
+  'photos.deletePhoto': 'Eliminar foto',
+  'photos.pickHint': 'Toca fotos de la cronología para elegir cuáles comparar.',
+  'photos.then': 'Antes',
+  'photos.now': 'Ahora',
+  'photos.sideBySide': 'Lado a lado',
+  'photos.slider': 'Deslizador',
+  'photos.ask': 'Preguntar por el cambio',
+  'photos.fileUnder': 'Guardar fotos en una cronología',
+  'photos.chooseSite': 'Elige una zona del cuerpo',
+  'photos.newSite': 'Nueva zona…',
+  'photos.save': 'Guardar',
+  'photos.saved': 'Guardada en la cronología',
+  'photos.close': 'Cerrar',
+  'quickReplies.title': 'Toca para responder',
+  'error.rateLimit': 'El servicio está saturado o ha alcanzado su límite de uso. Espera un minuto e inténtalo de nuevo.',
+  'error.invalidKey': 'Se rechazó la clave de API de la aplicación. Pide a quien la configuró que la revise.',
+  'error.safety': 'El servicio no quiso responder a esto. Prueba a describirlo de otra forma y, si te preocupa, contacta con un médico o con emergencias.',
+  'error.tooLarge': 'Las fotos o grabaciones son demasiado grandes para enviarlas. Prueba con una grabación más corta o menos fotos y empieza de nuevo.',
+  'error.empty': 'La respuesta llegó vacía. Inténtalo de nuevo.',
+  'error.unavailable': 'El servicio tiene problemas ahora mismo. Inténtalo de nuevo en un momento.',
+  'error.unknown': 'Algo salió mal. Inténtalo de nuevo.',
+  'error.retry': 'Reintentar',
+  'error.retrying': 'Fallo de conexión, reintentando…',
+  'context.size': 'Tamaño de la conversación: ~{tokens} tokens',
+  'context.compacted': 'Los mensajes anteriores ahora se resumen para que las respuestas sigan siendo rápidas',
+  'context.hint': 'Estimación aproximada de lo que el modelo lee en cada turno',
+  'promptProfile.title': 'Tipo de consulta',
+  'promptProfile.auto': 'Automático ({name})',
+  'promptProfile.general': 'General',
+  'promptProfile.pediatric': 'Infantil',
+  'promptProfile.elderly': 'Persona mayor',
+  'promptProfile.skin': 'Piel',
+  'promptProfile.mental-health': 'Bienestar emocional',
+  'promptProfile.usedBy': 'Indicaciones: {name}, versión {version}',
+  'chat.edit': 'Editar',
+  'chat.regenerate': 'Regenerar',
+  'chat.previousBranch': 'Versión anterior',
+  'chat.nextBranch': 'Versión siguiente',
+  'edit.title': 'Editar tu mensaje',
+  'edit.save': 'Guardar y reenviar',
+  'edit.cancel': 'Cancelar',
+  'edit.addPhoto': 'Añadir foto',
+  'emergency.title': 'Esto puede ser una emergencia',
+  'emergency.subtitle': 'Pide ayuda ahora. No esperes la respuesta de una IA.',
+  'emergency.call': 'Llamar al {number}',
+  'emergency.findRoom': 'Buscar la sala de urgencias más cercana',
+  'emergency.back': 'Volver y editar',
+  'emergency.continue': 'Estoy a salvo, continuar con la consulta',
+  'redFlag.chest-pain.reason': 'Dolor o presión en el pecho',
+  'redFlag.chest-pain.advice': 'El dolor de pecho puede ser señal de un infarto.',
+  'redFlag.breathing.reason': 'Dificultad para respirar',
+  'redFlag.breathing.advice': 'Si te cuesta respirar, necesitas ayuda de inmediato.',
+  'redFlag.heavy-bleeding.reason': 'Sangrado abundante',
+  'redFlag.heavy-bleeding.advice': 'Un sangrado que no se detiene necesita atención de urgencia.',
+  'redFlag.stroke-signs.reason': 'Posibles signos de ictus',
+  'redFlag.stroke-signs.advice': 'El habla arrastrada, la cara caída o una debilidad repentina en un lado pueden indicar un ictus. Cada minuto cuenta.',
+  'redFlag.unresponsive.reason': 'Desmayo, convulsión o no despierta',
+  'redFlag.unresponsive.advice': 'Alguien que se ha desmayado, tiene una convulsión o no se despierta necesita ayuda ya.',
+  'redFlag.allergic-reaction.reason': 'Reacción alérgica grave',
+  'redFlag.allergic-reaction.advice': 'La hinchazón de garganta, lengua o labios puede bloquear la respiración rápidamente.',
+  'redFlag.self-harm.reason': 'Pensamientos de suicidio o autolesión',
+  'redFlag.self-harm.advice': 'Mereces apoyo ahora mismo. Contacta con los servicios de emergencia o una línea de crisis.',
+  'redFlag.worst-headache.reason': 'Dolor de cabeza repentino y muy intenso',
+  'redFlag.worst-headache.advice': 'Un dolor de cabeza repentino, "el peor de tu vida", puede ser señal de un sangrado en el cerebro.',
+  'history.close': 'Cerrar',
+  'history.empty': 'Aún no hay nada guardado. Tus consultas se guardan solo en este dispositivo.',
+  'history.delete': 'Eliminar',
+  'history.privacy': 'Privacidad',
+  'history.keepForever': 'Guardar hasta que las elimine',
+  'history.deleteAfter': 'Eliminar después de {days} días',
+  'history.confirmClear': '¿Eliminar todas las consultas guardadas de este dispositivo?',
+  'history.deleteAll': 'Eliminar todo',
+  'export.title': 'Exportar',
+  'export.summary': 'Resumen para el médico',
+  'export.summaryHint': 'Imprimir o guardar como PDF',
+  'export.fhir': 'Registro clínico (FHIR)',
+  'export.fhirHint': 'Para importar en una historia clínica',
+  'export.failed': 'No se pudo crear el registro clínico.',
+  'bodyMap.title': '¿Dónde te duele?',
+  'bodyMap.front': 'Delante',
+  'bodyMap.back': 'Detrás',
+  'bodyMap.diagramFront': 'Diagrama del cuerpo, vista frontal',
+  'bodyMap.diagramBack': 'Diagrama del cuerpo, vista posterior',
+  'bodyMap.hint': 'Toca el cuerpo para marcar dónde lo sientes. Puedes elegir más de un sitio.',
+  'bodyMap.remove': 'Quitar',
+  'bodyMap.painNotRated': 'Dolor aquí: sin valorar',
+  'bodyMap.pain': 'Dolor aquí: {level}/10',
+  'sensation.sharp': 'punzante',
+  'sensation.dull': 'sordo',
+  'sensation.burning': 'ardor',
+  'sensation.throbbing': 'pulsátil',
+  'sensation.tingling': 'hormigueo',
+  'sensation.aching': 'molestia',
+  'bodyRegion.front-head': 'Cabeza / cara',
+  'bodyRegion.front-neck': 'Garganta / cuello',
+  'bodyRegion.front-right-shoulder': 'Hombro derecho',
+  'bodyRegion.front-left-shoulder': 'Hombro izquierdo',
+  'bodyRegion.front-chest': 'Pecho',
+  'bodyRegion.front-abdomen': 'Estómago / vientre',
+  'bodyRegion.front-pelvis': 'Ingle / pelvis',
+  'bodyRegion.front-right-arm': 'Brazo derecho',
+  'bodyRegion.front-left-arm': 'Brazo izquierdo',
+  'bodyRegion.front-right-hand': 'Mano / muñeca derecha',
+  'bodyRegion.front-left-hand': 'Mano / muñeca izquierda',
+  'bodyRegion.front-right-thigh': 'Muslo derecho',
+  'bodyRegion.front-left-thigh': 'Muslo izquierdo',
+  'bodyRegion.front-right-knee': 'Rodilla / espinilla derecha',
+  'bodyRegion.front-left-knee': 'Rodilla / espinilla izquierda',
+  'bodyRegion.front-right-foot': 'Pie / tobillo derecho',
+  'bodyRegion.front-left-foot': 'Pie / tobillo izquierdo',
+  'bodyRegion.back-head': 'Nuca',
+  'bodyRegion.back-neck': 'Parte posterior del cuello',
+  'bodyRegion.back-left-shoulder': 'Omóplato izquierdo',
+  'bodyRegion.back-right-shoulder': 'Omóplato derecho',
+  'bodyRegion.back-upper': 'Parte alta de la espalda',
+  'bodyRegion.back-lower': 'Parte baja de la espalda',
+  'bodyRegion.back-buttocks': 'Glúteos / coxis',
+  'bodyRegion.back-left-arm': 'Parte posterior del brazo / codo izquierdo',
+  'bodyRegion.back-right-arm': 'Parte posterior del brazo / codo derecho',
+  'bodyRegion.back-left-hamstring': 'Parte posterior del muslo izquierdo',
+  'bodyRegion.back-right-hamstring': 'Parte posterior del muslo derecho',
+  'bodyRegion.back-left-calf': 'Pantorrilla izquierda',
+  'bodyRegion.back-right-calf': 'Pantorrilla derecha',
+  'bodyRegion.back-left-heel': 'Talón izquierdo',
+  'bodyRegion.back-right-heel': 'Talón derecho',
+  'media.photoTooLarge': 'Esta foto ocupa {size}, es demasiado grande. Elige una de menos de {limit}.',
+  'media.videoTooLarge': 'Este vídeo ocupa {size}, supera el límite de {limit}. Graba un clip más corto.',
+  'media.voiceTooLarge': 'Esta nota de voz ocupa {size}, supera el límite de {limit}. Graba un clip más corto.',
+  'media.tooManyAttachments': 'Un mensaje admite hasta {limit} archivos adjuntos. Quita uno primero.',
+  'media.messageTooLarge': 'Estos adjuntos suman {size}, más del límite de {limit} por mensaje. Quita uno primero.',
+  'session.photoCheck': 'Consulta con foto',
+  'session.videoCheck': 'Consulta con vídeo',
+  'session.voiceCheck': 'Consulta con nota de voz',
+  'session.untitled': 'Consulta',
+  'summary.title': 'Resumen de la consulta de salud',
+  'summary.disclaimer': 'Este resumen se preparó con un asistente de salud con IA. No es un diagnóstico ni sustituye la exploración de un médico.',
+  'summary.started': 'Iniciada el {time}',
+  'summary.printed': 'Impresa el {time}',
+  'summary.aboutPatient': 'Sobre el paciente',
+  'summary.asEntered': 'Tal como lo indicó el paciente.',
+  'summary.diary': 'Diario de síntomas: {name}',
+  'summary.patientWords': 'En palabras del paciente',
+  'summary.noDescription': 'Sin descripción escrita.',
+  'summary.whereItHurts': 'Dónde duele:',
+  'summary.painLevels': 'Niveles de dolor',
+  'summary.noPain': 'No se indicó el nivel de dolor.',
+  'summary.time': 'Hora',
+  'summary.media': 'Fotos y grabaciones',
+  'summary.photoAlt': 'Foto compartida por el paciente',
+  'summary.videoRecording': 'Grabación de vídeo',
+  'summary.voiceRecording': 'Grabación de voz',
+  'summary.notPrinted': 'no se incluye al imprimir',
+  'summary.findings': 'Lo que observó el asistente',
+  'storage.blocked': 'Esta aplicación está abierta en otra pestaña con datos guardados antiguos. Cierra esa pestaña para terminar la actualización; después se cargará tu historial.'
+};
+
+const fr: Translations = {
+  'header.emergencyMap': 'Carte des urgences',
+  'header.history': 'Consultations précédentes',
+  'header.newSession': 'Nouvelle consultation',
+  'header.toggleTheme': 'Basculer mode clair/sombre',
+  'header.language': 'Langue',
+
+  'welcome.title': 'Comment puis-je vous aider ?',
+  'welcome.subtitle': 'Décrivez vos symptômes par la voix, en vidéo ou par écrit. Je vous aiderai à comprendre ce qui pourrait se passer.',
+
+  'intake.media': 'Audio, vidéo ou photo',
+  'intake.painCheck': 'Douleur',
+  'intake.details': 'Détails',
+  'intake.symptomsPlaceholder': 'Décrivez ce que vous ressentez...',
+  'intake.followUpPlaceholder': 'Posez une autre question...',
+  'intake.start': 'Commencer',
+  'intake.analyzing': 'Analyse en cours...',
+  'intake.removeAttachment': 'Retirer',
+
+  'pain.title': 'Intensité de la douleur',
+  'pain.notRated': 'Non évaluée',
+  'pain.none': 'Aucune douleur',
+  'pain.moderate': 'Modérée',
+  'pain.severe': 'Intense',
+  'pain.badge': 'Niveau de douleur : {level}/10',
+
+  'chat.analyzing': 'Analyse des symptômes...',
+  'chat.stop': 'Arrêter',
+  'chat.listen': 'Écouter',
+  'chat.interrupted': 'Interrompue, cette réponse est incomplète',
+  'chat.send': 'Envoyer',
+  'chat.connectionError': "J'ai du mal à me connecter pour le moment. Vérifiez votre connexion et réessayez.",
+
+  'report.safetyNote': "Je suis une IA, pas un médecin. Si vous pensez qu'il s'agit d'une urgence, appelez les secours immédiatement.",
+  'report.observations': "Ce que j'ai remarqué",
+  'report.possibleCauses': 'Ce que cela pourrait être',
+  'report.doctorQuestions': 'Questions pour le médecin',
+  'report.nextSteps': 'Prochaines étapes conseillées',
+  'urgency.emergency': "Demandez de l'aide maintenant",
+  'urgency.urgent': "Consultez aujourd'hui",
+  'urgency.see-doctor': 'Prenez rendez-vous chez le médecin',
+  'urgency.self-care': 'Soignez-vous à la maison',
+
+  'recorder.voice': 'Voix',
+  'recorder.speak': 'Parler',
+  'recorder.video': 'Vidéo',
+  'recorder.record': 'Filmer',
+  'recorder.photo': 'Photo',
+  'recorder.upload': 'Importer',
+  'recorder.permission': "Nous avons besoin d'accéder à votre caméra ou à votre micro pour vous voir ou vous entendre.",
+  'recorder.saveFailed': "Un problème est survenu lors de l'enregistrement. Veuillez réessayer.",
+  'recorder.photoFailed': "Nous n'avons pas pu lire cette photo. Essayez-en une autre.",
+  'recorder.transcriptLabel': 'Ce que vous avez dit (vous pouvez corriger les erreurs)',
+  'recorder.transcriptEmpty': "Aucun mot n'a été capté. Vous pouvez les écrire ici.",
+  'recorder.useBackCamera': 'Caméra arrière',
+  'recorder.useFrontCamera': 'Caméra avant',
+  'recorder.listening': 'Écoute en cours...',
+  'recorder.recording': 'Enregistrement',
+  'recorder.paused': 'En pause',
+  'recorder.ready': 'Prêt à commencer',
+  'recorder.review': 'Vérifiez votre enregistrement',
+  'recorder.autoStop': "S'arrête automatiquement à la limite",
+  'recorder.cancel': 'Annuler',
+  'recorder.start': "Démarrer l'enregistrement",
+  'recorder.stop': 'Arrêter',
+  'recorder.pause': 'Pause',
+  'recorder.resume': 'Reprendre',
+  'recorder.retake': 'Recommencer',
+  'recorder.keep': 'Garder',
+  'recorder.dismiss': 'Fermer',
+
+  'dictation.start': 'Dicter',
+  'dictation.stop': 'Arrêter la dictée',
+  'dictation.permission': "L'accès au micro est nécessaire pour la dictée.",
+  'dictation.failed': 'La dictée s’est arrêtée. Veuillez réessayer.',
+
+  'speech.play': 'Lire',
+  'speech.pause': 'Pause',
+  'speech.previous': 'Section précédente',
+  'speech.next': 'Section suivante',
+  'speech.settings': 'Voix et vitesse',
+  'speech.close': 'Fermer le lecteur',
+  'speech.voice': 'Voix',
+  'speech.automaticVoice': 'Automatique',
+  'speech.speed': 'Vitesse',
+
+  'sources.title': 'Sources',
+  'sources.maps': 'Google Maps',
+  'location.on': 'Votre position sert à suggérer des soins à proximité.',
+  'location.off': 'La localisation est désactivée. Les réponses ne citeront pas de lieux proches.',
+  'location.unavailable': "Impossible d'obtenir votre position, les réponses ne citeront donc pas de lieux proches.",
+  'location.turnOff': 'Désactiver',
+  'location.turnOn': 'Partager ma position',
+
+  'profile.title': 'À propos de vous',
+  'profile.edit': 'Modifier le profil',
+  'profile.add': 'Ajouter un profil santé',
+  'profile.emptyHint': "L'âge, les médicaments et les allergies aident à adapter les conseils. Enregistré uniquement sur cet appareil.",
+  'profile.shareHint': 'Les éléments cochés sont partagés pour cette consultation uniquement. Décochez ce que vous voulez garder privé.',
+  'profile.editorTitle': 'Votre profil santé',
+  'profile.privacy': 'Enregistré uniquement sur cet appareil. Avant chaque consultation, vous choisissez ce que vous partagez.',
+  'profile.age': 'Âge',
+  'profile.sex': 'Sexe',
+  'profile.notSaid': 'Je préfère ne pas répondre',
+  'profile.sex.female': 'Femme',
+  'profile.sex.male': 'Homme',
+  'profile.sex.other': 'Autre',
+  'profile.pregnant': 'Enceinte',
+  'profile.yes': 'Oui',
+  'profile.no': 'Non',
+  'profile.conditions': 'Maladies chroniques',
+  'profile.medications': 'Médicaments actuels',
+  'profile.allergies': 'Allergies',
+  'profile.listHint': 'Un par ligne',
+  'profile.save': 'Enregistrer',
+  'profile.cancel': 'Annuler',
+  'profile.clear': 'Effacer le profil',
+  'profile.shared': 'Profil partagé',
+
+  'profile.weight': 'Poids (kg)',
+  'profile.ageMonths': 'Âge en mois',
+  'profile.monthsValue': '{months} mois',
+  'profile.name': 'Prénom',
+  'profile.relationship': 'Qui est-ce ?',
+  'profile.editorTitleOther': 'Son profil santé',
+  'profile.titleFor': 'À propos de {name}',
+  'profile.confirmDelete': 'Retirer {name} et son profil de cet appareil ?',
+  'relationship.self': 'Moi',
+  'relationship.child': 'Mon enfant',
+  'relationship.parent': 'Mon parent',
+  'relationship.partner': 'Mon/ma partenaire',
+  'relationship.other': "Une personne dont je m'occupe",
+  'household.question': 'Pour qui est cette consultation ?',
+  'household.add': 'Ajouter une personne',
+  'household.delete': 'Retirer la personne',
+  'header.diary': 'Journal des symptômes',
+  'diary.title': 'Journal des symptômes',
+  'diary.intro': 'Suivez un problème sur plusieurs jours ou semaines. Les entrées restent sur cet appareil.',
+  'diary.empty': 'Aucun journal pour le moment.',
+  'diary.namePlaceholder': 'Que suivez-vous ? ex. Genou gauche',
+  'diary.create': 'Créer le journal',
+  'diary.back': 'Tous les journaux',
+  'diary.delete': 'Supprimer le journal',
+  'diary.confirmDelete': 'Supprimer le journal « {name} » et toutes ses entrées ?',
+  'diary.addEntry': 'Ajouter une entrée',
+  'diary.date': 'Date',
+  'diary.pain': 'Douleur',
+  'diary.symptoms': 'Symptômes',
+  'diary.notes': 'Notes',
+  'diary.save': "Enregistrer l'entrée",
+  'diary.deleteEntry': "Supprimer l'entrée",
+  'diary.noEntries': "Aucune entrée pour le moment. Notez comment ça va aujourd'hui.",
+  'diary.chartEmpty': 'Notez la douleur sur au moins deux jours pour voir une tendance.',
+  'diary.trend': 'La douleur est passée de {from}/10 le {start} à {to}/10 le {end}',
+  'diary.worsening': "S'aggrave",
+  'diary.improving': "S'améliore",
+  'diary.stable': 'À peu près pareil',
+  'diary.startTriage': 'Commencer un suivi',
+  'diary.link': 'Suivi de',
+  'diary.notLinked': 'Pas un suivi',
+  'diary.linkHint': 'La note de douleur du jour est ajoutée au journal et la tendance est partagée avec cette consultation.',
+  'diary.close': 'Fermer',
+  'header.photos': 'Chronologie photo',
+  'photos.title': 'Chronologie photo',
+  'photos.intro': 'Suivez une plaie ou une éruption en classant des photos du même endroit au fil du temps. Les photos restent sur cet appareil.',
+  'photos.empty': 'Aucune zone du corps pour le moment.',
+  'photos.namePlaceholder': 'Où est-ce ? ex. Avant-bras gauche',
+  'photos.create': 'Ajouter une zone',
+  'photos.back': 'Toutes les zones',
+  'photos.delete': 'Supprimer la zone',
+  'photos.confirmDelete': 'Supprimer « {name} » et toutes ses photos ?',
+  'photos.add': 'Ajouter une photo',
+  'photos.addFailed': "Impossible d'ajouter cette photo.",
+  'photos.removeFailed': 'Impossible de supprimer cette photo.',
+  'photos.fileFailed': 'Impossible d\'enregistrer ces photos dans la chronologie. Veuillez réessayer.',
+  'photos.noPhotos': 'Aucune photo pour le moment. Prenez-les avec une bonne lumière, à la même distance.',
+  'photos.deletePhoto': 'Supprimer la photo',
+  'photos.pickHint': 'Touchez des photos de la chronologie pour choisir les deux à comparer.',
+  'photos.then': 'Avant',
+  'photos.now': 'Maintenant',
+  'photos.sideBySide': 'Côte à côte',
+  'photos.slider': 'Curseur',
+  'photos.ask': 'Demander au sujet du changement',
+  'photos.fileUnder': 'Enregistrer les photos dans une chronologie',
+  'photos.chooseSite': 'Choisissez une zone du corps',
+  'photos.newSite': 'Nouvelle zone…',
+  'photos.save': 'Enregistrer',
+  'photos.saved': 'Enregistrée dans la chronologie',
+  'photos.close': 'Fermer',
+  'quickReplies.title': 'Touchez pour répondre',
+  'error.rateLimit': "Le service est saturé ou a atteint sa limite d'utilisation. Patientez une minute et réessayez.",
+  'error.invalidKey': "La clé d'API de l'application a été refusée. Demandez à la personne qui l'a configurée de la vérifier.",
+  'error.safety': 'Le service a refusé de répondre. Essayez de le décrire autrement et, si vous êtes inquiet, contactez un médecin ou les urgences.',
+  'error.tooLarge': 'Les photos ou enregistrements sont trop volumineux. Essayez un enregistrement plus court ou moins de photos, puis recommencez.',
+  'error.empty': 'La réponse est vide. Veuillez réessayer.',
+  'error.unavailable': 'Le service rencontre des problèmes. Réessayez dans un instant.',
+  'error.unknown': "Une erreur s'est produite. Veuillez réessayer.",
+  'error.retry': 'Réessayer',
+  'error.retrying': 'Problème de connexion, nouvel essai…',
+  'context.size': 'Taille de la conversation : ~{tokens} jetons',
+  'context.compacted': 'Les messages plus anciens sont désormais résumés pour garder des réponses rapides',
+  'context.hint': 'Estimation approximative de ce que le modèle lit à chaque tour',
+  'promptProfile.title': 'Type de bilan',
+  'promptProfile.auto': 'Automatique ({name})',
+  'promptProfile.general': 'Général',
+  'promptProfile.pediatric': 'Enfant',
+  'promptProfile.elderly': 'Personne âgée',
+  'promptProfile.skin': 'Peau',
+  'promptProfile.mental-health': 'Bien-être mental',
+  'promptProfile.usedBy': 'Consignes : {name}, version {version}',
+  'chat.edit': 'Modifier',
+  'chat.regenerate': 'Régénérer',
+  'chat.previousBranch': 'Version précédente',
+  'chat.nextBranch': 'Version suivante',
+  'edit.title': 'Modifier votre message',
+  'edit.save': 'Enregistrer et renvoyer',
+  'edit.cancel': 'Annuler',
+  'edit.addPhoto': 'Ajouter une photo',
+  'emergency.title': 'Il peut s\'agir d\'une urgence',
+  'emergency.subtitle': 'Demandez de l\'aide maintenant. N\'attendez pas la réponse d\'une IA.',
+  'emergency.call': 'Appeler le {number}',
+  'emergency.findRoom': 'Trouver les urgences les plus proches',
+  'emergency.back': 'Revenir et modifier',
+  'emergency.continue': 'Je suis en sécurité, continuer la consultation',
+  'redFlag.chest-pain.reason': 'Douleur ou oppression dans la poitrine',
+  'redFlag.chest-pain.advice': 'Une douleur thoracique peut être le signe d\'une crise cardiaque.',
+  'redFlag.breathing.reason': 'Difficulté à respirer',
+  'redFlag.breathing.advice': 'Avoir du mal à respirer nécessite une aide immédiate.',
+  'redFlag.heavy-bleeding.reason': 'Saignement abondant',
+  'redFlag.heavy-bleeding.advice': 'Un saignement qui ne s\'arrête pas nécessite des soins d\'urgence.',
+  'redFlag.stroke-signs.reason': 'Signes possibles d\'AVC',
+  'redFlag.stroke-signs.advice': 'Des difficultés à parler, un visage affaissé ou une faiblesse soudaine d\'un côté peuvent signaler un AVC. Chaque minute compte.',
+  'redFlag.unresponsive.reason': 'Évanouissement, convulsions ou ne se réveille pas',
+  'redFlag.unresponsive.advice': 'Une personne évanouie, en train de convulser ou impossible à réveiller a besoin d\'aide maintenant.',
+  'redFlag.allergic-reaction.reason': 'Réaction allergique grave',
+  'redFlag.allergic-reaction.advice': 'Un gonflement de la gorge, de la langue ou des lèvres peut vite bloquer la respiration.',
+  'redFlag.self-harm.reason': 'Pensées suicidaires ou d\'automutilation',
+  'redFlag.self-harm.advice': 'Vous méritez du soutien dès maintenant. Contactez les secours ou une ligne d\'écoute.',
+  'redFlag.worst-headache.reason': 'Mal de tête soudain et très violent',
+  'redFlag.worst-headache.advice': 'Un mal de tête soudain, « le pire de votre vie », peut être le signe d\'un saignement dans le cerveau.',
+  'history.close': 'Fermer',
+  'history.empty': 'Rien n\'est encore enregistré. Vos consultations restent uniquement sur cet appareil.',
+  'history.delete': 'Supprimer',
+  'history.privacy': 'Confidentialité',
+  'history.keepForever': 'Conserver jusqu\'à ce que je les supprime',
+  'history.deleteAfter': 'Supprimer après {days} jours',
+  'history.confirmClear': 'Supprimer toutes les consultations enregistrées sur cet appareil ?',
+  'history.deleteAll': 'Tout supprimer',
+  'export.title': 'Exporter',
+  'export.summary': 'Résumé pour un médecin',
+  'export.summaryHint': 'Imprimer ou enregistrer en PDF',
+  'export.fhir': 'Dossier clinique (FHIR)',
+  'export.fhirHint': 'Pour l\'importer dans un dossier de santé',
+  'export.failed': 'Impossible de créer le dossier clinique.',
+  'bodyMap.title': 'Où avez-vous mal ?',
+  'bodyMap.front': 'Face',
+  'bodyMap.back': 'Dos',
+  'bodyMap.diagramFront': 'Schéma du corps, vue de face',
+  'bodyMap.diagramBack': 'Schéma du corps, vue de dos',
+  'bodyMap.hint': 'Touchez le corps pour indiquer où vous le ressentez. Vous pouvez choisir plusieurs endroits.',
+  'bodyMap.remove': 'Retirer',
+  'bodyMap.painNotRated': 'Douleur ici : non évaluée',
+  'bodyMap.pain': 'Douleur ici : {level}/10',
+  'sensation.sharp': 'vive',
+  'sensation.dull': 'sourde',
+  'sensation.burning': 'brûlure',
+  'sensation.throbbing': 'pulsatile',
+  'sensation.tingling': 'picotements',
+  'sensation.aching': 'courbature',
+  'bodyRegion.front-head': 'Tête / visage',
+  'bodyRegion.front-neck': 'Gorge / cou',
+  'bodyRegion.front-right-shoulder': 'Épaule droite',
+  'bodyRegion.front-left-shoulder': 'Épaule gauche',
+  'bodyRegion.front-chest': 'Poitrine',
+  'bodyRegion.front-abdomen': 'Estomac / ventre',
+  'bodyRegion.front-pelvis': 'Aine / bassin',
+  'bodyRegion.front-right-arm': 'Bras droit',
+  'bodyRegion.front-left-arm': 'Bras gauche',
+  'bodyRegion.front-right-hand': 'Main / poignet droit',
+  'bodyRegion.front-left-hand': 'Main / poignet gauche',
+  'bodyRegion.front-right-thigh': 'Cuisse droite',
+  'bodyRegion.front-left-thigh': 'Cuisse gauche',
+  'bodyRegion.front-right-knee': 'Genou / tibia droit',
+  'bodyRegion.front-left-knee': 'Genou / tibia gauche',
+  'bodyRegion.front-right-foot': 'Pied / cheville droite',
+  'bodyRegion.front-left-foot': 'Pied / cheville gauche',
+  'bodyRegion.back-head': 'Arrière de la tête',
+  'bodyRegion.back-neck': 'Nuque',
+  'bodyRegion.back-left-shoulder': 'Omoplate gauche',
+  'bodyRegion.back-right-shoulder': 'Omoplate droite',
+  'bodyRegion.back-upper': 'Haut du dos',
+  'bodyRegion.back-lower': 'Bas du dos',
+  'bodyRegion.back-buttocks': 'Fesses / coccyx',
+  'bodyRegion.back-left-arm': 'Arrière du bras / coude gauche',
+  'bodyRegion.back-right-arm': 'Arrière du bras / coude droit',
+  'bodyRegion.back-left-hamstring': 'Arrière de la cuisse gauche',
+  'bodyRegion.back-right-hamstring': 'Arrière de la cuisse droite',
+  'bodyRegion.back-left-calf': 'Mollet gauche',
+  'bodyRegion.back-right-calf': 'Mollet droit',
+  'bodyRegion.back-left-heel': 'Talon gauche',
+  'bodyRegion.back-right-heel': 'Talon droit',
+  'media.photoTooLarge': 'Cette photo fait {size}, c\'est trop lourd. Choisissez-en une de moins de {limit}.',
+  'media.videoTooLarge': 'Cette vidéo fait {size}, au-delà de la limite de {limit}. Enregistrez un clip plus court.',
+  'media.voiceTooLarge': 'Ce message vocal fait {size}, au-delà de la limite de {limit}. Enregistrez un clip plus court.',
+  'media.tooManyAttachments': 'Un message peut contenir jusqu\'à {limit} pièces jointes. Retirez-en une d\'abord.',
+  'media.messageTooLarge': 'Ces pièces jointes font {size} au total, au-delà de la limite de {limit} par message. Retirez-en une d\'abord.',
+  'session.photoCheck': 'Consultation photo',
+  'session.videoCheck': 'Consultation vidéo',
+  'session.voiceCheck': 'Consultation par message vocal',
+  'session.untitled': 'Consultation',
+  'summary.title': 'Résumé de l\'évaluation de santé',
+  'summary.disclaimer': 'Ce résumé a été préparé avec un assistant santé basé sur l\'IA. Ce n\'est pas un diagnostic et il ne remplace pas l\'examen d\'un médecin.',
+  'summary.started': 'Commencée le {time}',
+  'summary.printed': 'Imprimée le {time}',
+  'summary.aboutPatient': 'À propos du patient',
+  'summary.asEntered': 'Tel que saisi par le patient.',
+  'summary.diary': 'Journal des symptômes : {name}',
+  'summary.patientWords': 'Dans les mots du patient',
+  'summary.noDescription': 'Aucune description écrite.',
+  'summary.whereItHurts': 'Où ça fait mal :',
+  'summary.painLevels': 'Niveaux de douleur',
+  'summary.noPain': 'Aucune note de douleur n\'a été donnée.',
+  'summary.time': 'Heure',
+  'summary.media': 'Photos et enregistrements',
+  'summary.photoAlt': 'Photo partagée par le patient',
+  'summary.videoRecording': 'Enregistrement vidéo',
+  'summary.voiceRecording': 'Enregistrement vocal',
+  'summary.notPrinted': 'non inclus à l\'impression',
+  'summary.findings': 'Ce que l\'assistant a remarqué',
+  'storage.blocked': 'Cette application est ouverte dans un autre onglet avec d\'anciennes données. Fermez cet onglet pour terminer la mise à jour ; votre historique se chargera ensuite.'
+};
+
+const pt: Translations = {
+  'header.emergencyMap': 'Mapa de emergência',
+  'header.history': 'Consultas anteriores',
+  'header.newSession': 'Nova consulta',
+  'header.toggleTheme': 'Alternar modo claro/escuro',
+  'header.language': 'Idioma',
+
+  'welcome.title': 'Como posso ajudar?',
+  'welcome.subtitle': 'Descreva seus sintomas por voz, vídeo ou texto. Vou ajudar você a entender o que pode estar acontecendo.',
+
+  'intake.media': 'Áudio, vídeo ou foto',
+  'intake.painCheck': 'Dor',
+  'intake.details': 'Detalhes',
+  'intake.symptomsPlaceholder': 'Descreva o que você está sentindo...',
+  'intake.followUpPlaceholder': 'Faça outra pergunta...',
+  'intake.start': 'Começar',
+  'intake.analyzing': 'Analisando...',
+  'intake.removeAttachment': 'Remover',
+
+  'pain.title': 'Intensidade da dor',
+  'pain.notRated': 'Sem avaliação',
+  'pain.none': 'Sem dor',
+  'pain.moderate': 'Moderada',
+  'pain.severe': 'Forte',
+  'pain.badge': 'Nível de dor: {level}/10',
+
+  'chat.analyzing': 'Analisando sintomas...',
+  'chat.stop': 'Parar',
+  'chat.listen': 'Ouvir',
+  'chat.interrupted': 'Interrompida, esta resposta está incompleta',
+  'chat.send': 'Enviar',
+  'chat.connectionError': 'Estou com problemas de conexão agora. Verifique sua conexão e tente novamente.',
+
+  'report.safetyNote': 'Sou uma IA, não um médico. Se você acha que é uma emergência, peça ajuda imediatamente.',
+  'report.observations': 'O que eu notei',
+  'report.possibleCauses': 'O que pode ser',
+  'report.doctorQuestions': 'Perguntas para o médico',
+  'report.nextSteps': 'Próximos passos recomendados',
+  'urgency.emergency': 'Peça ajuda agora',
+  'urgency.urgent': 'Procure atendimento hoje',
+  'urgency.see-doctor': 'Marque uma consulta',
+  'urgency.self-care': 'Cuide-se em casa',
+
+  'recorder.voice': 'Voz',
+  'recorder.speak': 'Falar',
+  'recorder.video': 'Vídeo',
+  'recorder.record': 'Gravar',
+  'recorder.photo': 'Foto',
+  'recorder.upload': 'Enviar',
+  'recorder.permission': 'Precisamos de permissão para usar sua câmera ou microfone para ver ou ouvir você.',
+  'recorder.saveFailed': 'Algo deu errado ao salvar a gravação. Tente novamente.',
+  'recorder.photoFailed': 'Não conseguimos ler essa foto. Tente outra.',
+  'recorder.transcriptLabel': 'O que você disse (você pode corrigir erros)',
+  'recorder.transcriptEmpty': 'Nenhuma palavra foi captada. Você pode digitá-las aqui.',
+  'recorder.useBackCamera': 'Usar câmera traseira',
+  'recorder.useFrontCamera': 'Usar câmera frontal',
+  'recorder.listening': 'Ouvindo...',
+  'recorder.recording': 'Gravando',
+  'recorder.paused': 'Pausado',
+  'recorder.ready': 'Pronto para começar',
+  'recorder.review': 'Confira sua gravação',
+  'recorder.autoStop': 'Para automaticamente no limite',
+  'recorder.cancel': 'Cancelar',
+  'recorder.start': 'Começar a gravar',
+  'recorder.stop': 'Parar',
+  'recorder.pause': 'Pausar',
+  'recorder.resume': 'Continuar',
+  'recorder.retake': 'Refazer',
+  'recorder.keep': 'Manter',
+  'recorder.dismiss': 'Fechar',
+
+  'dictation.start': 'Ditar',
+  'dictation.stop': 'Parar de ditar',
+  'dictation.permission': 'É preciso permitir o microfone para ditar.',
+  'dictation.failed': 'O ditado parou. Tente novamente.',
+
+  'speech.play': 'Reproduzir',
+  'speech.pause': 'Pausar',
+  'speech.previous': 'Seção anterior',
+  'speech.next': 'Próxima seção',
+  'speech.settings': 'Voz e velocidade',
+  'speech.close': 'Fechar player',
+  'speech.voice': 'Voz',
+  'speech.automaticVoice': 'Automática',
+  'speech.speed': 'Velocidade',
+
+  'sources.title': 'Fontes',
+  'sources.maps': 'Google Maps',
+  'location.on': 'Sua localização é usada para sugerir atendimento por perto.',
+  'location.off': 'A localização está desativada. As respostas não vão citar locais próximos.',
+  'location.unavailable': 'Não conseguimos obter sua localização, então as respostas não vão citar locais próximos.',
+  'location.turnOff': 'Desativar',
+  'location.turnOn': 'Compartilhar localização',
+
+  'profile.title': 'Sobre você',
+  'profile.edit': 'Editar perfil',
+  'profile.add': 'Adicionar perfil de saúde',
+  'profile.emptyHint': 'Idade, remédios e alergias ajudam a adaptar as orientações. Salvo apenas neste dispositivo.',
+  'profile.shareHint': 'Os itens marcados são compartilhados só nesta consulta. Desmarque o que quiser manter privado.',
+  'profile.editorTitle': 'Seu perfil de saúde',
+  'profile.privacy': 'Salvo apenas neste dispositivo. Antes de cada consulta você escolhe o que compartilhar.',
+  'profile.age': 'Idade',
+  'profile.sex': 'Sexo',
+  'profile.notSaid': 'Prefiro não dizer',
+  'profile.sex.female': 'Feminino',
+  'profile.sex.male': 'Masculino',
+  'profile.sex.other': 'Outro',
+  'profile.pregnant': 'Grávida',
+  'profile.yes': 'Sim',
+  'profile.no': 'Não',
+  'profile.conditions': 'Doenças crônicas',
+  'profile.medications': 'Medicamentos atuais',
+  'profile.allergies': 'Alergias',
+  'profile.listHint': 'Um por linha',
+  'profile.save': 'Salvar',
+  'profile.cancel': 'Cancelar',
+  'profile.clear': 'Apagar perfil',
+  'profile.shared': 'Perfil compartilhado',
+
+  'profile.weight': 'Peso (kg)',
+  'profile.ageMonths': 'Idade em meses',
+  'profile.monthsValue': '{months} meses',
+  'profile.name': 'Nome',
+  'profile.relationship': 'Quem é?',
+  'profile.editorTitleOther': 'Perfil de saúde',
+  'profile.titleFor': 'Sobre {name}',
+  'profile.confirmDelete': 'Remover {name} e o perfil deste dispositivo?',
+  'relationship.self': 'Eu',
+  'relationship.child': 'Meu filho ou filha',
+  'relationship.parent': 'Meu pai ou mãe',
+  'relationship.partner': 'Meu parceiro ou parceira',
+  'relationship.other': 'Alguém de quem cuido',
+  'household.question': 'Para quem é a consulta?',
+  'household.add': 'Adicionar pessoa',
+  'household.delete': 'Remover pessoa',
+  'header.diary': 'Diário de sintomas',
+  'diary.title': 'Diário de sintomas',
+  'diary.intro': 'Acompanhe um problema durante dias ou semanas. As entradas ficam neste dispositivo.',
+  'diary.empty': 'Ainda não há diários.',
+  'diary.namePlaceholder': 'O que está acompanhando? ex. Joelho esquerdo',
+  'diary.create': 'Criar diário',
+  'diary.back': 'Todos os diários',
+  'diary.delete': 'Excluir diário',
+  'diary.confirmDelete': 'Excluir o diário "{name}" e todas as entradas?',
+  'diary.addEntry': 'Adicionar entrada',
+  'diary.date': 'Data',
+  'diary.pain': 'Dor',
+  'diary.symptoms': 'Sintomas',
+  'diary.notes': 'Notas',
+  'diary.save': 'Salvar entrada',
+  'diary.deleteEntry': 'Excluir entrada',
+  'diary.noEntries': 'Ainda não há entradas. Anote como se sente hoje.',
+  'diary.chartEmpty': 'Avalie a dor em dois ou mais dias para ver a tendência.',
+  'diary.trend': 'A dor passou de {from}/10 em {start} para {to}/10 em {end}',
+  'diary.worsening': 'Piorando',
+  'diary.improving': 'Melhorando',
+  'diary.stable': 'Mais ou menos igual',
+  'diary.startTriage': 'Iniciar consulta de acompanhamento',
+  'diary.link': 'Acompanhamento de',
+  'diary.notLinked': 'Não é um acompanhamento',
+  'diary.linkHint': 'A avaliação de dor de hoje é adicionada ao diário e a tendência é compartilhada nesta consulta.',
+  'diary.close': 'Fechar',
+  'header.photos': 'Linha do tempo de fotos',
+  'photos.title': 'Linha do tempo de fotos',
+  'photos.intro': 'Acompanhe uma ferida ou erupção guardando fotos do mesmo local ao longo do tempo. As fotos ficam neste dispositivo.',
+  'photos.empty': 'Ainda não há áreas do corpo.',
+  'photos.namePlaceholder': 'Onde é? ex. Antebraço esquerdo',
+  'photos.create': 'Adicionar área',
+  'photos.back': 'Todas as áreas',
+  'photos.delete': 'Excluir área',
+  'photos.confirmDelete': 'Excluir "{name}" e todas as fotos?',
+  'photos.add': 'Adicionar foto',
+  'photos.addFailed': 'Não foi possível adicionar esta foto.',
+  'photos.removeFailed': 'Não foi possível remover esta foto.',
+  'photos.fileFailed': 'Não foi possível salvar estas fotos na linha do tempo. Tente novamente.',
+  'photos.noPhotos': 'Ainda não há fotos. Tire cada uma com boa luz e à mesma distância.',
+  'photos.deletePhoto': 'Excluir foto',
+  'photos.pickHint': 'Toque em fotos da linha do tempo para escolher quais comparar.',
+  'photos.then': 'Antes',
+  'photos.now': 'Agora',
+  'photos.sideBySide': 'Lado a lado',
+  'photos.slider': 'Controle deslizante',
+  'photos.ask': 'Perguntar sobre a mudança',
+  'photos.fileUnder': 'Salvar fotos numa linha do tempo',
+  'photos.chooseSite': 'Escolha uma área do corpo',
+  'photos.newSite': 'Nova área…',
+  'photos.save': 'Salvar',
+  'photos.saved': 'Salva na linha do tempo',
+  'photos.close': 'Fechar',
+  'quickReplies.title': 'Toque para responder',
+  'error.rateLimit': 'O serviço está ocupado ou atingiu o limite de uso. Aguarde um minuto e tente novamente.',
+  'error.invalidKey': 'A chave de API do aplicativo foi recusada. Peça a quem configurou o aplicativo para verificá-la.',
+  'error.safety': 'O serviço não quis responder a isto. Tente descrever de outra forma e, se estiver preocupado, procure um médico ou os serviços de emergência.',
+  'error.tooLarge': 'As fotos ou gravações são grandes demais para enviar. Tente uma gravação mais curta ou menos fotos e comece de novo.',
+  'error.empty': 'A resposta veio vazia. Tente novamente.',
+  'error.unavailable': 'O serviço está com problemas agora. Tente novamente em instantes.',
+  'error.unknown': 'Algo deu errado. Tente novamente.',
+  'error.retry': 'Tentar novamente',
+  'error.retrying': 'Falha na conexão, tentando novamente…',
+  'context.size': 'Tamanho da conversa: ~{tokens} tokens',
+  'context.compacted': 'As mensagens mais antigas agora são resumidas para manter as respostas rápidas',
+  'context.hint': 'Estimativa aproximada do que o modelo lê a cada vez',
+  'promptProfile.title': 'Tipo de avaliação',
+  'promptProfile.auto': 'Automático ({name})',
+  'promptProfile.general': 'Geral',
+  'promptProfile.pediatric': 'Criança',
+  'promptProfile.elderly': 'Pessoa idosa',
+  'promptProfile.skin': 'Pele',
+  'promptProfile.mental-health': 'Saúde mental',
+  'promptProfile.usedBy': 'Instruções: {name}, versão {version}',
+  'chat.edit': 'Editar',
+  'chat.regenerate': 'Gerar novamente',
+  'chat.previousBranch': 'Versão anterior',
+  'chat.nextBranch': 'Próxima versão',
+  'edit.title': 'Editar sua mensagem',
+  'edit.save': 'Salvar e reenviar',
+  'edit.cancel': 'Cancelar',
+  'edit.addPhoto': 'Adicionar foto',
+  'emergency.title': 'Isto pode ser uma emergência',
+  'emergency.subtitle': 'Peça ajuda agora. Não espere pela resposta de uma IA.',
+  'emergency.call': 'Ligar para {number}',
+  'emergency.findRoom': 'Encontrar o pronto-socorro mais próximo',
+  'emergency.back': 'Voltar e editar',
+  'emergency.continue': 'Estou seguro, continuar a avaliação',
+  'redFlag.chest-pain.reason': 'Dor ou pressão no peito',
+  'redFlag.chest-pain.advice': 'Dor no peito pode ser sinal de um ataque cardíaco.',
+  'redFlag.breathing.reason': 'Dificuldade para respirar',
+  'redFlag.breathing.advice': 'Dificuldade para respirar precisa de ajuda imediata.',
+  'redFlag.heavy-bleeding.reason': 'Sangramento intenso',
+  'redFlag.heavy-bleeding.advice': 'Um sangramento que não para precisa de atendimento de emergência.',
+  'redFlag.stroke-signs.reason': 'Possíveis sinais de AVC',
+  'redFlag.stroke-signs.advice': 'Fala arrastada, rosto caído ou fraqueza repentina de um lado podem indicar um AVC. Cada minuto conta.',
+  'redFlag.unresponsive.reason': 'Desmaio, convulsão ou não acorda',
+  'redFlag.unresponsive.advice': 'Alguém que desmaiou, está tendo uma convulsão ou não acorda precisa de ajuda agora.',
+  'redFlag.allergic-reaction.reason': 'Reação alérgica grave',
+  'redFlag.allergic-reaction.advice': 'Inchaço na garganta, língua ou lábios pode bloquear a respiração rapidamente.',
+  'redFlag.self-harm.reason': 'Pensamentos de suicídio ou autolesão',
+  'redFlag.self-harm.advice': 'Você merece apoio agora. Procure os serviços de emergência ou uma linha de apoio.',
+  'redFlag.worst-headache.reason': 'Dor de cabeça repentina e muito forte',
+  'redFlag.worst-headache.advice': 'Uma dor de cabeça repentina, "a pior da vida", pode ser sinal de sangramento no cérebro.',
+  'history.close': 'Fechar',
+  'history.empty': 'Nada salvo ainda. Suas consultas ficam apenas neste dispositivo.',
+  'history.delete': 'Excluir',
+  'history.privacy': 'Privacidade',
+  'history.keepForever': 'Manter até eu excluir',
+  'history.deleteAfter': 'Excluir após {days} dias',
+  'history.confirmClear': 'Excluir todas as consultas salvas deste dispositivo?',
+  'history.deleteAll': 'Excluir tudo',
+  'export.title': 'Exportar',
+  'export.summary': 'Resumo para o médico',
+  'export.summaryHint': 'Imprimir ou salvar como PDF',
+  'export.fhir': 'Registro clínico (FHIR)',
+  'export.fhirHint': 'Para importar em um prontuário',
+  'export.failed': 'Não foi possível criar o registro clínico.',
+  'bodyMap.title': 'Onde dói?',
+  'bodyMap.front': 'Frente',
+  'bodyMap.back': 'Costas',
+  'bodyMap.diagramFront': 'Diagrama do corpo, vista frontal',
+  'bodyMap.diagramBack': 'Diagrama do corpo, vista de costas',
+  'bodyMap.hint': 'Toque no corpo para marcar onde sente. Você pode escolher mais de um lugar.',
+  'bodyMap.remove': 'Remover',
+  'bodyMap.painNotRated': 'Dor aqui: sem nota',
+  'bodyMap.pain': 'Dor aqui: {level}/10',
+  'sensation.sharp': 'aguda',
+  'sensation.dull': 'surda',
+  'sensation.burning': 'queimação',
+  'sensation.throbbing': 'latejante',
+  'sensation.tingling': 'formigamento',
+  'sensation.aching': 'dolorida',
+  'bodyRegion.front-head': 'Cabeça / rosto',
+  'bodyRegion.front-neck': 'Garganta / pescoço',
+  'bodyRegion.front-right-shoulder': 'Ombro direito',
+  'bodyRegion.front-left-shoulder': 'Ombro esquerdo',
+  'bodyRegion.front-chest': 'Peito',
+  'bodyRegion.front-abdomen': 'Estômago / barriga',
+  'bodyRegion.front-pelvis': 'Virilha / pelve',
+  'bodyRegion.front-right-arm': 'Braço direito',
+  'bodyRegion.front-left-arm': 'Braço esquerdo',
+  'bodyRegion.front-right-hand': 'Mão / pulso direito',
+  'bodyRegion.front-left-hand': 'Mão / pulso esquerdo',
+  'bodyRegion.front-right-thigh': 'Coxa direita',
+  'bodyRegion.front-left-thigh': 'Coxa esquerda',
+  'bodyRegion.front-right-knee': 'Joelho / canela direita',
+  'bodyRegion.front-left-knee': 'Joelho / canela esquerda',
+  'bodyRegion.front-right-foot': 'Pé / tornozelo direito',
+  'bodyRegion.front-left-foot': 'Pé / tornozelo esquerdo',
+  'bodyRegion.back-head': 'Parte de trás da cabeça',
+  'bodyRegion.back-neck': 'Nuca',
+  'bodyRegion.back-left-shoulder': 'Omoplata esquerda',
+  'bodyRegion.back-right-shoulder': 'Omoplata direita',
+  'bodyRegion.back-upper': 'Parte superior das costas',
+  'bodyRegion.back-lower': 'Lombar',
+  'bodyRegion.back-buttocks': 'Nádegas / cóccix',
+  'bodyRegion.back-left-arm': 'Parte de trás do braço / cotovelo esquerdo',
+  'bodyRegion.back-right-arm': 'Parte de trás do braço / cotovelo direito',
+  'bodyRegion.back-left-hamstring': 'Parte de trás da coxa esquerda',
+  'bodyRegion.back-right-hamstring': 'Parte de trás da coxa direita',
+  'bodyRegion.back-left-calf': 'Panturrilha esquerda',
+  'bodyRegion.back-right-calf': 'Panturrilha direita',
+  'bodyRegion.back-left-heel': 'Calcanhar esquerdo',
+  'bodyRegion.back-right-heel': 'Calcanhar direito',
+  'media.photoTooLarge': 'Esta foto tem {size}, é grande demais. Escolha uma com menos de {limit}.',
+  'media.videoTooLarge': 'Este vídeo tem {size}, acima do limite de {limit}. Grave um clipe mais curto.',
+  'media.voiceTooLarge': 'Esta mensagem de voz tem {size}, acima do limite de {limit}. Grave um clipe mais curto.',
+  'media.tooManyAttachments': 'Uma mensagem pode ter até {limit} anexos. Remova um primeiro.',
+  'media.messageTooLarge': 'Estes anexos somam {size}, acima do limite de {limit} por mensagem. Remova um primeiro.',
+  'session.photoCheck': 'Consulta com foto',
+  'session.videoCheck': 'Consulta com vídeo',
+  'session.voiceCheck': 'Consulta com mensagem de voz',
+  'session.untitled': 'Consulta',
+  'summary.title': 'Resumo da triagem de saúde',
+  'summary.disclaimer': 'Este resumo foi preparado com um assistente de saúde com IA. Não é um diagnóstico e não substitui o exame de um médico.',
+  'summary.started': 'Iniciada em {time}',
+  'summary.printed': 'Impressa em {time}',
+  'summary.aboutPatient': 'Sobre o paciente',
+  'summary.asEntered': 'Conforme informado pelo paciente.',
+  'summary.diary': 'Diário de sintomas: {name}',
+  'summary.patientWords': 'Nas palavras do paciente',
+  'summary.noDescription': 'Sem descrição escrita.',
+  'summary.whereItHurts': 'Onde dói:',
+  'summary.painLevels': 'Níveis de dor',
+  'summary.noPain': 'Nenhuma nota de dor foi informada.',
+  'summary.time': 'Hora',
+  'summary.media': 'Fotos e gravações',
+  'summary.photoAlt': 'Foto enviada pelo paciente',
+  'summary.videoRecording': 'Gravação de vídeo',
+  'summary.voiceRecording': 'Gravação de voz',
+  'summary.notPrinted': 'não incluído na impressão',
+  'summary.findings': 'O que o assistente notou',
+  'storage.blocked': 'Este app está aberto em outra aba com dados salvos antigos. Feche essa aba para concluir a atualização; seu histórico será carregado em seguida.'
+};
+
+const ar: Translations = {
+  'header.emergencyMap': 'خريطة الطوارئ',
+  'header.history': 'الاستشارات السابقة',
+  'header.newSession': 'استشارة جديدة',
+  'header.toggleTheme': 'تبديل الوضع الفاتح/الداكن',
+  'header.language': 'اللغة',
+
+  'welcome.title': 'كيف يمكنني مساعدتك؟',
+  'welcome.subtitle': 'صف أعراضك بالصوت أو الفيديو أو الكتابة، وسأساعدك على فهم ما قد يكون السبب.',
+
+  'intake.media': 'صوت أو فيديو أو صورة',
+  'intake.painCheck': 'الألم',
+  'intake.details': 'التفاصيل',
+  'intake.symptomsPlaceholder': 'صف ما تشعر به...',
+  'intake.followUpPlaceholder': 'اطرح سؤالًا آخر...',
+  'intake.start': 'ابدأ',
+  'intake.analyzing': 'جارٍ التحليل...',
+  'intake.removeAttachment': 'إزالة',
+
+  'pain.title': 'شدة الألم',
+  'pain.notRated': 'بدون تقييم',
+  'pain.none': 'لا ألم',
+  'pain.moderate': 'متوسط',
+  'pain.severe': 'شديد',
+  'pain.badge': 'مستوى الألم: {level}/10',
+
+  'chat.analyzing': 'جارٍ تحليل الأعراض...',
+  'chat.stop': 'إيقاف',
+  'chat.listen': 'استمع',
+  'chat.interrupted': 'تم الإيقاف، هذه الإجابة غير مكتملة',
+  'chat.send': 'إرسال',
+  'chat.connectionError': 'أواجه مشكلة في الاتصال الآن. يرجى التحقق من اتصالك والمحاولة مرة أخرى.',
+
+  'report.safetyNote': 'أنا ذكاء اصطناعي ولست طبيبًا. إذا شعرت أنها حالة طارئة، اطلب المساعدة فورًا.',
+  'report.observations': 'ما لاحظته',
+  'report.possibleCauses': 'ما قد يكون السبب',
+  'report.doctorQuestions': 'أسئلة للطبيب',
+  'report.nextSteps': 'الخطوات التالية المقترحة',
+  'urgency.emergency': 'اطلب المساعدة الآن',
+  'urgency.urgent': 'راجع أحدًا اليوم',
+  'urgency.see-doctor': 'احجز موعدًا مع الطبيب',
+  'urgency.self-care': 'اعتنِ بنفسك في المنزل',
+
+  'recorder.voice': 'صوت',
+  'recorder.speak': 'تحدث',
+  'recorder.video': 'فيديو',
+  'recorder.record': 'سجّل',
+  'recorder.photo': 'صورة',
+  'recorder.upload': 'رفع',
+  'recorder.permission': 'نحتاج إلى إذن لاستخدام الكاميرا أو الميكروفون لرؤيتك أو سماعك.',
+  'recorder.saveFailed': 'حدث خطأ أثناء حفظ التسجيل. يرجى المحاولة مرة أخرى.',
+  'recorder.photoFailed': 'تعذرت قراءة هذه الصورة. يرجى تجربة صورة أخرى.',
+  'recorder.transcriptLabel': 'ما قلته (يمكنك تصحيح أي خطأ)',
+  'recorder.transcriptEmpty': 'لم يتم التقاط أي كلمات. يمكنك كتابتها هنا.',
+  'recorder.useBackCamera': 'استخدم الكاميرا الخلفية',
+  'recorder.useFrontCamera': 'استخدم الكاميرا الأمامية',
+  'recorder.listening': 'جارٍ الاستماع...',
+  'recorder.recording': 'جارٍ التسجيل',
+  'recorder.paused': 'متوقف مؤقتًا',
+  'recorder.ready': 'جاهز للبدء',
+  'recorder.review': 'راجع تسجيلك',
+  'recorder.autoStop': 'يتوقف تلقائيًا عند الحد الأقصى',
+  'recorder.cancel': 'إلغاء',
+  'recorder.start': 'ابدأ التسجيل',
+  'recorder.stop': 'إيقاف',
+  'recorder.pause': 'إيقاف مؤقت',
+  'recorder.resume': 'استئناف',
+  'recorder.retake': 'إعادة',
+  'recorder.keep': 'احتفظ',
+  'recorder.dismiss': 'إغلاق',
+
+  'dictation.start': 'إملاء',
+  'dictation.stop': 'إيقاف الإملاء',
+  'dictation.permission': 'يلزم إذن الميكروفون للإملاء.',
+  'dictation.failed': 'توقف الإملاء. يرجى المحاولة مرة أخرى.',
+
+  'speech.play': 'تشغيل',
+  'speech.pause': 'إيقاف مؤقت',
+  'speech.previous': 'القسم السابق',
+  'speech.next': 'القسم التالي',
+  'speech.settings': 'الصوت والسرعة',
+  'speech.close': 'إغلاق المشغل',
+  'speech.voice': 'الصوت',
+  'speech.automaticVoice': 'تلقائي',
+  'speech.speed': 'السرعة',
+
+  'sources.title': 'المصادر',
+  'sources.maps': 'خرائط Google',
+  'location.on': 'نستخدم موقعك لاقتراح أماكن رعاية قريبة.',
+  'location.off': 'الموقع متوقف. لن تذكر الردود أماكن قريبة.',
+  'location.unavailable': 'تعذر تحديد موقعك، لذلك لن تذكر الردود أماكن قريبة.',
+  'location.turnOff': 'إيقاف',
+  'location.turnOn': 'مشاركة الموقع',
+
+  'profile.title': 'عنك',
+  'profile.edit': 'تعديل الملف',
+  'profile.add': 'إضافة ملف صحي',
+  'profile.emptyHint': 'العمر والأدوية والحساسية تساعد في ملاءمة النصائح لك. يُحفظ على هذا الجهاز فقط.',
+  'profile.shareHint': 'العناصر المحددة تُشارك في هذه الاستشارة فقط. ألغِ تحديد ما تريد إبقاءه خاصًا.',
+  'profile.editorTitle': 'ملفك الصحي',
+  'profile.privacy': 'يُحفظ على هذا الجهاز فقط. قبل كل استشارة تختار ما تشاركه.',
+  'profile.age': 'العمر',
+  'profile.sex': 'الجنس',
+  'profile.notSaid': 'أفضل عدم الإجابة',
+  'profile.sex.female': 'أنثى',
+  'profile.sex.male': 'ذكر',
+  'profile.sex.other': 'آخر',
+  'profile.pregnant': 'حامل',
+  'profile.yes': 'نعم',
+  'profile.no': 'لا',
+  'profile.conditions': 'الأمراض المزمنة',
+  'profile.medications': 'الأدوية الحالية',
+  'profile.allergies': 'الحساسية',
+  'profile.listHint': 'عنصر في كل سطر',
+  'profile.save': 'حفظ',
+  'profile.cancel': 'إلغاء',
+  'profile.clear': 'مسح الملف',
+  'profile.shared': 'تمت مشاركة الملف',
+
+  'profile.weight': 'الوزن (كغ)',
+  'profile.ageMonths': 'العمر بالأشهر',
+  'profile.monthsValue': '{months} شهرًا',
+  'profile.name': 'الاسم',
+  'profile.relationship': 'من هذا الشخص؟',
+  'profile.editorTitleOther': 'ملفه الصحي',
+  'profile.titleFor': 'عن {name}',
+  'profile.confirmDelete': 'هل تريد إزالة {name} وملفه من هذا الجهاز؟',
+  'relationship.self': 'أنا',
+  'relationship.child': 'طفلي',
+  'relationship.parent': 'أحد والديّ',
+  'relationship.partner': 'شريكي',
+  'relationship.other': 'شخص أعتني به',
+  'household.question': 'عمّن هذه الاستشارة؟',
+  'household.add': 'إضافة شخص',
+  'household.delete': 'إزالة الشخص',
+  'header.diary': 'مذكرة الأعراض',
+  'diary.title': 'مذكرة الأعراض',
+  'diary.intro': 'تابع مشكلة على مدى أيام أو أسابيع. تبقى الإدخالات على هذا الجهاز.',
+  'diary.empty': 'لا توجد مذكرات بعد.',
+  'diary.namePlaceholder': 'ما الذي تتابعه؟ مثل الركبة اليسرى',
+  'diary.create': 'بدء المذكرة',
+  'diary.back': 'كل المذكرات',
+  'diary.delete': 'حذف المذكرة',
+  'diary.confirmDelete': 'هل تريد حذف مذكرة "{name}" وكل إدخالاتها؟',
+  'diary.addEntry': 'إضافة إدخال',
+  'diary.date': 'التاريخ',
+  'diary.pain': 'الألم',
+  'diary.symptoms': 'الأعراض',
+  'diary.notes': 'ملاحظات',
+  'diary.save': 'حفظ الإدخال',
+  'diary.deleteEntry': 'حذف الإدخال',
+  'diary.noEntries': 'لا توجد إدخالات بعد. سجّل كيف تشعر اليوم.',
+  'diary.chartEmpty': 'قيّم الألم في يومين أو أكثر لرؤية الاتجاه.',
+  'diary.trend': 'تغيّر الألم من {from}/10 في {start} إلى {to}/10 في {end}',
+  'diary.worsening': 'يزداد سوءًا',
+  'diary.improving': 'يتحسن',
+  'diary.stable': 'كما هو تقريبًا',
+  'diary.startTriage': 'بدء فحص متابعة',
+  'diary.link': 'متابعة لـ',
+  'diary.notLinked': 'ليس متابعة',
+  'diary.linkHint': 'يُضاف تقييم الألم اليوم إلى المذكرة ويُشارك الاتجاه مع هذا الفحص.',
+  'diary.close': 'إغلاق',
+  'header.photos': 'سجل الصور',
+  'photos.title': 'سجل الصور',
+  'photos.intro': 'تابع جرحًا أو طفحًا بحفظ صور للمكان نفسه مع مرور الوقت. تبقى الصور على هذا الجهاز.',
+  'photos.empty': 'لا توجد مواضع في الجسم بعد.',
+  'photos.namePlaceholder': 'أين هو؟ مثل الساعد الأيسر',
+  'photos.create': 'إضافة موضع',
+  'photos.back': 'كل المواضع',
+  'photos.delete': 'حذف الموضع',
+  'photos.confirmDelete': 'هل تريد حذف "{name}" وكل صوره؟',
+  'photos.add': 'إضافة صورة',
+  'photos.addFailed': 'تعذّرت إضافة هذه الصورة.',
+  'photos.removeFailed': 'تعذّرت إزالة هذه الصورة.',
+  'photos.fileFailed': 'تعذّر حفظ هذه الصور في السجل الزمني. يرجى المحاولة مرة أخرى.',
+  'photos.noPhotos': 'لا توجد صور بعد. التقط كل صورة في إضاءة جيدة ومن المسافة نفسها.',
+  'photos.deletePhoto': 'حذف الصورة',
+  'photos.pickHint': 'المس الصور في السجل لاختيار الصورتين للمقارنة.',
+  'photos.then': 'قبل',
+  'photos.now': 'الآن',
+  'photos.sideBySide': 'جنبًا إلى جنب',
+  'photos.slider': 'منزلق',
+  'photos.ask': 'اسأل عن التغيّر',
+  'photos.fileUnder': 'حفظ الصور في سجل',
+  'photos.chooseSite': 'اختر موضعًا في الجسم',
+  'photos.newSite': 'موضع جديد…',
+  'photos.save': 'حفظ',
+  'photos.saved': 'تم الحفظ في السجل',
+  'photos.close': 'إغلاق',
+  'quickReplies.title': 'المس للإجابة',
+  'error.rateLimit': 'الخدمة مشغولة أو بلغت حد الاستخدام. يرجى الانتظار دقيقة والمحاولة مرة أخرى.',
+  'error.invalidKey': 'تم رفض مفتاح API الخاص بالتطبيق. اطلب ممن أعدّ التطبيق التحقق منه.',
+  'error.safety': 'رفضت الخدمة الإجابة عن هذا. جرّب وصفه بطريقة أخرى، وإذا كنت قلقًا فاتصل بطبيب أو بخدمات الطوارئ.',
+  'error.tooLarge': 'الصور أو التسجيلات أكبر من أن تُرسل. جرّب تسجيلًا أقصر أو صورًا أقل ثم ابدأ من جديد.',
+  'error.empty': 'وصل الرد فارغًا. يرجى المحاولة مرة أخرى.',
+  'error.unavailable': 'تواجه الخدمة مشكلات الآن. يرجى المحاولة بعد قليل.',
+  'error.unknown': 'حدث خطأ ما. يرجى المحاولة مرة أخرى.',
+  'error.retry': 'حاول مرة أخرى',
+  'error.retrying': 'تعثّر الاتصال، جارٍ إعادة المحاولة…',
+  'context.size': 'حجم المحادثة: ~{tokens} رمز',
+  'context.compacted': 'يتم الآن تلخيص الرسائل الأقدم للحفاظ على سرعة الردود',
+  'context.hint': 'تقدير تقريبي لما يقرأه النموذج في كل دور',
+  'promptProfile.title': 'نوع الفحص',
+  'promptProfile.auto': 'تلقائي ({name})',
+  'promptProfile.general': 'عام',
+  'promptProfile.pediatric': 'طفل',
+  'promptProfile.elderly': 'كبير السن',
+  'promptProfile.skin': 'الجلد',
+  'promptProfile.mental-health': 'الصحة النفسية',
+  'promptProfile.usedBy': 'التعليمات: {name}، الإصدار {version}',
+  'chat.edit': 'تعديل',
+  'chat.regenerate': 'إعادة الإنشاء',
+  'chat.previousBranch': 'النسخة السابقة',
+  'chat.nextBranch': 'النسخة التالية',
+  'edit.title': 'تعديل رسالتك',
+  'edit.save': 'حفظ وإعادة الإرسال',
+  'edit.cancel': 'إلغاء',
+  'edit.addPhoto': 'إضافة صورة',
+  'emergency.title': 'قد تكون هذه حالة طارئة',
+  'emergency.subtitle': 'اطلب المساعدة الآن. لا تنتظر إجابة الذكاء الاصطناعي.',
+  'emergency.call': 'اتصل بالرقم {number}',
+  'emergency.findRoom': 'ابحث عن أقرب قسم طوارئ',
+  'emergency.back': 'العودة والتعديل',
+  'emergency.continue': 'أنا بأمان، تابع الفحص',
+  'redFlag.chest-pain.reason': 'ألم أو ضغط في الصدر',
+  'redFlag.chest-pain.advice': 'قد يكون ألم الصدر علامة على نوبة قلبية.',
+  'redFlag.breathing.reason': 'صعوبة في التنفس',
+  'redFlag.breathing.advice': 'صعوبة التنفس تحتاج إلى مساعدة فورية.',
+  'redFlag.heavy-bleeding.reason': 'نزيف شديد',
+  'redFlag.heavy-bleeding.advice': 'النزيف الذي لا يتوقف يحتاج إلى رعاية طارئة.',
+  'redFlag.stroke-signs.reason': 'علامات محتملة لسكتة دماغية',
+  'redFlag.stroke-signs.advice': 'التلعثم في الكلام أو تدلي الوجه أو الضعف المفاجئ في جانب واحد قد يعني سكتة دماغية. كل دقيقة مهمة.',
+  'redFlag.unresponsive.reason': 'إغماء أو نوبة تشنج أو عدم الاستيقاظ',
+  'redFlag.unresponsive.advice': 'الشخص الذي فقد وعيه أو يعاني من نوبة تشنج أو لا يمكن إيقاظه يحتاج إلى مساعدة الآن.',
+  'redFlag.allergic-reaction.reason': 'رد فعل تحسسي شديد',
+  'redFlag.allergic-reaction.advice': 'تورم الحلق أو اللسان أو الشفاه قد يسد مجرى التنفس بسرعة.',
+  'redFlag.self-harm.reason': 'أفكار انتحارية أو إيذاء النفس',
+  'redFlag.self-harm.advice': 'أنت تستحق الدعم الآن. يرجى التواصل مع خدمات الطوارئ أو خط المساعدة في الأزمات.',
+  'redFlag.worst-headache.reason': 'صداع مفاجئ وشديد جدًا',
+  'redFlag.worst-headache.advice': 'الصداع المفاجئ "الأسوأ على الإطلاق" قد يكون علامة على نزيف في الدماغ.',
+  'history.close': 'إغلاق',
+  'history.empty': 'لا يوجد شيء محفوظ بعد. تُحفظ استشاراتك على هذا الجهاز فقط.',
+  'history.delete': 'حذف',
+  'history.privacy': 'الخصوصية',
+  'history.keepForever': 'الاحتفاظ بها حتى أحذفها',
+  'history.deleteAfter': 'الحذف بعد {days} يومًا',
+  'history.confirmClear': 'هل تريد حذف جميع الاستشارات المحفوظة من هذا الجهاز؟',
+  'history.deleteAll': 'حذف الكل',
+  'export.title': 'تصدير',
+  'export.summary': 'ملخص للطبيب',
+  'export.summaryHint': 'اطبع أو احفظ بصيغة PDF',
+  'export.fhir': 'سجل طبي (FHIR)',
+  'export.fhirHint': 'للاستيراد في سجل صحي',
+  'export.failed': 'تعذّر إنشاء السجل الطبي.',
+  'bodyMap.title': 'أين تشعر بالألم؟',
+  'bodyMap.front': 'الأمام',
+  'bodyMap.back': 'الخلف',
+  'bodyMap.diagramFront': 'مخطط الجسم، منظر أمامي',
+  'bodyMap.diagramBack': 'مخطط الجسم، منظر خلفي',
+  'bodyMap.hint': 'اضغط على الجسم لتحديد مكان الإحساس. يمكنك اختيار أكثر من مكان.',
+  'bodyMap.remove': 'إزالة',
+  'bodyMap.painNotRated': 'الألم هنا: غير مقيّم',
+  'bodyMap.pain': 'الألم هنا: {level}/10',
+  'sensation.sharp': 'حاد',
+  'sensation.dull': 'خفيف',
+  'sensation.burning': 'حارق',
+  'sensation.throbbing': 'نابض',
+  'sensation.tingling': 'وخز',
+  'sensation.aching': 'ألم مستمر',
+  'bodyRegion.front-head': 'الرأس / الوجه',
+  'bodyRegion.front-neck': 'الحلق / الرقبة',
+  'bodyRegion.front-right-shoulder': 'الكتف الأيمن',
+  'bodyRegion.front-left-shoulder': 'الكتف الأيسر',
+  'bodyRegion.front-chest': 'الصدر',
+  'bodyRegion.front-abdomen': 'المعدة / البطن',
+  'bodyRegion.front-pelvis': 'الفخذ الأعلى / الحوض',
+  'bodyRegion.front-right-arm': 'الذراع الأيمن',
+  'bodyRegion.front-left-arm': 'الذراع الأيسر',
+  'bodyRegion.front-right-hand': 'اليد / المعصم الأيمن',
+  'bodyRegion.front-left-hand': 'اليد / المعصم الأيسر',
+  'bodyRegion.front-right-thigh': 'الفخذ الأيمن',
+  'bodyRegion.front-left-thigh': 'الفخذ الأيسر',
+  'bodyRegion.front-right-knee': 'الركبة / الساق اليمنى',
+  'bodyRegion.front-left-knee': 'الركبة / الساق اليسرى',
+  'bodyRegion.front-right-foot': 'القدم / الكاحل الأيمن',
+  'bodyRegion.front-left-foot': 'القدم / الكاحل الأيسر',
+  'bodyRegion.back-head': 'مؤخرة الرأس',
+  'bodyRegion.back-neck': 'مؤخرة الرقبة',
+  'bodyRegion.back-left-shoulder': 'لوح الكتف الأيسر',
+  'bodyRegion.back-right-shoulder': 'لوح الكتف الأيمن',
+  'bodyRegion.back-upper': 'أعلى الظهر',
+  'bodyRegion.back-lower': 'أسفل الظهر',
+  'bodyRegion.back-buttocks': 'الأرداف / عظم العصعص',
+  'bodyRegion.back-left-arm': 'خلف الذراع / المرفق الأيسر',
+  'bodyRegion.back-right-arm': 'خلف الذراع / المرفق الأيمن',
+  'bodyRegion.back-left-hamstring': 'خلف الفخذ الأيسر',
+  'bodyRegion.back-right-hamstring': 'خلف الفخذ الأيمن',
+  'bodyRegion.back-left-calf': 'ربلة الساق اليسرى',
+  'bodyRegion.back-right-calf': 'ربلة الساق اليمنى',
+  'bodyRegion.back-left-heel': 'الكعب الأيسر',
+  'bodyRegion.back-right-heel': 'الكعب الأيمن',
+  'media.photoTooLarge': 'حجم هذه الصورة {size}، وهو كبير جدًا. يرجى اختيار صورة أقل من {limit}.',
+  'media.videoTooLarge': 'حجم هذا الفيديو {size}، وهو يتجاوز الحد {limit}. يرجى تسجيل مقطع أقصر.',
+  'media.voiceTooLarge': 'حجم هذه الرسالة الصوتية {size}، وهو يتجاوز الحد {limit}. يرجى تسجيل مقطع أقصر.',
+  'media.tooManyAttachments': 'يمكن أن تحمل الرسالة الواحدة حتى {limit} مرفقات. يرجى إزالة أحدها أولًا.',
+  'media.messageTooLarge': 'يبلغ مجموع هذه المرفقات {size}، وهو يتجاوز الحد {limit} للرسالة الواحدة. يرجى إزالة أحدها أولًا.',
+  'session.photoCheck': 'فحص بالصورة',
+  'session.videoCheck': 'فحص بالفيديو',
+  'session.voiceCheck': 'فحص برسالة صوتية',
+  'session.untitled': 'استشارة',
+  'summary.title': 'ملخص الفرز الصحي',
+  'summary.disclaimer': 'أُعدّ هذا الملخص بمساعدة مساعد صحي يعمل بالذكاء الاصطناعي. وهو ليس تشخيصًا ولا يغني عن فحص الطبيب.',
+  'summary.started': 'بدأت في {time}',
+  'summary.printed': 'طُبعت في {time}',
+  'summary.aboutPatient': 'عن المريض',
+  'summary.asEntered': 'كما أدخله المريض.',
+  'summary.diary': 'يوميات الأعراض: {name}',
+  'summary.patientWords': 'بكلمات المريض',
+  'summary.noDescription': 'لا يوجد وصف مكتوب.',
+  'summary.whereItHurts': 'مكان الألم:',
+  'summary.painLevels': 'مستويات الألم',
+  'summary.noPain': 'لم يُعطَ تقييم للألم.',
+  'summary.time': 'الوقت',
+  'summary.media': 'الصور والتسجيلات',
+  'summary.photoAlt': 'صورة شاركها المريض',
+  'summary.videoRecording': 'تسجيل فيديو',
+  'summary.voiceRecording': 'تسجيل صوتي',
+  'summary.notPrinted': 'غير مضمّن في الطباعة',
+  'summary.findings': 'ما لاحظه المساعد',
+  'storage.blocked': 'هذا التطبيق مفتوح في علامة تبويب أخرى ببيانات محفوظة أقدم. أغلق علامة التبويب تلك لإكمال التحديث، وسيتم تحميل سجلك بعد ذلك.'
+};
+
+export const TRANSLATIONS: Record<LanguageCode, Translations> = { en, es, fr, pt, ar };
+
+/**
+ * Looks up a UI string and fills `{name}` placeholders. Falls back to
+ * English so a missing translation never shows a raw key.
+ */
+export const translate = (language: LanguageCode, key: TranslationKey, vars?: Record<string, string | number>): string => {
+  const template = TRANSLATIONS[language]?.[key] ?? en[key];
+  if (!vars) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in vars ? String(vars[name]) : match));
+};
+
+// For code outside React, e.g. model providers and the English model prompt
+export const translatorFor = (language: LanguageCode): Translate =>
+  (key, vars) => translate(language, key, vars);
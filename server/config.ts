@@ -0,0 +1,64 @@
+import { ProviderConfig, ProviderId } from "../types";
+import { DEFAULT_GEMINI_MODEL } from "../services/providers/geminiProvider";
+import { MEDIA_LIMITS } from "../utils/mediaPreprocess";
+
+const UPSTREAM_IDS: ProviderId[] = ['gemini', 'mock', 'openai-compatible'];
+const MB = 1024 * 1024;
+// Room for the conversation text, profile and diary around the media
+const TEXT_ALLOWANCE_MB = 4;
+// The browser never sends more media than this in one request; base64 adds a third
+const DEFAULT_MAX_BODY_MB = Math.ceil(MEDIA_LIMITS.maxRequestMediaBytes * 4 / 3 / MB) + TEXT_ALLOWANCE_MB;
+
+// Share .env.local with vite; variables set in the shell win
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No file, rely on the environment
+}
+
+const numberFromEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export interface ServerConfig {
+  port: number;
+  // Key clients by X-Forwarded-For; only safe behind a reverse proxy that sets it
+  trustProxy: boolean;
+  // The provider the server calls on the browser's behalf
+  upstream: ProviderConfig;
+  limits: {
+    // Whole request body, base64 media included. Lowering these below the
+    // browser's MEDIA_LIMITS makes some consultations fail for good
+    maxBodyBytes: number;
+    maxMessages: number;
+    maxAttachmentsPerMessage: number;
+    // Triage requests each client may make per minute
+    requestsPerMinute: number;
+  };
+}
+
+/**
+ * Reads the server settings. TRIAGE_PROVIDER is left to the browser build
+ * (set it to "proxy" there); the server's own model is TRIAGE_UPSTREAM.
+ */
+export const loadServerConfig = (): ServerConfig => {
+  const requested = process.env.TRIAGE_UPSTREAM as ProviderId;
+  const provider = UPSTREAM_IDS.includes(requested) ? requested : 'gemini';
+
+  const upstream: ProviderConfig = provider === 'gemini'
+    ? { provider, model: process.env.TRIAGE_MODEL || DEFAULT_GEMINI_MODEL, apiKey: process.env.GEMINI_API_KEY }
+    : { provider, model: process.env.TRIAGE_MODEL || '', apiKey: process.env.TRIAGE_API_KEY, baseUrl: process.env.TRIAGE_BASE_URL };
+
+  return {
+    port: numberFromEnv('TRIAGE_SERVER_PORT', 8787),
+    trustProxy: process.env.TRIAGE_TRUST_PROXY === '1',
+    upstream,
+    limits: {
+      maxBodyBytes: numberFromEnv('TRIAGE_MAX_BODY_MB', DEFAULT_MAX_BODY_MB) * MB,
+      maxMessages: numberFromEnv('TRIAGE_MAX_MESSAGES', 50),
+      maxAttachmentsPerMessage: numberFromEnv('TRIAGE_MAX_ATTACHMENTS', MEDIA_LIMITS.maxAttachmentsPerMessage),
+      requestsPerMinute: numberFromEnv('TRIAGE_RATE_LIMIT', 10)
+    }
+  };
+};
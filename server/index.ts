@@ -0,0 +1,260 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { ChatMessage, TriageErrorKind, TriageProvider, TriageRequest } from "../types";
+import { createProvider } from "../services/providers";
+import { MEDIA_MISSING_STATUS, ProxyAttachment, ProxyEvent, ProxyMessage, SESSION_HEADER } from "../services/providers/proxyProvider";
+import { TriageError, toTriageError } from "../services/triageErrors";
+import { loadServerConfig } from "./config";
+import { createRateLimiter } from "./rateLimiter";
+import { PROMPT_PROFILES } from "../services/promptProfiles";
+import { isLanguageCode } from "../i18n/languages";
+import { RELATIONSHIPS, parseProfile } from "../services/profileStore";
+import { BODY_REGIONS, SENSATIONS } from "../utils/bodyRegions";
+
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+// Providers hold per-session upload caches and we hold each session's media;
+// drop both after an hour of quiet
+const PROVIDER_IDLE_MS = 60 * 60 * 1000;
+// Sessions one address may keep at once; the least recently used goes first
+const MAX_SESSIONS_PER_CLIENT = 20;
+const SESSION_ID = /^[\w-]{8,64}$/;
+
+const config = loadServerConfig();
+const limiter = createRateLimiter(config.limits.requestsPerMinute);
+// Keyed by the session id the browser sends; media is keyed by attachment id
+const sessions = new Map<string, { client: string, provider: TriageProvider, media: Map<string, string>, usedAt: number }>();
+
+const clientId = (req: IncomingMessage) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (config.trustProxy && typeof forwarded === 'string') {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+const sessionId = (req: IncomingMessage): string | null => {
+  const header = req.headers[SESSION_HEADER.toLowerCase()];
+  return typeof header === 'string' && SESSION_ID.test(header) ? header : null;
+};
+
+const sessionEntry = (session: string, client: string) => {
+  // Another address can't pick up a session it didn't start
+  const existing = sessions.get(session);
+  const entry = existing?.client === client
+    ? existing
+    : { client, provider: createProvider(config.upstream), media: new Map<string, string>(), usedAt: 0 };
+  entry.usedAt = Date.now();
+  sessions.set(session, entry);
+
+  const clientSessions = [...sessions].filter(([, other]) => other.client === client);
+  if (clientSessions.length > MAX_SESSIONS_PER_CLIENT) {
+    const [oldest] = clientSessions.reduce((a, b) => (a[1].usedAt <= b[1].usedAt ? a : b));
+    sessions.delete(oldest);
+  }
+  return entry;
+};
+
+/**
+ * Puts back the data of media the browser sent on an earlier turn and left
+ * out this time. Returns null when some of it is no longer held. Only the
+ * media this conversation still refers to is kept for the next turn.
+ */
+const restoreMedia = (history: ProxyMessage[], media: Map<string, string>): ChatMessage[] | null => {
+  const attachments = history.flatMap(msg => msg.attachments || []);
+  if (attachments.some(att => att.data === undefined && !media.has(att.id))) return null;
+
+  const held = new Map(attachments.map(att => [att.id, att.data ?? media.get(att.id) ?? '']));
+  media.clear();
+  held.forEach((data, id) => media.set(id, data));
+  return history.map(msg => ({ ...msg, attachments: msg.attachments?.map(att => ({ ...att, data: held.get(att.id) ?? '' })) }));
+};
+
+const sendError = (res: ServerResponse, status: number, kind: TriageErrorKind, message: string, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ kind, message }));
+};
+
+const readBody = async (req: IncomingMessage): Promise<string> => {
+  if (Number(req.headers['content-length']) > config.limits.maxBodyBytes) {
+    throw new TriageError('too-large', 'Request body is too large', { status: 413 });
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > config.limits.maxBodyBytes) {
+      throw new TriageError('too-large', 'Request body is too large', { status: 413 });
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+type Payload = Pick<TriageRequest, 'location' | 'language' | 'promptProfile'> & { history: ProxyMessage[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isAttachment = (value: unknown): value is ProxyAttachment =>
+  isRecord(value)
+  && typeof value.id === 'string' && typeof value.mimeType === 'string'
+  && (value.data === undefined || typeof value.data === 'string')
+  && (value.type === 'image' || value.type === 'video' || value.type === 'audio');
+
+const isPainLevel = (value: unknown) =>
+  value == null || (typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 10);
+
+const isBodyRegion = (value: unknown) =>
+  isRecord(value)
+  && BODY_REGIONS.some(region => region.id === value.regionId)
+  && isPainLevel(value.painLevel)
+  && (value.sensation == null || SENSATIONS.some(sensation => sensation === value.sensation));
+
+const isSubject = (value: unknown) =>
+  isRecord(value)
+  && typeof value.profileId === 'string' && typeof value.name === 'string'
+  && RELATIONSHIPS.some(relationship => relationship === value.relationship);
+
+// Profile fields are normalised in validatePayload rather than checked one by one
+const isMessage = (value: unknown): value is ProxyMessage =>
+  isRecord(value)
+  && (value.role === 'user' || value.role === 'model')
+  && (value.text === undefined || typeof value.text === 'string')
+  && isPainLevel(value.painLevel)
+  && (value.bodyRegions === undefined || (Array.isArray(value.bodyRegions) && value.bodyRegions.every(isBodyRegion)))
+  && (value.subject === undefined || isSubject(value.subject))
+  && (value.profile === undefined || isRecord(value.profile))
+  && (value.attachments === undefined || (
+    Array.isArray(value.attachments)
+    && value.attachments.length <= config.limits.maxAttachmentsPerMessage
+    && value.attachments.every(isAttachment)
+  ));
+
+const isLocation = (value: unknown): value is { lat: number, lng: number } =>
+  isRecord(value) && Number.isFinite(value.lat) && Number.isFinite(value.lng);
+
+/**
+ * Checks the body has the shape the providers expect. Returns the payload
+ * to forward, or an error message.
+ */
+const validatePayload = (payload: unknown): Payload | string => {
+  if (!isRecord(payload)) return 'body must be a JSON object';
+  const { history, location, language, promptProfile } = payload;
+  if (!Array.isArray(history) || history.length === 0) return 'history must be a non-empty array';
+  if (history.length > config.limits.maxMessages) return `history is limited to ${config.limits.maxMessages} messages`;
+  if (!history.every(isMessage)) return 'history contains an invalid message';
+  if (history[history.length - 1].role !== 'user') return 'the last message must be from the user';
+  if (location != null && !isLocation(location)) return 'location must have numeric lat and lng';
+  if (language !== undefined && !isLanguageCode(language)) return 'unsupported language';
+  const profile = PROMPT_PROFILES.find(candidate => candidate.id === promptProfile);
+  if (promptProfile !== undefined && !profile) return 'unknown prompt profile';
+  return {
+    history: history.map(msg => (msg.profile ? { ...msg, profile: parseProfile(msg.profile) } : msg)),
+    location: isLocation(location) ? location : null,
+    language: isLanguageCode(language) ? language : undefined,
+    promptProfile: profile?.id
+  };
+};
+
+const handleTriage = async (req: IncomingMessage, res: ServerResponse) => {
+  const client = clientId(req);
+  const waitSeconds = limiter.take(client);
+  if (waitSeconds > 0) {
+    sendError(res, 429, 'rate-limit', 'Too many requests', { 'Retry-After': String(waitSeconds) });
+    return;
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch (error) {
+    if (error instanceof TriageError) {
+      sendError(res, 413, error.kind, error.message, { 'Connection': 'close' });
+    } else {
+      sendError(res, 400, 'unknown', 'Request body is not valid JSON');
+    }
+    return;
+  }
+
+  const payload = validatePayload(body);
+  if (typeof payload === 'string') {
+    sendError(res, 400, 'unknown', payload);
+    return;
+  }
+  const session = sessionId(req);
+  if (!session) {
+    sendError(res, 400, 'unknown', `${SESSION_HEADER} header is missing or invalid`);
+    return;
+  }
+
+  const entry = sessionEntry(session, client);
+  const history = restoreMedia(payload.history, entry.media);
+  if (!history) {
+    sendError(res, MEDIA_MISSING_STATUS, 'unknown', 'Media from an earlier turn is no longer held; send it again');
+    return;
+  }
+
+  // Stop the model call if the browser goes away mid-reply
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  const send = (event: ProxyEvent) => res.write(JSON.stringify(event) + '\n');
+
+  try {
+    const result = await entry.provider.analyze({
+      history,
+      location: payload.location,
+      language: payload.language,
+      promptProfile: payload.promptProfile,
+      signal: controller.signal,
+      onText: text => send({ type: 'text', text })
+    });
+    send({ type: 'result', result });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    const triageError = toTriageError(error);
+    console.error(`Upstream error (${config.upstream.provider}, ${triageError.kind}):`, error);
+    send({ type: 'error', kind: triageError.kind, message: triageError.message });
+  } finally {
+    res.end();
+  }
+};
+
+const server = createServer((req, res) => {
+  const path = req.url?.split('?')[0];
+
+  if (req.method === 'GET' && path === '/api/health') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: true, upstream: config.upstream.provider }));
+    return;
+  }
+  if (path === '/api/triage') {
+    if (req.method !== 'POST') {
+      sendError(res, 405, 'unknown', 'Use POST', { 'Allow': 'POST' });
+      return;
+    }
+    handleTriage(req, res).catch(error => {
+      console.error("Triage request failed", error);
+      if (!res.headersSent) sendError(res, 500, 'unknown', 'Internal server error');
+      else res.end();
+    });
+    return;
+  }
+  sendError(res, 404, 'unknown', 'Not found');
+});
+
+setInterval(() => {
+  limiter.prune();
+  const cutoff = Date.now() - PROVIDER_IDLE_MS;
+  sessions.forEach((entry, session) => {
+    if (entry.usedAt < cutoff) sessions.delete(session);
+  });
+}, CLEANUP_INTERVAL_MS).unref();
+
+server.listen(config.port, () => {
+  console.log(`Triage proxy listening on http://localhost:${config.port} (upstream: ${config.upstream.provider})`);
+  if (config.upstream.provider === 'gemini' && !config.upstream.apiKey) {
+    console.warn("GEMINI_API_KEY is not set; upstream requests will fail");
+  }
+});
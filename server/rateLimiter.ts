@@ -0,0 +1,43 @@
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token bucket per client: a full bucket allows a short burst, then
+ * requests are let through at the steady per-minute rate.
+ */
+export const createRateLimiter = (requestsPerMinute: number) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = requestsPerMinute / 60_000;
+
+  const refill = (bucket: Bucket, now: number) => {
+    bucket.tokens = Math.min(requestsPerMinute, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+  };
+
+  // Returns 0 when the request may go ahead, otherwise the seconds to wait
+  const take = (clientId: string): number => {
+    const now = Date.now();
+    const bucket = buckets.get(clientId) || { tokens: requestsPerMinute, updatedAt: now };
+    refill(bucket, now);
+    buckets.set(clientId, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - bucket.tokens) / refillPerMs / 1000);
+  };
+
+  // Full buckets carry no state worth keeping
+  const prune = () => {
+    const now = Date.now();
+    buckets.forEach((bucket, clientId) => {
+      refill(bucket, now);
+      if (bucket.tokens >= requestsPerMinute) buckets.delete(clientId);
+    });
+  };
+
+  return { take, prune };
+};
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { compactHistory, estimateHistoryTokens } from "./contextManager";
+import { ChatMessage, MediaAttachment } from "../types";
+
+const user = (id: string, text: string, extra: Partial<ChatMessage> = {}): ChatMessage =>
+  ({ id, role: 'user', text, timestamp: 0, ...extra });
+const model = (id: string, text: string): ChatMessage => ({ id, role: 'model', text, timestamp: 0 });
+
+const photo = (id: string, sizeBytes: number): MediaAttachment =>
+  ({ id, type: 'image', mimeType: 'image/jpeg', data: '', sizeBytes });
+
+// About 250 tokens each
+const LONG = 'My arm is itchy and red. '.repeat(40);
+
+const CONVERSATION: ChatMessage[] = [
+  user('1', LONG, {
+    profile: { age: 34, conditions: ['asthma'], medications: [], allergies: [] },
+    subject: { profileId: 'self', name: 'Sam', relationship: 'self' },
+    painLevel: 4
+  }),
+  model('2', LONG),
+  user('3', LONG),
+  model('4', LONG),
+  user('5', 'It is worse today')
+];
+
+describe('compactHistory', () => {
+  it('leaves a conversation within budget alone', () => {
+    const compacted = compactHistory(CONVERSATION);
+    assert.equal(compacted.history, CONVERSATION);
+    assert.equal(compacted.foldedMessages, 0);
+    assert.equal(compacted.estimatedTokens, estimateHistoryTokens(CONVERSATION));
+  });
+
+  it('folds the oldest turns into a summary on the first kept user message', () => {
+    const compacted = compactHistory(CONVERSATION, 700);
+    assert.equal(compacted.foldedMessages, 2);
+    assert.deepEqual(compacted.history.map(msg => msg.id), ['3', '4', '5']);
+
+    const [first] = compacted.history;
+    assert.equal(first.role, 'user');
+    assert.match(first.text!, /Earlier turns of this conversation were shortened/);
+    assert.match(first.text!, /- User: My arm is itchy.*\[pain 4\/10\]/);
+    assert.match(first.text!, /- You: My arm is itchy/);
+    assert.ok(first.text!.endsWith(LONG));
+  });
+
+  it('carries the profile and subject from the opening message', () => {
+    const [first] = compactHistory(CONVERSATION, 700).history;
+    assert.deepEqual(first.profile, CONVERSATION[0].profile);
+    assert.deepEqual(first.subject, CONVERSATION[0].subject);
+  });
+
+  it('starts the kept turns on a user message', () => {
+    // Room for the last two messages only, which would start on a model reply
+    const compacted = compactHistory(CONVERSATION, 300);
+    assert.deepEqual(compacted.history.map(msg => msg.id), ['5']);
+    assert.equal(compacted.foldedMessages, 4);
+  });
+
+  it('always sends the latest message whole, even over budget', () => {
+    const compacted = compactHistory(CONVERSATION, 10);
+    assert.equal(compacted.history.length, 1);
+    assert.match(compacted.history[0].text!, /It is worse today$/);
+  });
+
+  it('folds turns whose media would not fit one request', () => {
+    const history = [
+      user('1', 'Rash', { attachments: [photo('a', 30)] }),
+      model('2', 'Looks like eczema'),
+      user('3', 'Now it spread', { attachments: [photo('b', 30)] })
+    ];
+    const compacted = compactHistory(history, 100_000, 50);
+    assert.deepEqual(compacted.history.map(msg => msg.id), ['3']);
+    assert.deepEqual(compacted.history[0].attachments?.map(att => att.id), ['b']);
+    assert.match(compacted.history[0].text!, /sent image \(already reviewed, no longer attached\)/);
+  });
+});
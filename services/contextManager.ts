@@ -0,0 +1,112 @@
+import { ChatMessage, MediaAttachment } from "../types";
+import { formatUserText, formatModelText } from "./prompt";
+import { MEDIA_LIMITS, attachmentBytes } from "../utils/mediaPreprocess";
+
+// Rough size the conversation may reach before older turns are summarised
+export const CONTEXT_TOKEN_BUDGET = 32_000;
+
+// Gemini's published rates; other models are in the same range
+const TOKENS_PER_IMAGE = 1_500; // a resized photo spans about six 768px tiles
+const VIDEO_TOKENS_PER_SECOND = 263;
+const AUDIO_TOKENS_PER_SECOND = 32;
+const CHARS_PER_TOKEN = 4;
+const SUMMARY_TEXT_CHARS = 300;
+
+export interface CompactedHistory {
+  history: ChatMessage[];
+  // Messages folded into the summary; 0 when everything fits
+  foldedMessages: number;
+  estimatedTokens: number;
+}
+
+const attachmentTokens = (att: MediaAttachment) => {
+  if (att.type === 'image') return TOKENS_PER_IMAGE;
+  // Recordings are encoded at a fixed bitrate, so size gives the length
+  const bytes = attachmentBytes(att);
+  const bitsPerSecond = att.type === 'video' ? MEDIA_LIMITS.videoBitsPerSecond : MEDIA_LIMITS.audioBitsPerSecond;
+  const seconds = bytes * 8 / bitsPerSecond;
+  return Math.ceil(seconds * (att.type === 'video' ? VIDEO_TOKENS_PER_SECOND : AUDIO_TOKENS_PER_SECOND));
+};
+
+export const estimateMessageTokens = (msg: ChatMessage): number => {
+  const text = msg.role === 'user' ? formatUserText(msg) : formatModelText(msg);
+  const media = (msg.attachments || []).reduce((sum, att) => sum + attachmentTokens(att), 0);
+  return Math.ceil(text.length / CHARS_PER_TOKEN) + media;
+};
+
+const messageMediaBytes = (msg: ChatMessage) =>
+  (msg.attachments || []).reduce((sum, att) => sum + attachmentBytes(att), 0);
+
+export const estimateHistoryTokens = (history: ChatMessage[]): number =>
+  history.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0);
+
+const clip = (text: string) =>
+  text.length > SUMMARY_TEXT_CHARS ? `${text.slice(0, SUMMARY_TEXT_CHARS).trimEnd()}…` : text;
+
+const summarizeMessage = (msg: ChatMessage): string => {
+  if (msg.role === 'model') {
+    const reply = msg.report
+      ? `${msg.report.urgency}: ${msg.report.urgencyReason} Possible causes: ${msg.report.possibleCauses.map(cause => cause.name).join(', ') || 'none given'}.`
+      : clip(msg.text || '');
+    return `- You: ${reply}`;
+  }
+  const details: string[] = [];
+  if (msg.painLevel != null) details.push(`pain ${msg.painLevel}/10`);
+  const media = (msg.attachments || []).map(att => att.type);
+  if (media.length > 0) details.push(`sent ${media.join(', ')} (already reviewed, no longer attached)`);
+  const text = clip(msg.text?.trim() || '(no text)');
+  return `- User: ${text}${details.length > 0 ? ` [${details.join('; ')}]` : ''}`;
+};
+
+/**
+ * Keeps the newest turns that fit the token budget, and whose media fits
+ * one request, and folds everything older into a short written summary. The summary rides on the first kept
+ * user message, together with the profile, subject and diary that were
+ * only attached to the opening message. The latest message is always sent whole.
+ */
+export const compactHistory = (
+  history: ChatMessage[],
+  budget = CONTEXT_TOKEN_BUDGET,
+  mediaBudget = MEDIA_LIMITS.maxRequestMediaBytes
+): CompactedHistory => {
+  let total = 0;
+  let mediaBytes = 0;
+  let start = history.length;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const tokens = estimateMessageTokens(history[i]);
+    const bytes = messageMediaBytes(history[i]);
+    if ((total + tokens > budget || mediaBytes + bytes > mediaBudget) && i < history.length - 1) break;
+    total += tokens;
+    mediaBytes += bytes;
+    start = i;
+  }
+  // Start on a user turn so roles still alternate
+  while (start < history.length - 1 && history[start].role !== 'user') {
+    total -= estimateMessageTokens(history[start]);
+    start++;
+  }
+
+  if (start === 0) {
+    return { history, foldedMessages: 0, estimatedTokens: total };
+  }
+
+  const folded = history.slice(0, start);
+  const [first, ...rest] = history.slice(start);
+  const carried = <K extends 'profile' | 'subject' | 'diary'>(field: K): ChatMessage[K] =>
+    first[field] ?? folded.find(msg => msg[field])?.[field];
+  const summary = `[System Note: Earlier turns of this conversation were shortened to save space. Summary, oldest first:\n${folded.map(summarizeMessage).join('\n')}]`;
+
+  const merged: ChatMessage = {
+    ...first,
+    text: first.text ? `${summary}\n\n${first.text}` : summary,
+    profile: carried('profile'),
+    subject: carried('subject'),
+    diary: carried('diary')
+  };
+
+  return {
+    history: [merged, ...rest],
+    foldedMessages: folded.length,
+    estimatedTokens: total - estimateMessageTokens(first) + estimateMessageTokens(merged)
+  };
+};
@@ -0,0 +1,90 @@
+const DB_NAME = 'health-triage';
+// 2: symptom diaries, 3: photo timeline
+const DB_VERSION = 3;
+
+export const SESSIONS_STORE = 'sessions';
+export const DIARIES_STORE = 'diaries';
+export const PHOTO_SITES_STORE = 'photoSites';
+export const PHOTOS_STORE = 'photos';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+type BlockedListener = (blocked: boolean) => void;
+const blockedListeners = new Set<BlockedListener>();
+let blocked = false;
+
+const setBlocked = (value: boolean) => {
+  blocked = value;
+  blockedListeners.forEach(listener => listener(value));
+};
+
+/**
+ * Tells the listener, now and on every change, whether an upgrade is waiting
+ * for another tab that still has an older version open. Returns an unsubscribe.
+ */
+export const onDatabaseBlocked = (listener: BlockedListener) => {
+  blockedListeners.add(listener);
+  listener(blocked);
+  return () => {
+    blockedListeners.delete(listener);
+  };
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(DIARIES_STORE)) {
+          const store = db.createObjectStore(DIARIES_STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(PHOTO_SITES_STORE)) {
+          db.createObjectStore(PHOTO_SITES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(PHOTOS_STORE)) {
+          const store = db.createObjectStore(PHOTOS_STORE, { keyPath: 'id' });
+          store.createIndex('siteId', 'siteId');
+        }
+      };
+      // Another tab has an older version open; the upgrade waits until it closes
+      request.onblocked = () => setBlocked(true);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Step aside when a newer tab upgrades; the next request reopens
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        setBlocked(false);
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        setBlocked(false);
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
@@ -0,0 +1,60 @@
+import { DiaryEntry, SymptomDiary } from "../types";
+import { runRequest as runDbRequest, DIARIES_STORE } from "./database";
+
+const runRequest = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  runDbRequest(DIARIES_STORE, mode, action);
+
+// Local calendar day, so an entry made late in the evening isn't filed under tomorrow
+export const toIsoDate = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const todayIso = (): string => toIsoDate(Date.now());
+
+export const newDiary = (name: string, profileId: string): SymptomDiary => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  profileId,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+  entries: []
+});
+
+export const newDiaryEntry = (fields: Partial<Omit<DiaryEntry, 'id'>> = {}): DiaryEntry => ({
+  id: crypto.randomUUID(),
+  date: todayIso(),
+  painLevel: null,
+  symptoms: '',
+  notes: '',
+  ...fields
+});
+
+/**
+ * Returns the diary with the entry added and entries kept in date order.
+ * Entries on the same day keep the order they were added in.
+ */
+export const addDiaryEntry = (diary: SymptomDiary, entry: DiaryEntry): SymptomDiary => ({
+  ...diary,
+  updatedAt: Date.now(),
+  entries: [...diary.entries, entry].sort((a, b) => a.date.localeCompare(b.date))
+});
+
+export const removeDiaryEntry = (diary: SymptomDiary, entryId: string): SymptomDiary => ({
+  ...diary,
+  updatedAt: Date.now(),
+  entries: diary.entries.filter(entry => entry.id !== entryId)
+});
+
+export const listDiaries = async (): Promise<SymptomDiary[]> => {
+  const diaries = await runRequest<SymptomDiary[]>('readonly', store => store.getAll());
+  return diaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveDiary = async (diary: SymptomDiary): Promise<void> => {
+  await runRequest('readwrite', store => store.put(diary));
+};
+
+export const deleteDiary = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,39 @@
+import { PhotoSite, SitePhoto } from "../types";
+import { runRequest, PHOTO_SITES_STORE, PHOTOS_STORE } from "./database";
+
+export const newPhotoSite = (name: string, profileId: string): PhotoSite => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  profileId,
+  createdAt: Date.now(),
+  updatedAt: Date.now()
+});
+
+export const listPhotoSites = async (): Promise<PhotoSite[]> => {
+  const sites = await runRequest<PhotoSite[]>(PHOTO_SITES_STORE, 'readonly', store => store.getAll());
+  return sites.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const savePhotoSite = async (site: PhotoSite): Promise<void> => {
+  await runRequest(PHOTO_SITES_STORE, 'readwrite', store => store.put(site));
+};
+
+// Oldest first, the order they appear on the timeline
+export const listSitePhotos = async (siteId: string): Promise<SitePhoto[]> => {
+  const photos = await runRequest<SitePhoto[]>(PHOTOS_STORE, 'readonly', store => store.index('siteId').getAll(siteId));
+  return photos.sort((a, b) => a.takenAt - b.takenAt);
+};
+
+export const addSitePhoto = async (photo: SitePhoto): Promise<void> => {
+  await runRequest(PHOTOS_STORE, 'readwrite', store => store.put(photo));
+};
+
+export const deleteSitePhoto = async (id: string): Promise<void> => {
+  await runRequest(PHOTOS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const deletePhotoSite = async (id: string): Promise<void> => {
+  const photoKeys = await runRequest<IDBValidKey[]>(PHOTOS_STORE, 'readonly', store => store.index('siteId').getAllKeys(id));
+  await Promise.all(photoKeys.map(key => deleteSitePhoto(String(key))));
+  await runRequest(PHOTO_SITES_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,135 @@
+import { HouseholdProfile, PatientProfile, ProfileField, ProfileRelationship, ProfileSex } from "../types";
+
+const PROFILES_KEY = 'triage.profiles';
+// Single-profile key from before household profiles; migrated on first load
+const LEGACY_PROFILE_KEY = 'triage.profile';
+
+export const SELF_PROFILE_ID = 'self';
+
+export const PROFILE_FIELDS: ProfileField[] = ['age', 'weight', 'sex', 'pregnant', 'conditions', 'medications', 'allergies'];
+
+export const RELATIONSHIPS: ProfileRelationship[] = ['self', 'child', 'parent', 'partner', 'other'];
+
+export const EMPTY_PROFILE: PatientProfile = { conditions: [], medications: [], allergies: [] };
+
+const SEXES: ProfileSex[] = ['female', 'male', 'other'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+const wholeNumber = (value: unknown, max: number): number | undefined =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max ? value : undefined;
+
+export const parseProfile = (stored: unknown): PatientProfile => {
+  const fields = isRecord(stored) ? stored : {};
+  const { weightKg, sex, pregnant } = fields;
+  return {
+    age: wholeNumber(fields.age, 129),
+    ageMonths: wholeNumber(fields.ageMonths, 23),
+    weightKg: typeof weightKg === 'number' && weightKg > 0 && weightKg < 400 ? weightKg : undefined,
+    sex: SEXES.find(value => value === sex),
+    pregnant: typeof pregnant === 'boolean' ? pregnant : undefined,
+    conditions: stringList(fields.conditions),
+    medications: stringList(fields.medications),
+    allergies: stringList(fields.allergies)
+  };
+};
+
+export const newProfile = (relationship: ProfileRelationship = 'child'): HouseholdProfile => ({
+  ...EMPTY_PROFILE,
+  id: relationship === 'self' ? SELF_PROFILE_ID : crypto.randomUUID(),
+  name: '',
+  relationship
+});
+
+/**
+ * Everyone whose symptoms the user checks, always starting with the user
+ * themselves. Profiles stay on this device; only the parts the user ticks
+ * leave it, inside a triage request.
+ */
+export const loadProfiles = (): HouseholdProfile[] => {
+  let profiles: HouseholdProfile[] = [];
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(PROFILES_KEY) || 'null');
+    if (Array.isArray(stored)) {
+      profiles = stored
+        .filter(isRecord)
+        .flatMap(item => typeof item.id === 'string' ? [{
+          ...parseProfile(item),
+          id: item.id,
+          name: typeof item.name === 'string' ? item.name : '',
+          relationship: RELATIONSHIPS.find(value => value === item.relationship) || 'other'
+        }] : []);
+    } else {
+      const legacy: unknown = JSON.parse(localStorage.getItem(LEGACY_PROFILE_KEY) || 'null');
+      if (isRecord(legacy)) profiles = [{ ...newProfile('self'), ...parseProfile(legacy) }];
+    }
+  } catch {
+    profiles = [];
+  }
+
+  if (!profiles.some(profile => profile.id === SELF_PROFILE_ID)) {
+    profiles.unshift(newProfile('self'));
+  }
+  return profiles;
+};
+
+export const saveProfiles = (profiles: HouseholdProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  localStorage.removeItem(LEGACY_PROFILE_KEY);
+};
+
+export const hasProfileField = (profile: PatientProfile, field: ProfileField): boolean => {
+  switch (field) {
+    case 'age': return profile.age !== undefined || profile.ageMonths !== undefined;
+    case 'weight': return profile.weightKg !== undefined;
+    case 'conditions':
+    case 'medications':
+    case 'allergies': return profile[field].length > 0;
+    default: return profile[field] !== undefined;
+  }
+};
+
+export const filledProfileFields = (profile: PatientProfile): ProfileField[] =>
+  PROFILE_FIELDS.filter(field => hasProfileField(profile, field));
+
+/**
+ * The part of the profile the user agreed to share for one consultation,
+ * or undefined when nothing is shared. Names and ids are never included.
+ */
+export const pickProfileFields = (profile: PatientProfile, fields: ProfileField[]): PatientProfile | undefined => {
+  const shared: PatientProfile = { ...EMPTY_PROFILE };
+  const copy = <K extends keyof PatientProfile>(key: K) => { shared[key] = profile[key]; };
+  fields.filter(field => hasProfileField(profile, field)).forEach(field => {
+    if (field === 'age') {
+      copy('age');
+      copy('ageMonths');
+    } else if (field === 'weight') {
+      copy('weightKg');
+    } else {
+      copy(field);
+    }
+  });
+  return filledProfileFields(shared).length > 0 ? shared : undefined;
+};
+
+export const describeAge = (profile: PatientProfile): string =>
+  profile.ageMonths !== undefined && !profile.age ? `${profile.ageMonths} months` : `${profile.age} years`;
+
+/**
+ * One English line per filled field, for the model prompt and the
+ * doctor summary.
+ */
+export const describeProfile = (profile: PatientProfile): string[] => {
+  const lines: string[] = [];
+  if (hasProfileField(profile, 'age')) lines.push(`Age: ${describeAge(profile)}`);
+  if (profile.weightKg !== undefined) lines.push(`Weight: ${profile.weightKg} kg`);
+  if (profile.sex) lines.push(`Sex: ${profile.sex}`);
+  if (profile.pregnant !== undefined) lines.push(`Pregnant: ${profile.pregnant ? 'yes' : 'no'}`);
+  if (profile.conditions.length > 0) lines.push(`Long-term conditions: ${profile.conditions.join(', ')}`);
+  if (profile.medications.length > 0) lines.push(`Current medications: ${profile.medications.join(', ')}`);
+  if (profile.allergies.length > 0) lines.push(`Allergies: ${profile.allergies.join(', ')}`);
+  return lines;
+};
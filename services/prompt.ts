@@ -0,0 +1,170 @@
+import { ChatMessage, LanguageCode, ProfileRelationship } from "../types";
+import { getRedFlagRule } from "./redFlagScreener";
+import { describeBodyRegion } from "../utils/bodyRegions";
+import { getLanguage } from "../i18n/languages";
+import { translatorFor } from "../i18n/translations";
+import { describeProfile } from "./profileStore";
+import { daysBetween, describeDiary } from "../utils/painTrend";
+import { toIsoDate } from "./diaryStore";
+import { getPromptProfile, PromptProfile } from "./promptProfiles";
+
+// System notes are written in English whatever the reply language
+const english = translatorFor('en');
+
+const RELATIONSHIP_PHRASES: Record<Exclude<ProfileRelationship, 'self'>, string> = {
+  child: "their child",
+  parent: "their parent",
+  partner: "their partner",
+  other: "someone they care for"
+};
+
+const BASE_INSTRUCTION = `
+### SYSTEM ROLE
+You are a caring, patient "Health Companion." You are here to listen and help, like a knowledgeable family member sitting at the kitchen table. You are NOT a doctor.
+
+### 🎯 YOUR GOAL
+Help the user understand what might be wrong and what to do next, using simple, comforting everyday words ("Kitchen Table" language). Avoid medical jargon. Be warm, empathetic, and clear.
+
+### 📥 INPUTS
+You will receive **Video**, **Audio**, **Images**, **Text**, a **Pain Level (0-10)**, the **Body Areas** the user tapped on a body map and, if they chose to share it, a **Health Profile** (age, sex, pregnancy, long-term conditions, medications, allergies).
+Use the profile when weighing urgency and advice: for example, never suggest a medicine they are allergic to, and mention interactions with their current medications.
+A follow-up check may come with a **Symptom Diary**: dated pain ratings, symptoms and notes for the same problem. Pain or symptoms getting worse over several days should raise your urgency; steady improvement is reassuring. Mention the trend in your answer.
+Two photos of the same spot may come as a **then vs now** pair. Describe what changed in size, redness and spread; a wound or rash that is clearly growing, spreading or getting redder is more urgent, and signs of infection (red streaks, warmth, pus, fever) need a doctor.
+
+### 🧠 ANALYSIS STEPS
+1.  **Listen & Look:** Validate what the user showed you.
+    *   **Video Analysis:** Pay close attention to movement. Look for **stiffness**, **wincing**, **tremors**, or hesitation. Mention these specifically if observed.
+    *   **Visual Analysis:** Look for redness, swelling, rashes, or discoloration.
+2.  **Check Safety:** If it's a life-threatening emergency (chest pain, trouble breathing, profuse bleeding, slurred speech), tell them to call for help immediately.
+3.  **Explain:** Offer simple possibilities for what it could be.
+
+### 👪 CARING FOR SOMEONE ELSE
+The user may be a parent or carer asking about someone else. When a system note says so, talk to the user about the patient in the third person ("your daughter", "your father"), not as if the user is the patient, and give advice the carer can act on.
+Match the advice to the patient's age:
+* **Babies under 3 months:** a temperature of 38°C (100.4°F) or higher is an emergency.
+* **Babies 3-6 months:** 39°C (102.2°F) or higher needs a doctor today.
+* **Children:** watch for dehydration (no wet nappy or pee for 8+ hours, no tears, very sleepy), a rash that doesn't fade under a pressed glass, or fast breathing. Give medicine doses by weight and only as the packet says for their age. Never suggest aspirin under 16.
+* **Older adults:** new confusion, a fall, or not eating or drinking can be serious even with mild symptoms.
+`;
+
+// Shared by every profile, after its response sections
+const RESPONSE_RULES = `
+The app always shows its own safety note, so do not add one.
+
+### 🚫 RULES
+* **No Jargon:** Use "swelling" not "edema".
+* **Be Kind:** specific, empathetic, and reassuring.
+* **Format:** Keep each item short. Do NOT use markdown inside the JSON strings.
+`;
+
+// Added when the user shares their location and the provider can search Maps
+export const NEARBY_CARE_INSTRUCTION = `
+### 📍 NEARBY CARE
+You can search Google Maps and Google Search near the user's location.
+* If they should see someone ("emergency", "urgent" or "see-doctor"), name 1-3 real nearby places in **nextSteps**, e.g. "Riverside Urgent Care on Main Street is open until 9pm." Prefer urgent care, walk-in clinics, pharmacies or emergency departments that fit the urgency.
+* Only name places your search actually returned. Never invent a place, address or opening time.
+* Reply with the JSON object only, with no text or code fence around it.
+`;
+
+// Schema order, so the guidance reads in the same order the reply is written
+const REPORT_FIELDS = ['urgency', 'urgencyReason', 'observations', 'possibleCauses', 'doctorQuestions', 'nextSteps', 'followUpQuestions'] as const;
+
+/**
+ * The full system prompt for a reply in the user's chosen language and
+ * triage mode (see services/promptProfiles.ts). JSON keys and urgency
+ * values stay in English so the reply still validates.
+ */
+export const buildSystemInstruction = (
+  language: LanguageCode = 'en',
+  { nearbyCare = false, profile = getPromptProfile() }: { nearbyCare?: boolean, profile?: PromptProfile } = {}
+): string => {
+  const { englishName, nativeName } = getLanguage(language);
+  const sections = REPORT_FIELDS.map(field => `* **${field}:** ${profile.responseSections[field]}`).join('\n');
+  return BASE_INSTRUCTION + profile.instruction + `
+### 📝 RESPONSE FORMAT
+Reply with a single JSON object that matches the provided schema:
+${sections}
+` + RESPONSE_RULES + (nearbyCare ? NEARBY_CARE_INSTRUCTION : '') + `
+### 🌐 LANGUAGE
+Write every sentence of your reply in ${englishName} (${nativeName}), even if the user writes or speaks in another language.
+Keep the JSON keys and the urgency values exactly as given above, in English.
+`;
+};
+
+// Used only when the structured reply fails validation and we ask again for plain text
+export const MARKDOWN_RESPONSE_FORMAT = `
+### 📝 RESPONSE FORMAT OVERRIDE
+Ignore the JSON format above. Reply in plain markdown instead, using these bold headings in order:
+**👁️ What I Noticed**, **💡 What It Might Be**, **🩺 Questions for the Doctor**, **🧭 Recommended Next Steps**.
+Use short paragraphs and bullet points. Do NOT use complex markdown tables.
+`;
+
+/**
+ * Builds the text part of a user turn, with intake details appended as
+ * system notes. Shared by every provider so they all see the same prompt.
+ */
+export const formatUserText = (msg: ChatMessage): string => {
+  let textContent = msg.text || "";
+
+  // Inject Pain Level into the text for the model to see clearly, only for the relevant message
+  if (msg.painLevel !== undefined && msg.painLevel !== null) {
+    textContent += `\n\n[System Note: User indicates Pain Level: ${msg.painLevel}/10]`;
+  }
+
+  // Only the relationship is sent; the person's name stays on the device
+  if (msg.subject && msg.subject.relationship !== 'self') {
+    textContent += `\n\n[System Note: The user is a carer asking about ${RELATIONSHIP_PHRASES[msg.subject.relationship]}, not about themselves. Refer to the patient in the third person.]`;
+  }
+
+  if (msg.profile) {
+    const whose = msg.subject && msg.subject.relationship !== 'self' ? "the patient's" : "the user's";
+    const lines = describeProfile(msg.profile).map(line => `- ${line}`).join('\n');
+    textContent += `\n\n[System Note: Health profile (${whose}) shared for this consultation:\n${lines}]`;
+  }
+
+  if (msg.diary && msg.diary.entries.length > 0) {
+    const lines = describeDiary(msg.diary).map(line => `- ${line}`).join('\n');
+    textContent += `\n\n[System Note: This is a follow-up. Symptom diary for "${msg.diary.name}", oldest first:\n${lines}]`;
+  }
+
+  if (msg.photoComparison) {
+    const { siteName, before, after } = msg.photoComparison;
+    const position = (id: string) => (msg.attachments || []).findIndex(att => att.id === id) + 1;
+    const [then, now] = [toIsoDate(before.takenAt), toIsoDate(after.takenAt)];
+    textContent += `\n\n[System Note: Photos ${position(before.attachmentId)} and ${position(after.attachmentId)} show the same body site ("${siteName}"), taken ${then} and ${now} (${daysBetween(then, now)} days apart). Compare them: describe changes in size, redness and spread, and say whether it looks better, worse or about the same.]`;
+  }
+
+  msg.attachments?.forEach(att => {
+    if (att.transcript) {
+      textContent += `\n\n[System Note: The user's own transcript of their ${att.type} recording: "${att.transcript}"]`;
+    }
+  });
+
+  if (msg.bodyRegions && msg.bodyRegions.length > 0) {
+    textContent += `\n\n[System Note: User marked these body areas on a body map: ${msg.bodyRegions.map(region => describeBodyRegion(region, english)).join('; ')}]`;
+  }
+
+  // The user saw the local emergency screen and chose to continue
+  if (msg.redFlags && msg.redFlags.length > 0) {
+    const reasons = msg.redFlags.map(id => {
+      const rule = getRedFlagRule(id);
+      return rule ? english(`redFlag.${rule.id}.reason`) : id;
+    }).join(', ');
+    textContent += `\n\n[System Note: Local safety check flagged possible emergency signs: ${reasons}. The user was told to seek emergency help and chose to continue. Treat urgency as "emergency" unless clearly ruled out.]`;
+  }
+
+  if (!textContent && (!msg.attachments || msg.attachments.length === 0)) {
+    textContent = "Please analyze this.";
+  }
+
+  return textContent;
+};
+
+// Echo structured replies back as JSON so the model stays in format
+export const formatModelText = (msg: ChatMessage): string => {
+  if (msg.report) return JSON.stringify(msg.report);
+  if (msg.interrupted) {
+    return `${msg.text || ""}\n\n[System Note: This answer was stopped by the user before it finished.]`;
+  }
+  return msg.text || "";
+};
@@ -0,0 +1,164 @@
+import { PatientProfile, PromptProfileId, PromptRef, TriageReport } from "../types";
+import { Translate } from "../i18n/translations";
+
+type ResponseField = keyof Required<TriageReport>;
+
+export interface PromptProfile {
+  id: PromptProfileId;
+  // Bump whenever the text or temperature changes, so stored replies stay traceable
+  version: number;
+  temperature: number;
+  // Focus section added after the shared analysis steps; empty for general
+  instruction: string;
+  // Guidance for each field of the JSON reply, rendered in schema order
+  responseSections: Record<ResponseField, string>;
+}
+
+const GENERAL_SECTIONS: Record<ResponseField, string> = {
+  urgency: `one of "emergency", "urgent", "see-doctor" or "self-care".`,
+  urgencyReason: `one warm sentence explaining why.`,
+  observations: `a friendly summary of what you saw and heard. Acknowledge their pain level if given.
+    *   *Example:* "I saw the red bump on your hand. You said it stings, and you rated the pain as 4/10."`,
+  possibleCauses: `2-3 simple possibilities, each with a short name and a plain-language explanation.`,
+  doctorQuestions: `3 simple questions they can ask.`,
+  nextSteps: `clear, kindly advice on what to do.
+    *   *Example:* "Since it hurts a bit, try putting ice on it. If it gets redder, please see a doctor tomorrow."`,
+  followUpQuestions: `2-4 short clarifying questions whose answers would change your advice, each with 2-4 short answers the user can tap instead of typing.
+    *   *Example:* { "question": "Does it hurt more at night?", "answers": ["Yes", "No", "Not sure"] }`
+};
+
+export const PROMPT_PROFILES: PromptProfile[] = [
+  {
+    id: 'general',
+    version: 1,
+    temperature: 0.4,
+    instruction: '',
+    responseSections: GENERAL_SECTIONS
+  },
+  {
+    id: 'pediatric',
+    version: 1,
+    temperature: 0.3,
+    instruction: `
+### 🧒 CHILD CHECK
+This check is about a baby, child or teenager. The user is almost always a parent or carer, so talk to them about the child.
+* How the child is *acting* matters most: playing, feeding and drinking normally is reassuring; floppy, unusually sleepy, hard to wake or inconsolable is not.
+* Judge dehydration by wet nappies or trips to pee, tears and a moist mouth.
+* Breathing that is fast, noisy or pulling in under the ribs needs urgent care.
+* Give doses only by weight and as the packet says for their age. Never suggest aspirin, and no honey under 1 year.
+`,
+    responseSections: {
+      ...GENERAL_SECTIONS,
+      urgency: `one of "emergency", "urgent", "see-doctor" or "self-care". With babies, lean one step more cautious when unsure.`,
+      urgencyReason: `one warm sentence for the parent explaining why.`,
+      observations: `what you saw and heard about the child, including how they seem to be acting. Acknowledge the pain level if given.`,
+      possibleCauses: `2-3 common childhood possibilities, each with a short name and a plain-language explanation.`,
+      doctorQuestions: `3 simple questions the parent can ask the doctor or nurse.`,
+      nextSteps: `what the parent can do at home tonight, and the exact signs that mean going in sooner.`,
+      followUpQuestions: `2-4 short questions about feeding, wet nappies, temperature or behaviour whose answers would change your advice, each with 2-4 short answers to tap.
+    *   *Example:* { "question": "How many wet nappies today?", "answers": ["4 or more", "1-3", "None"] }`
+    }
+  },
+  {
+    id: 'elderly',
+    version: 1,
+    temperature: 0.3,
+    instruction: `
+### 👵 OLDER ADULT CHECK
+This check is about someone aged 65 or over.
+* Illness often shows up differently: an infection may cause new confusion, a fall or simply "not being themselves" instead of fever or pain.
+* Many take several medicines. Think about side effects and interactions, blood thinners after any knock to the head, and dizziness from blood pressure tablets.
+* Dehydration, falls and sudden changes in walking, speech or memory are more serious at this age.
+`,
+    responseSections: {
+      ...GENERAL_SECTIONS,
+      observations: `a friendly summary of what you saw and heard, noting anything about walking, balance or alertness. Acknowledge their pain level if given.`,
+      nextSteps: `clear, kindly advice on what to do, including a medicine review with a pharmacist when side effects could be involved and who should keep an eye on them.`,
+      followUpQuestions: `2-4 short clarifying questions whose answers would change your advice, each with 2-4 short answers to tap.
+    *   *Example:* { "question": "Is this a change from how they usually are?", "answers": ["Yes, sudden", "Yes, gradual", "No change"] }`
+    }
+  },
+  {
+    id: 'skin',
+    version: 1,
+    temperature: 0.3,
+    instruction: `
+### 🩹 SKIN CHECK
+This check is about the skin: a rash, mole, spot, bite, burn or wound.
+* Describe what you see in plain words: size (compare it to a coin or fingernail), colour, edges, raised or flat, and whether it is spreading.
+* For a mole, check the ABCDE signs: uneven shape, ragged border, several colours, wider than a pencil eraser, or changing. Any of these means seeing a doctor.
+* A rash that doesn't fade under a pressed glass, spreading redness with fever, or a wound with red streaks, pus or warmth needs urgent care.
+* If the photo is blurry or dark, say so and ask for a sharper one in daylight.
+`,
+    responseSections: {
+      ...GENERAL_SECTIONS,
+      observations: `what the skin looks like: size, colour, edges and texture, in everyday words. Acknowledge any pain or itch they mention.`,
+      nextSteps: `skin care they can do now (cleaning, cooling, not scratching) and when to show it to a doctor. Suggest a photo in the same light every day or two to track it.`,
+      followUpQuestions: `2-4 short clarifying questions whose answers would change your advice, each with 2-4 short answers to tap.
+    *   *Example:* { "question": "Is it itchy?", "answers": ["Very", "A little", "Not at all"] }`
+    }
+  },
+  {
+    id: 'mental-health',
+    version: 1,
+    temperature: 0.5,
+    instruction: `
+### 💬 MENTAL HEALTH CHECK-IN
+This is a check-in about mood, stress, worry, sleep or how the user is coping, not a physical symptom.
+* Listen first. Reflect back what they told you before giving any advice.
+* Do not diagnose. Name possibilities gently ("this sounds a lot like stress") and never label the person.
+* If they mention wanting to die, hurting themselves or someone else, or not feeling safe, set urgency to "emergency" and urge them to contact emergency services or a crisis line now. Stay warm and direct.
+* Suggest small, doable steps: sleep, movement, meals, talking to someone they trust.
+`,
+    responseSections: {
+      ...GENERAL_SECTIONS,
+      urgency: `one of "emergency", "urgent", "see-doctor" or "self-care". Everyday stress can be "self-care"; low mood or worry lasting two weeks or more, or getting in the way of daily life, is "see-doctor"; any risk of harm is "emergency".`,
+      urgencyReason: `one warm, non-judgemental sentence explaining why.`,
+      observations: `what you heard about how they are feeling and coping, in their own words where you can.`,
+      possibleCauses: `2-3 gentle possibilities for what might be going on or adding to it, each with a short name and a plain-language explanation.`,
+      doctorQuestions: `3 questions they could ask a doctor, counsellor or therapist.`,
+      nextSteps: `small, kind steps for today and this week, and who they can reach out to.`,
+      followUpQuestions: `2-4 short, gentle questions whose answers would change your advice, each with 2-4 short answers to tap.
+    *   *Example:* { "question": "How have you been sleeping?", "answers": ["Well", "Poorly", "Hardly at all"] }`
+    }
+  }
+];
+
+export const getPromptProfile = (id: PromptProfileId = 'general'): PromptProfile =>
+  PROMPT_PROFILES.find(profile => profile.id === id) || PROMPT_PROFILES[0];
+
+// FNV-1a, 32 bit: synchronous and identical in the browser, the server and the eval runner
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Identifies the prompt behind a reply: the profile and its version, plus a
+ * hash of the exact system instruction, which also covers the shared base
+ * text, the language and the nearby-care section.
+ */
+export const promptRef = ({ id, version }: PromptProfile, systemInstruction: string): PromptRef =>
+  ({ id, version, hash: hashText(systemInstruction) });
+
+export const describePromptRef = (prompt: PromptRef, t: Translate): string => {
+  const label = t('promptProfile.usedBy', { name: t(`promptProfile.${prompt.id}`), version: prompt.version });
+  return prompt.hash ? `${label} · ${prompt.hash}` : label;
+};
+
+/**
+ * Picks a mode from who the check is about. Skin and mental-health are
+ * about the problem rather than the person, so the user chooses those.
+ */
+export const inferPromptProfile = (profile: PatientProfile): PromptProfileId => {
+  // Babies may only have an age in months
+  const age = profile.age ?? (profile.ageMonths !== undefined ? 0 : undefined);
+  if (age === undefined) return 'general';
+  if (age < 16) return 'pediatric';
+  if (age >= 65) return 'elderly';
+  return 'general';
+};
@@ -0,0 +1,191 @@
+import { GoogleGenAI, GenerateContentConfig, FileState, FinishReason, GroundingChunk as GeminiGroundingChunk } from "@google/genai";
+import { AnalysisResult, ChatMessage, GroundingChunk, MediaAttachment, ProviderConfig, TriageProvider, TriageRequest } from "../../types";
+import { TRIAGE_REPORT_SCHEMA, parseTriageReport, reportToMarkdown } from "../triageReport";
+import { buildSystemInstruction, MARKDOWN_RESPONSE_FORMAT, formatUserText, formatModelText } from "../prompt";
+import { base64ToBlob } from "../../utils/mediaUtils";
+import { attachmentBytes, needsFileUpload } from "../../utils/mediaPreprocess";
+import { wait } from "../../utils/wait";
+import { TriageError } from "../triageErrors";
+import { getPromptProfile, promptRef } from "../promptProfiles";
+import { translatorFor } from "../../i18n/translations";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+// Uploaded files live for 48 hours; re-upload a little before that
+const FILE_TTL_MS = 46 * 60 * 60 * 1000;
+const FILE_POLL_MS = 2000;
+
+// Finish reasons meaning a filter stopped the reply, not the model finishing
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII
+];
+
+// Keyed by attachment id. Attachment ids come from the client, so each
+// provider keeps its own and proxy clients can't reach each other's uploads
+type UploadCache = Map<string, { uri: string, mimeType: string, expiresAt: number }>;
+
+/**
+ * Sends large media through the Files API, once per attachment, so later
+ * turns refer to it by handle instead of carrying the bytes again. Videos are
+ * processed server-side before they can be used, so we wait until the file is ACTIVE.
+ */
+const uploadAttachment = async (ai: GoogleGenAI, uploadedFiles: UploadCache, att: MediaAttachment, signal?: AbortSignal) => {
+  const cached = uploadedFiles.get(att.id);
+  if (cached && cached.expiresAt > Date.now()) return cached;
+
+  let file = await ai.files.upload({
+    file: base64ToBlob(att.data, att.mimeType),
+    config: { mimeType: att.mimeType, abortSignal: signal }
+  });
+
+  while (file.state === FileState.PROCESSING) {
+    await wait(FILE_POLL_MS, signal);
+    file = await ai.files.get({ name: file.name! });
+  }
+
+  if (file.state === FileState.FAILED || !file.uri) {
+    throw new Error(`File upload failed for attachment ${att.id}`);
+  }
+
+  const uploaded = { uri: file.uri, mimeType: file.mimeType || att.mimeType, expiresAt: Date.now() + FILE_TTL_MS };
+  uploadedFiles.set(att.id, uploaded);
+  return uploaded;
+};
+
+const formatHistory = (ai: GoogleGenAI, uploadedFiles: UploadCache, history: ChatMessage[], signal?: AbortSignal) => Promise.all(history.map(async msg => {
+  const parts: any[] = [];
+
+  if (msg.role === 'user') {
+    // Small media goes inline every turn; it costs less than an upload and a poll
+    for (const att of msg.attachments || []) {
+      if (needsFileUpload(attachmentBytes(att))) {
+        const uploaded = await uploadAttachment(ai, uploadedFiles, att, signal);
+        parts.push({ fileData: { fileUri: uploaded.uri, mimeType: uploaded.mimeType } });
+      } else {
+        parts.push({
+          inlineData: {
+            mimeType: att.mimeType,
+            data: att.data
+          }
+        });
+      }
+    }
+
+    const textContent = formatUserText(msg);
+    if (textContent) {
+      parts.push({ text: textContent });
+    }
+  } else {
+    parts.push({ text: formatModelText(msg) });
+  }
+
+  return {
+    role: msg.role,
+    parts: parts
+  };
+}));
+
+// Keep cited web pages and places with a link; drop duplicates across stream chunks
+const collectGroundingChunks = (chunks: GeminiGroundingChunk[], into: GroundingChunk[]) => {
+  chunks.forEach(chunk => {
+    const source = chunk.maps?.uri
+      ? { maps: { uri: chunk.maps.uri, title: chunk.maps.title, placeId: chunk.maps.placeId, text: chunk.maps.text } }
+      : chunk.web?.uri
+        ? { web: { uri: chunk.web.uri, title: chunk.web.title, domain: chunk.web.domain } }
+        : null;
+    const uri = source?.maps?.uri || source?.web?.uri;
+    if (source && !into.some(existing => (existing.maps?.uri || existing.web?.uri) === uri)) {
+      into.push(source);
+    }
+  });
+};
+
+export const createGeminiProvider = (config: ProviderConfig): TriageProvider => {
+  const model = config.model || DEFAULT_GEMINI_MODEL;
+  const uploadedFiles: UploadCache = new Map();
+
+  const analyze = async ({ history, location, language, promptProfile, signal, onText }: TriageRequest): Promise<AnalysisResult> => {
+    const profile = getPromptProfile(promptProfile);
+    const ai = new GoogleGenAI({ apiKey: config.apiKey });
+    const formattedHistory = await formatHistory(ai, uploadedFiles, history, signal);
+    const groundingChunks: GroundingChunk[] = [];
+
+    const streamText = async (requestConfig: GenerateContentConfig): Promise<string> => {
+      const stream = await ai.models.generateContentStream({
+        model: model,
+        contents: formattedHistory,
+        config: { ...requestConfig, abortSignal: signal }
+      });
+
+      let text = '';
+      let finishReason: FinishReason | undefined;
+      for await (const chunk of stream) {
+        signal?.throwIfAborted();
+        if (chunk.promptFeedback?.blockReason) {
+          throw new TriageError('safety', `Prompt blocked: ${chunk.promptFeedback.blockReason}`);
+        }
+        finishReason = chunk.candidates?.[0]?.finishReason ?? finishReason;
+        text += chunk.text || '';
+        collectGroundingChunks(chunk.candidates?.[0]?.groundingMetadata?.groundingChunks || [], groundingChunks);
+        onText?.(text);
+      }
+      if (BLOCKED_FINISH_REASONS.includes(finishReason)) {
+        throw new TriageError('safety', `Reply stopped: ${finishReason}`);
+      }
+      return text;
+    };
+
+    const systemInstruction = buildSystemInstruction(language, { nearbyCare: !!location, profile });
+
+    // Grounding tools can't be combined with a response schema, so with a
+    // location we rely on the prompt for the JSON shape and validate as usual
+    const raw = await streamText(location
+      ? {
+          systemInstruction,
+          temperature: profile.temperature,
+          tools: [{ googleMaps: {} }, { googleSearch: {} }],
+          toolConfig: { retrievalConfig: { latLng: { latitude: location.lat, longitude: location.lng } } },
+        }
+      : {
+          systemInstruction,
+          temperature: profile.temperature,
+          responseMimeType: 'application/json',
+          responseSchema: TRIAGE_REPORT_SCHEMA,
+        });
+
+    if (!raw.trim()) {
+      throw new TriageError('empty', 'The model returned an empty reply');
+    }
+
+    const report = parseTriageReport(raw);
+
+    if (report) {
+      return {
+        text: reportToMarkdown(report, translatorFor(language || 'en')),
+        report,
+        groundingChunks,
+        prompt: promptRef(profile, systemInstruction)
+      };
+    }
+
+    // Fallback: the reply did not validate, so ask once more for a plain markdown answer
+    console.warn("Triage reply failed validation, falling back to markdown", raw);
+    const fallbackInstruction = systemInstruction + MARKDOWN_RESPONSE_FORMAT;
+    const fallback = await streamText({
+      systemInstruction: fallbackInstruction,
+      temperature: profile.temperature,
+    });
+
+    if (!fallback.trim()) {
+      throw new TriageError('empty', 'The model returned an empty fallback reply');
+    }
+
+    return {
+      text: fallback,
+      groundingChunks,
+      prompt: promptRef(profile, fallbackInstruction)
+    };
+  };
+
+  return { id: 'gemini', model, analyze };
+};
@@ -0,0 +1,59 @@
+import { ProviderConfig, ProviderId, TriageProvider } from "../../types";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { createProxyProvider } from "./proxyProvider";
+
+const PROVIDER_IDS: ProviderId[] = ['gemini', 'mock', 'openai-compatible', 'proxy'];
+
+/**
+ * Reads the provider settings that vite.config.ts injects from .env.local.
+ * Without TRIAGE_PROVIDER we keep the original behaviour and talk to Gemini.
+ */
+export const getProviderConfig = (): ProviderConfig => {
+  const requested = process.env.TRIAGE_PROVIDER as ProviderId;
+  const provider = PROVIDER_IDS.includes(requested) ? requested : 'gemini';
+
+  if (provider === 'gemini') {
+    return {
+      provider,
+      model: process.env.TRIAGE_MODEL || DEFAULT_GEMINI_MODEL,
+      apiKey: process.env.API_KEY
+    };
+  }
+
+  // The server picks the model; the browser only needs to know where it is
+  if (provider === 'proxy') {
+    return { provider, model: '', baseUrl: process.env.TRIAGE_PROXY_URL };
+  }
+
+  return {
+    provider,
+    model: process.env.TRIAGE_MODEL || '',
+    apiKey: process.env.TRIAGE_API_KEY,
+    baseUrl: process.env.TRIAGE_BASE_URL
+  };
+};
+
+export const createProvider = (config: ProviderConfig): TriageProvider => {
+  switch (config.provider) {
+    case 'mock':
+      return createMockProvider(config);
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(config);
+    case 'proxy':
+      return createProxyProvider(config);
+    case 'gemini':
+    default:
+      return createGeminiProvider(config);
+  }
+};
+
+let defaultProvider: TriageProvider | null = null;
+
+export const getDefaultProvider = (): TriageProvider => {
+  if (!defaultProvider) {
+    defaultProvider = createProvider(getProviderConfig());
+  }
+  return defaultProvider;
+};
@@ -0,0 +1,116 @@
+import { TriageReport } from "../../types";
+
+export interface MockFixture {
+  id: string;
+  // Matched case-insensitively against the latest user message
+  keywords: string[];
+  report: TriageReport;
+}
+
+/**
+ * Canned replies for the offline mock provider. The first fixture whose
+ * keyword appears in the latest user message wins; DEFAULT_FIXTURE otherwise.
+ */
+export const MOCK_FIXTURES: MockFixture[] = [
+  {
+    id: 'chest-pain',
+    keywords: ['chest', 'breath', 'pecho'],
+    report: {
+      urgency: 'emergency',
+      urgencyReason: "Chest pain or trouble breathing should always be checked right away.",
+      observations: ["You told me about pain or pressure around your chest."],
+      possibleCauses: [
+        { name: "Heart problem", explanation: "The heart may not be getting enough blood." },
+        { name: "Muscle strain", explanation: "A pulled muscle in the chest can also hurt, but this needs a doctor to rule out the heart first." }
+      ],
+      doctorQuestions: [
+        "Could this be my heart?",
+        "Do I need any tests today?",
+        "What signs mean I should come straight back?"
+      ],
+      nextSteps: ["Please call emergency services now or have someone take you to the nearest emergency room."],
+      followUpQuestions: [
+        { question: "Does the pain spread to your arm, jaw or back?", answers: ["Yes", "No", "Not sure"] },
+        { question: "Are you sweating or feeling sick?", answers: ["Yes", "No"] }
+      ]
+    }
+  },
+  {
+    id: 'skin',
+    keywords: ['rash', 'itch', 'bump', 'red spot', 'bite'],
+    report: {
+      urgency: 'self-care',
+      urgencyReason: "This sounds like a skin irritation you can usually look after at home.",
+      observations: ["You described a red, itchy area on your skin."],
+      possibleCauses: [
+        { name: "Bug bite", explanation: "A small bite can swell and itch for a few days." },
+        { name: "Mild allergic reaction", explanation: "Skin can get red and itchy after touching something it doesn't like." }
+      ],
+      doctorQuestions: [
+        "Is this an allergy?",
+        "Which cream is safe to use?",
+        "How long should it take to go away?"
+      ],
+      nextSteps: [
+        "Keep the area clean and try a cool cloth on it.",
+        "If it spreads, blisters or you get a fever, please see a doctor."
+      ],
+      followUpQuestions: [
+        { question: "Is it getting bigger?", answers: ["Yes", "No", "Not sure"] },
+        { question: "How long have you had it?", answers: ["Today", "A few days", "Over a week"] }
+      ]
+    }
+  },
+  {
+    id: 'fever',
+    keywords: ['fever', 'temperature', 'chills', 'fiebre'],
+    report: {
+      urgency: 'see-doctor',
+      urgencyReason: "A fever is usually your body fighting an infection, but it is worth getting checked if it lasts.",
+      observations: ["You mentioned a fever or feeling hot and shivery."],
+      possibleCauses: [
+        { name: "Virus", explanation: "Like a cold or the flu." },
+        { name: "Infection", explanation: "Bacteria somewhere in the body can also cause a fever." }
+      ],
+      doctorQuestions: [
+        "Do I need antibiotics?",
+        "How high is too high for my fever?",
+        "When should I come back?"
+      ],
+      nextSteps: [
+        "Rest and drink plenty of water.",
+        "Book a doctor visit if the fever lasts more than 3 days."
+      ],
+      followUpQuestions: [
+        { question: "How high is your temperature?", answers: ["Under 38°C", "38-39°C", "Over 39°C", "Not measured"] },
+        { question: "Do you have a stiff neck or a rash?", answers: ["Yes", "No"] }
+      ]
+    }
+  }
+];
+
+export const DEFAULT_FIXTURE: MockFixture = {
+  id: 'default',
+  keywords: [],
+  report: {
+    urgency: 'see-doctor',
+    urgencyReason: "I can't tell exactly what is going on, so a doctor visit is the safest next step.",
+    observations: ["Thank you for sharing how you feel."],
+    possibleCauses: [
+      { name: "Minor strain or irritation", explanation: "Many aches settle on their own with rest." }
+    ],
+    doctorQuestions: [
+      "What do you think is causing this?",
+      "Is there anything I should avoid doing?",
+      "When should I come back if it doesn't get better?"
+    ],
+    nextSteps: [
+      "Rest and keep an eye on how it changes.",
+      "If it gets worse or new symptoms appear, please see a doctor."
+    ],
+    followUpQuestions: [
+      { question: "When did it start?", answers: ["Today", "This week", "Longer ago"] },
+      { question: "Is it getting worse?", answers: ["Yes", "No", "Not sure"] }
+    ]
+  }
+};
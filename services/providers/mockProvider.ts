@@ -0,0 +1,73 @@
+import { AnalysisResult, ChatMessage, LanguageCode, ProviderConfig, TriageProvider, TriageReport, TriageRequest } from "../../types";
+import { parseTriageReport, reportToMarkdown } from "../triageReport";
+import { MOCK_FIXTURES, DEFAULT_FIXTURE, MockFixture } from "./mockFixtures";
+import { getPromptProfile, promptRef } from "../promptProfiles";
+import { buildSystemInstruction } from "../prompt";
+import { translatorFor } from "../../i18n/translations";
+import { wait } from "../../utils/wait";
+
+export interface MockProviderOptions {
+  // Replies returned in order, one per call; raw strings go through the same validation as a real model
+  script?: (TriageReport | string)[];
+  fixtures?: MockFixture[];
+  delayMs?: number;
+  // Characters emitted per simulated stream chunk
+  chunkSize?: number;
+}
+
+const toResult = (reply: TriageReport | string, language: LanguageCode = 'en'): AnalysisResult => {
+  const report = typeof reply === 'string' ? parseTriageReport(reply) : reply;
+  if (report) {
+    return { text: reportToMarkdown(report, translatorFor(language)), report, groundingChunks: [] };
+  }
+  return { text: reply as string, groundingChunks: [] };
+};
+
+/**
+ * Offline provider for CI and demos. Never touches the network.
+ */
+export const createMockProvider = (config: ProviderConfig, options: MockProviderOptions = {}): TriageProvider => {
+  const fixtures = options.fixtures || MOCK_FIXTURES;
+  const script = options.script ? [...options.script] : null;
+  const delayMs = options.delayMs ?? 1500;
+  const chunkSize = options.chunkSize ?? 24;
+
+  const pickReply = (history: ChatMessage[]): TriageReport | string => {
+    if (script) {
+      const next = script.shift();
+      if (next === undefined) {
+        throw new Error("Mock provider script has no replies left.");
+      }
+      return next;
+    }
+
+    const lastUser = [...history].reverse().find(msg => msg.role === 'user');
+    const text = (lastUser?.text || '').toLowerCase();
+    const fixture = fixtures.find(f => f.keywords.some(keyword => text.includes(keyword))) || DEFAULT_FIXTURE;
+    return fixture.report;
+  };
+
+  const analyze = async ({ history, location, language, promptProfile, signal, onText }: TriageRequest): Promise<AnalysisResult> => {
+    signal?.throwIfAborted();
+    const reply = pickReply(history);
+
+    // Replay the reply in chunks so streaming and cancel behave like a real model
+    if (onText) {
+      const raw = typeof reply === 'string' ? reply : JSON.stringify(reply);
+      const steps = Math.max(1, Math.ceil(raw.length / chunkSize));
+      for (let end = chunkSize; end < raw.length + chunkSize; end += chunkSize) {
+        if (delayMs > 0) await wait(delayMs / steps, signal);
+        onText(raw.slice(0, end));
+      }
+    } else if (delayMs > 0) {
+      await wait(delayMs, signal);
+    }
+
+    // Canned replies ignore the prompt, but report the one a real model would get so audits look the same offline
+    const profile = getPromptProfile(promptProfile);
+    const systemInstruction = buildSystemInstruction(language, { nearbyCare: !!location, profile });
+    return { ...toResult(reply, language), prompt: promptRef(profile, systemInstruction) };
+  };
+
+  return { id: 'mock', model: config.model || 'mock-fixtures', analyze };
+};
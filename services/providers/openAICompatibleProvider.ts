@@ -0,0 +1,111 @@
+import { AnalysisResult, ChatMessage, ProviderConfig, TriageProvider, TriageRequest } from "../../types";
+import { parseTriageReport, reportToMarkdown } from "../triageReport";
+import { buildSystemInstruction, MARKDOWN_RESPONSE_FORMAT, formatUserText, formatModelText } from "../prompt";
+import { TriageError, kindForStatus } from "../triageErrors";
+import { getPromptProfile, promptRef, PromptProfile } from "../promptProfiles";
+import { translatorFor } from "../../i18n/translations";
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+// Most OpenAI-compatible servers only accept images, so other media is described instead of sent
+const formatHistory = (history: ChatMessage[]) => history.map(msg => {
+  if (msg.role === 'model') {
+    return { role: 'assistant', content: formatModelText(msg) };
+  }
+
+  const content: any[] = [];
+  msg.attachments?.forEach(att => {
+    if (att.type === 'image') {
+      content.push({ type: 'image_url', image_url: { url: `data:${att.mimeType};base64,${att.data}` } });
+    } else {
+      content.push({ type: 'text', text: `[System Note: The user attached a ${att.type} recording that this model cannot receive.]` });
+    }
+  });
+  content.push({ type: 'text', text: formatUserText(msg) });
+
+  return { role: 'user', content };
+});
+
+/**
+ * Talks to any server exposing POST /chat/completions, e.g. a local
+ * Ollama, llama.cpp or vLLM instance.
+ */
+export const createOpenAICompatibleProvider = (config: ProviderConfig): TriageProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/$/, '');
+  const model = config.model;
+
+  const complete = async (
+    systemInstruction: string,
+    profile: PromptProfile,
+    { history, signal, onText }: TriageRequest,
+    jsonMode: boolean
+  ): Promise<string> => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        temperature: profile.temperature,
+        stream: true,
+        messages: [{ role: 'system', content: systemInstruction }, ...formatHistory(history)],
+        ...(jsonMode ? { response_format: { type: 'json_object' } } : {})
+      }),
+      signal
+    });
+
+    if (!response.ok || !response.body) {
+      const body = await response.text();
+      throw new TriageError(kindForStatus(response.status, body), `Provider returned ${response.status}: ${body}`, { status: response.status });
+    }
+
+    // Server-sent events: one "data: {...}" line per delta, ending with "data: [DONE]"
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    let text = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+        const choice = JSON.parse(payload).choices?.[0];
+        if (choice?.finish_reason === 'content_filter') {
+          throw new TriageError('safety', 'Reply stopped by the content filter');
+        }
+        text += choice?.delta?.content || '';
+        onText?.(text);
+      }
+    }
+    return text;
+  };
+
+  const analyze = async (request: TriageRequest): Promise<AnalysisResult> => {
+    const profile = getPromptProfile(request.promptProfile);
+    const systemInstruction = buildSystemInstruction(request.language, { profile });
+    const raw = await complete(systemInstruction, profile, request, true);
+    if (!raw.trim()) {
+      throw new TriageError('empty', 'The model returned an empty reply');
+    }
+    const report = parseTriageReport(raw);
+
+    if (report) {
+      return { text: reportToMarkdown(report, translatorFor(request.language || 'en')), report, groundingChunks: [], prompt: promptRef(profile, systemInstruction) };
+    }
+
+    console.warn("Triage reply failed validation, falling back to markdown", raw);
+    const fallbackInstruction = systemInstruction + MARKDOWN_RESPONSE_FORMAT;
+    const fallback = await complete(fallbackInstruction, profile, request, false);
+    if (!fallback.trim()) {
+      throw new TriageError('empty', 'The model returned an empty fallback reply');
+    }
+    return { text: fallback, groundingChunks: [], prompt: promptRef(profile, fallbackInstruction) };
+  };
+
+  return { id: 'openai-compatible', model, analyze };
+};
@@ -0,0 +1,89 @@
+import { AnalysisResult, ChatMessage, MediaAttachment, ProviderConfig, TriageErrorKind, TriageProvider, TriageRequest } from "../../types";
+import { TriageError, kindForStatus } from "../triageErrors";
+
+export const DEFAULT_PROXY_URL = '/api';
+
+// One JSON object per line, written by server/index.ts
+export type ProxyEvent =
+  | { type: 'text', text: string }
+  | { type: 'result', result: AnalysisResult }
+  | { type: 'error', kind: TriageErrorKind, message: string };
+
+// Media the server already holds is sent without its data and found by id
+export type ProxyAttachment = Omit<MediaAttachment, 'data' | 'previewUrl'> & { data?: string };
+export type ProxyMessage = Omit<ChatMessage, 'attachments'> & { attachments?: ProxyAttachment[] };
+
+// Status the server answers with when it no longer holds media left out of a request
+export const MEDIA_MISSING_STATUS = 409;
+
+// Names the conversation whose media the server holds, so tabs sharing an address don't mix
+export const SESSION_HEADER = 'X-Triage-Session';
+
+const toProxyMessages = (history: ChatMessage[], held: Set<string>): ProxyMessage[] =>
+  history.map(msg => msg.attachments
+    ? { ...msg, attachments: msg.attachments.map(({ previewUrl, data, ...att }) => held.has(att.id) ? att : { ...att, data }) }
+    : msg);
+
+/**
+ * Sends the conversation to our own server (see server/index.ts), which
+ * holds the API key and talks to the real model. Nothing secret reaches
+ * the browser. Each photo or recording is posted once; later turns refer
+ * to it by id.
+ */
+export const createProxyProvider = (config: ProviderConfig): TriageProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_PROXY_URL).replace(/\/$/, '');
+  const sentMedia = new Set<string>();
+  const session = crypto.randomUUID();
+
+  const analyze = async ({ history, location, language, promptProfile, signal, onText }: TriageRequest): Promise<AnalysisResult> => {
+    const post = () => fetch(`${baseUrl}/triage`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', [SESSION_HEADER]: session },
+      body: JSON.stringify({ history: toProxyMessages(history, sentMedia), location, language, promptProfile }),
+      signal
+    });
+
+    let response = await post();
+    // The server restarted or dropped our media after a quiet spell; send it in full
+    if (response.status === MEDIA_MISSING_STATUS) {
+      sentMedia.clear();
+      response = await post();
+    }
+
+    // Errors before streaming starts come back as { kind, message } with a status
+    if (!response.ok || !response.body) {
+      const body = await response.text();
+      let kind = kindForStatus(response.status, body);
+      try {
+        kind = JSON.parse(body).kind || kind;
+      } catch {
+        // Not JSON, e.g. a dev server proxy error page
+      }
+      throw new TriageError(kind, `Proxy returned ${response.status}: ${body}`, { status: response.status });
+    }
+    // Accepted, so the server now holds everything in this request
+    history.forEach(msg => msg.attachments?.forEach(att => sentMedia.add(att.id)));
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event: ProxyEvent = JSON.parse(line);
+        if (event.type === 'text') onText?.(event.text);
+        if (event.type === 'result') return event.result;
+        if (event.type === 'error') throw new TriageError(event.kind, event.message);
+      }
+    }
+
+    // The connection closed before the server sent a result
+    throw new TriageError('network', 'Proxy stream ended without a result');
+  };
+
+  return { id: 'proxy', model: config.model, analyze };
+};
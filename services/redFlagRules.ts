@@ -0,0 +1,115 @@
+import { RedFlagRule } from "../types";
+
+/**
+ * Emergency red-flag rules, checked locally before any model call.
+ *
+ * This file is meant to be reviewed by clinicians: each rule is plain data.
+ * What the emergency screen says for a rule lives under redFlag.<id> in
+ * i18n/translations.ts.
+ * Phrases are matched case- and accent-insensitively on word boundaries,
+ * so "Chest pain" and "chest  PAIN" both match "chest pain". Voice-note
+ * transcripts are checked like typed text, and marking one of a rule's
+ * bodyRegions on the body map counts too.
+ */
+export const RED_FLAG_RULES: RedFlagRule[] = [
+  {
+    id: 'chest-pain',
+    phrases: {
+      en: ['chest pain', 'pain in my chest', 'chest pressure', 'chest tightness', 'tight chest', 'crushing chest', 'heart attack'],
+      es: ['dolor de pecho', 'dolor en el pecho', 'presion en el pecho', 'opresion en el pecho', 'infarto', 'ataque al corazon'],
+      fr: ['douleur thoracique', 'douleur a la poitrine', 'douleur dans la poitrine', 'oppression thoracique', 'crise cardiaque'],
+      pt: ['dor no peito', 'pressao no peito', 'aperto no peito', 'ataque cardiaco', 'infarto'],
+      ar: ['ألم في الصدر', 'الم في الصدر', 'بألم في الصدر', 'ألم بالصدر', 'ضغط في الصدر', 'نوبة قلبية']
+    },
+    bodyRegions: ['front-chest']
+  },
+  {
+    id: 'breathing',
+    phrases: {
+      en: ["can't breathe", 'cannot breathe', 'cant breathe', 'trouble breathing', 'difficulty breathing', 'short of breath', 'shortness of breath', 'struggling to breathe', 'choking', 'lips turning blue'],
+      es: ['no puedo respirar', 'dificultad para respirar', 'falta de aire', 'me ahogo', 'labios azules'],
+      fr: ['je ne peux pas respirer', 'difficulte a respirer', 'essoufflement', "manque d'air", 'je m etouffe', 'levres bleues'],
+      pt: ['nao consigo respirar', 'dificuldade para respirar', 'falta de ar', 'sufocando', 'labios roxos'],
+      ar: ['لا أستطيع التنفس', 'ضيق في التنفس', 'صعوبة في التنفس', 'اختناق']
+    }
+  },
+  {
+    id: 'heavy-bleeding',
+    phrases: {
+      en: ['heavy bleeding', "bleeding won't stop", 'bleeding will not stop', "won't stop bleeding", 'bleeding a lot', 'lots of blood', 'spurting blood', 'coughing up blood', 'vomiting blood'],
+      es: ['sangrado abundante', 'hemorragia', 'no para de sangrar', 'mucha sangre', 'vomito sangre', 'tos con sangre'],
+      fr: ['saignement abondant', 'hemorragie', "ne s'arrete pas de saigner", 'beaucoup de sang', 'vomit du sang', 'crache du sang'],
+      pt: ['sangramento intenso', 'hemorragia', 'nao para de sangrar', 'muito sangue', 'vomitando sangue', 'tossindo sangue'],
+      ar: ['نزيف شديد', 'نزيف لا يتوقف', 'نزيف']
+    }
+  },
+  {
+    id: 'stroke-signs',
+    phrases: {
+      en: ['slurred speech', 'slurring', "can't speak", 'trouble speaking', 'face drooping', 'face is drooping', 'drooping face', 'one side of my face', 'numb on one side', 'weak on one side', 'sudden weakness', 'sudden confusion'],
+      es: ['habla arrastrada', 'no puedo hablar', 'cara caida', 'un lado de la cara', 'debilidad en un lado', 'entumecimiento de un lado', 'confusion repentina'],
+      fr: ['difficulte a parler', 'je ne peux pas parler', 'visage affaisse', "un cote du visage", "faiblesse d'un cote", 'engourdissement soudain', 'confusion soudaine'],
+      pt: ['fala arrastada', 'nao consigo falar', 'rosto caido', 'um lado do rosto', 'fraqueza de um lado', 'dormencia de um lado', 'confusao repentina'],
+      ar: ['صعوبة في الكلام', 'تلعثم', 'تدلي الوجه', 'ضعف في جانب واحد', 'خدر في جانب واحد']
+    }
+  },
+  {
+    id: 'unresponsive',
+    phrases: {
+      en: ['passed out', 'fainted', 'unconscious', "won't wake up", 'not waking up', 'seizure', 'convulsing'],
+      es: ['me desmaye', 'se desmayo', 'inconsciente', 'no despierta', 'convulsion', 'convulsiones'],
+      fr: ['evanoui', 'inconscient', 'ne se reveille pas', 'convulsion', 'crise d epilepsie'],
+      pt: ['desmaiei', 'desmaiou', 'inconsciente', 'nao acorda', 'convulsao', 'convulsionando'],
+      ar: ['فقدان الوعي', 'إغماء', 'اغماء', 'تشنجات', 'نوبة صرع']
+    }
+  },
+  {
+    id: 'allergic-reaction',
+    phrases: {
+      en: ['throat is swelling', 'throat swelling', 'throat closing', 'tongue swelling', 'swollen tongue', 'lips swelling', 'anaphylaxis'],
+      es: ['garganta hinchada', 'se me cierra la garganta', 'lengua hinchada', 'labios hinchados', 'anafilaxia'],
+      fr: ['gorge qui gonfle', 'gorge gonflee', 'langue gonflee', 'levres gonflees', 'anaphylaxie'],
+      pt: ['garganta inchada', 'garganta fechando', 'lingua inchada', 'labios inchados', 'anafilaxia'],
+      ar: ['تورم الحلق', 'تورم اللسان', 'تورم الشفاه', 'حساسية شديدة']
+    }
+  },
+  {
+    id: 'self-harm',
+    phrases: {
+      en: ['kill myself', 'suicide', 'suicidal', 'end my life', 'want to die', 'hurt myself', 'self harm'],
+      es: ['suicidarme', 'suicidio', 'quitarme la vida', 'quiero morir', 'hacerme dano'],
+      fr: ['me suicider', 'suicide', 'mettre fin a mes jours', 'envie de mourir', 'me faire du mal'],
+      pt: ['me matar', 'suicidio', 'tirar minha vida', 'quero morrer', 'me machucar'],
+      ar: ['انتحار', 'أريد أن أموت', 'اريد ان اموت', 'إيذاء نفسي']
+    }
+  },
+  {
+    id: 'worst-headache',
+    minPainLevel: 8,
+    phrases: {
+      en: ['worst headache', 'thunderclap headache', 'sudden severe headache'],
+      es: ['peor dolor de cabeza', 'dolor de cabeza repentino'],
+      fr: ['pire mal de tete', 'mal de tete soudain'],
+      pt: ['pior dor de cabeca', 'dor de cabeca repentina'],
+      ar: ['أسوأ صداع', 'صداع مفاجئ']
+    }
+  }
+];
+
+// Words that, directly before a phrase, mean the user is ruling the symptom out ("no chest pain")
+export const NEGATION_CUES: Record<string, string[]> = {
+  en: ['no', 'not', 'without', "don't have", 'never', 'denies'],
+  es: ['no', 'sin', 'nunca'],
+  fr: ['pas de', 'sans', 'jamais', 'aucune', 'aucun'],
+  pt: ['nao', 'sem', 'nunca'],
+  ar: ['لا', 'بدون', 'ليس']
+};
+
+// Words that start a new clause, ending a negation's reach ("no fever but chest pain")
+export const CLAUSE_BREAKS: Record<string, string[]> = {
+  en: ['but', 'and', 'or', 'although', 'though', 'however', 'except'],
+  es: ['pero', 'y', 'e', 'o', 'u', 'sino', 'aunque'],
+  fr: ['mais', 'et', 'ou', 'sauf', 'cependant'],
+  pt: ['mas', 'e', 'ou', 'porem', 'embora'],
+  ar: ['لكن', 'ولكن', 'لكنني', 'و', 'أو', 'او']
+};
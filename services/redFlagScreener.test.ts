@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { screenForRedFlags } from "./redFlagScreener";
+
+const flagged = (text: string, painLevel: number | null = null) =>
+  screenForRedFlags({ text, painLevel }).map(match => match.rule.id);
+
+describe('screenForRedFlags', () => {
+  it('flags a plain phrase regardless of case and accents', () => {
+    assert.deepEqual(flagged('Sudden CHEST  pain since this morning'), ['chest-pain']);
+    assert.deepEqual(flagged('Tengo presión en el pecho'), ['chest-pain']);
+  });
+
+  it('ignores a negated phrase', () => {
+    assert.deepEqual(flagged('no chest pain, just a cough'), []);
+    assert.deepEqual(flagged("I don't have chest pain"), []);
+    assert.deepEqual(flagged('without trouble breathing'), []);
+  });
+
+  it('only negates within a few words', () => {
+    assert.deepEqual(flagged('no cough for weeks now but then chest pain'), ['chest-pain']);
+    assert.deepEqual(flagged('not sure why, my lips are fine. chest pain'), ['chest-pain']);
+    assert.deepEqual(flagged('No. Chest pain'), ['chest-pain']);
+  });
+
+  it('ends the negation at a conjunction', () => {
+    assert.deepEqual(flagged('I have no fever but chest pain'), ['chest-pain']);
+    assert.deepEqual(flagged('no fever and chest pain'), ['chest-pain']);
+    assert.deepEqual(flagged('no fever or chest pain'), ['chest-pain']);
+    assert.deepEqual(flagged('no fever and no chest pain'), []);
+  });
+
+  it('handles negation and conjunctions in Spanish', () => {
+    assert.deepEqual(flagged('no tengo dolor de pecho'), []);
+    assert.deepEqual(flagged('sin fiebre pero dolor de pecho'), ['chest-pain']);
+    assert.deepEqual(flagged('no tengo fiebre y me ahogo'), ['breathing']);
+  });
+
+  it('handles negation and conjunctions in French', () => {
+    assert.deepEqual(flagged('pas de douleur thoracique'), []);
+    assert.deepEqual(flagged('pas de fievre mais une douleur thoracique'), ['chest-pain']);
+    assert.deepEqual(flagged('sans fièvre et essoufflement'), ['breathing']);
+  });
+
+  it('handles negation and conjunctions in Portuguese', () => {
+    assert.deepEqual(flagged('sem dor no peito'), []);
+    assert.deepEqual(flagged('não tenho febre mas dor no peito'), ['chest-pain']);
+    assert.deepEqual(flagged('sem febre e falta de ar'), ['breathing']);
+  });
+
+  it('handles negation and conjunctions in Arabic', () => {
+    assert.deepEqual(flagged('بدون ألم في الصدر'), []);
+    assert.deepEqual(flagged('لا حمى لكن ألم في الصدر'), ['chest-pain']);
+    assert.deepEqual(flagged('بدون حمى و ضيق في التنفس'), ['breathing']);
+  });
+
+  it('checks every language for mixed-language input', () => {
+    assert.deepEqual(flagged('I feel dizzy y no puedo respirar'), ['breathing']);
+  });
+
+  it('screens voice-note transcripts', () => {
+    const attachments = [{ id: '1', type: 'audio' as const, mimeType: 'audio/webm', data: '', transcript: 'crushing chest pain since lunch' }];
+    assert.deepEqual(screenForRedFlags({ text: 'see my voice note', attachments }).map(match => match.rule.id), ['chest-pain']);
+    assert.deepEqual(screenForRedFlags({ text: '', attachments }).map(match => match.rule.id), ['chest-pain']);
+  });
+
+  it('keeps negation inside one transcript', () => {
+    const attachments = [{ id: '1', type: 'audio' as const, mimeType: 'audio/webm', data: '', transcript: 'chest pain' }];
+    assert.deepEqual(screenForRedFlags({ text: 'no', attachments }).map(match => match.rule.id), ['chest-pain']);
+  });
+
+  it('flags a marked body region', () => {
+    const matches = screenForRedFlags({ text: 'it hurts here', bodyRegions: [{ regionId: 'front-chest', sensation: 'sharp' }] });
+    assert.deepEqual(matches.map(match => match.rule.id), ['chest-pain']);
+    assert.equal(matches[0].regionId, 'front-chest');
+    assert.deepEqual(flagged('it hurts here'), []);
+    assert.deepEqual(screenForRedFlags({ text: '', bodyRegions: [{ regionId: 'front-left-knee' }] }), []);
+  });
+
+  it('needs the pain rating for pain-gated rules', () => {
+    assert.deepEqual(flagged('worst headache of my life', 5), []);
+    assert.deepEqual(flagged('worst headache of my life', 9), ['worst-headache']);
+  });
+});
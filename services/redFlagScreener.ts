@@ -0,0 +1,106 @@
+import { BodyRegionSelection, MediaAttachment, RedFlagMatch, RedFlagRule } from "../types";
+import { RED_FLAG_RULES, NEGATION_CUES, CLAUSE_BREAKS } from "./redFlagRules";
+
+export interface ScreeningInput {
+  text: string;
+  painLevel?: number | null;
+  // Voice notes and videos are screened by their transcripts
+  attachments?: MediaAttachment[];
+  bodyRegions?: BodyRegionSelection[];
+}
+
+// How many words before a phrase we look at for "no", "sin", "pas de", ...
+const NEGATION_WINDOW = 3;
+
+/**
+ * Lower-cases, strips accents and collapses punctuation so that phrases
+ * written naturally in the rules match whatever the user typed.
+ * Sentence punctuation is kept as " . " so negation never crosses it.
+ */
+export const normalizeText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[’'`]/g, ' ')
+    .replace(/[.,;:!?¿¡،؟]+/g, ' . ')
+    .replace(/[^\p{L}\p{N}.]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Users mix languages, so any language's conjunction ends the clause
+const CLAUSE_BREAK_WORDS = new Set(Object.values(CLAUSE_BREAKS).flat().map(normalizeText));
+
+const isNegated = (textBefore: string, language: string): boolean => {
+  const words = (textBefore.split('.').pop() || '').trim().split(' ');
+  let clauseStart = 0;
+  words.forEach((word, index) => {
+    if (CLAUSE_BREAK_WORDS.has(word)) clauseStart = index + 1;
+  });
+  const window = words.slice(Math.max(clauseStart, words.length - NEGATION_WINDOW)).join(' ');
+  const cues = NEGATION_CUES[language] || [];
+  return cues.some(cue => new RegExp(`(^|\\s)${escapeRegExp(normalizeText(cue))}(\\s|$)`).test(window));
+};
+
+const findRegion = (regions: BodyRegionSelection[], painLevel: number | null | undefined, rule: RedFlagRule): RedFlagMatch | null => {
+  const region = regions.find(region =>
+    rule.bodyRegions?.includes(region.regionId)
+    && (rule.minPainLevel === undefined || (region.painLevel ?? painLevel ?? 0) >= rule.minPainLevel));
+  return region ? { rule, regionId: region.regionId } : null;
+};
+
+const findPhrase = (text: string, rule: RedFlagRule): RedFlagMatch | null => {
+  for (const [language, phrases] of Object.entries(rule.phrases)) {
+    for (const phrase of phrases) {
+      const pattern = new RegExp(`(^|\\s)${escapeRegExp(normalizeText(phrase))}(?=\\s|$)`, 'g');
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(text)) !== null) {
+        if (!isNegated(text.slice(0, match.index), language)) {
+          return { rule, language, phrase };
+        }
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Runs every red-flag rule against the intake. Purely local and synchronous,
+ * so an emergency warning never waits on the network.
+ * Users often mix languages, so all languages are checked for every input.
+ */
+export const screenForRedFlags = (
+  input: ScreeningInput,
+  rules: RedFlagRule[] = RED_FLAG_RULES
+): RedFlagMatch[] => {
+  // Each transcript is its own sentence, so negation never carries across
+  const transcripts = (input.attachments || []).map(att => att.transcript || '');
+  const text = normalizeText([input.text || '', ...transcripts].join('. '));
+  const regions = input.bodyRegions || [];
+
+  const matches: RedFlagMatch[] = [];
+  rules.forEach(rule => {
+    const phraseAllowed = rule.minPainLevel === undefined || (input.painLevel ?? 0) >= rule.minPainLevel;
+    const match = (phraseAllowed && text && findPhrase(text, rule)) || findRegion(regions, input.painLevel, rule);
+    if (match) matches.push(match);
+  });
+  return matches;
+};
+
+export const getRedFlagRule = (id: string): RedFlagRule | undefined =>
+  RED_FLAG_RULES.find(rule => rule.id === id);
+
+// Best guess from the browser locale; 112 works on most mobile networks worldwide
+const EMERGENCY_NUMBERS: Record<string, string> = {
+  US: '911', CA: '911', MX: '911',
+  GB: '999', IE: '112',
+  AU: '000', NZ: '111',
+  IN: '112', BR: '192', LK: '1990'
+};
+
+export const getEmergencyNumber = (locale: string = navigator.language): string => {
+  const region = locale.split('-')[1]?.toUpperCase();
+  return (region && EMERGENCY_NUMBERS[region]) || '112';
+};
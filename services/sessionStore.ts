@@ -0,0 +1,122 @@
+import { ChatMessage, MediaAttachment, SessionSummary, TriageSession } from "../types";
+import { base64ToBlob, blobToBase64 } from "../utils/mediaUtils";
+import { runRequest as runDbRequest, SESSIONS_STORE } from "./database";
+import { Translate } from "../i18n/translations";
+
+const RETENTION_KEY = 'triage.sessionRetentionDays';
+
+// Attachments are stored as Blobs: smaller than base64 and previewable after a reload
+type StoredAttachment = Omit<MediaAttachment, 'data' | 'previewUrl'> & { blob: Blob };
+type StoredMessage = Omit<ChatMessage, 'attachments'> & { attachments?: StoredAttachment[] };
+type StoredSession = Omit<TriageSession, 'messages'> & { messages: StoredMessage[] };
+
+// Sessions are re-saved after every turn, so avoid decoding the same base64 twice
+const blobCache = new WeakMap<MediaAttachment, Blob>();
+
+const runRequest = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  runDbRequest(SESSIONS_STORE, mode, action);
+
+const toStoredAttachment = (attachment: MediaAttachment): StoredAttachment => {
+  let blob = blobCache.get(attachment);
+  if (!blob) {
+    blob = base64ToBlob(attachment.data, attachment.mimeType);
+    blobCache.set(attachment, blob);
+  }
+  const { data, previewUrl, ...rest } = attachment;
+  return { ...rest, blob };
+};
+
+const fromStoredAttachment = async (stored: StoredAttachment): Promise<MediaAttachment> => {
+  const { blob, ...rest } = stored;
+  const attachment: MediaAttachment = {
+    ...rest,
+    data: await blobToBase64(blob),
+    previewUrl: URL.createObjectURL(blob)
+  };
+  blobCache.set(attachment, blob);
+  return attachment;
+};
+
+export const deriveSessionTitle = (messages: ChatMessage[], t: Translate): string => {
+  const firstUser = messages.find(msg => msg.role === 'user');
+  const text = firstUser?.text?.trim();
+  if (text) {
+    return text.length > 60 ? `${text.slice(0, 57).trimEnd()}...` : text;
+  }
+  const mediaType = firstUser?.attachments?.[0]?.type;
+  if (mediaType === 'image') return t('session.photoCheck');
+  if (mediaType === 'video') return t('session.videoCheck');
+  if (mediaType === 'audio') return t('session.voiceCheck');
+  return t('session.untitled');
+};
+
+export const saveSession = async (session: TriageSession): Promise<void> => {
+  const stored: StoredSession = {
+    ...session,
+    messages: session.messages.map(msg => ({
+      ...msg,
+      attachments: msg.attachments?.map(toStoredAttachment)
+    }))
+  };
+  await runRequest('readwrite', store => store.put(stored));
+};
+
+export const loadSession = async (id: string): Promise<TriageSession | null> => {
+  const stored = await runRequest<StoredSession | undefined>('readonly', store => store.get(id));
+  if (!stored) return null;
+
+  const messages = await Promise.all(stored.messages.map(async msg => ({
+    ...msg,
+    attachments: msg.attachments ? await Promise.all(msg.attachments.map(fromStoredAttachment)) : undefined
+  })));
+
+  return { ...stored, messages };
+};
+
+// Turns on the branch that was on screen, not every edited version
+const branchLength = (messages: StoredMessage[], leafId?: string): number => {
+  if (!leafId) return messages.length;
+  const parents = new Map(messages.map(msg => [msg.id, msg.parentId]));
+  let count = 0;
+  for (let id: string | undefined = leafId; id && parents.has(id); id = parents.get(id)) count++;
+  return count || messages.length;
+};
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const stored = await runRequest<StoredSession[]>('readonly', store => store.getAll());
+  return stored
+    .map(({ messages, ...rest }) => ({ ...rest, messageCount: branchLength(messages, rest.leafId) }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+export const clearSessions = async (): Promise<void> => {
+  await runRequest('readwrite', store => store.clear());
+};
+
+/**
+ * Deletes sessions not touched in the last `maxAgeDays` days.
+ * Returns how many were removed.
+ */
+export const purgeExpiredSessions = async (maxAgeDays: number): Promise<number> => {
+  if (maxAgeDays <= 0) return 0;
+  const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+  const expiredKeys = await runRequest<IDBValidKey[]>('readonly', store =>
+    store.index('updatedAt').getAllKeys(IDBKeyRange.upperBound(cutoff))
+  );
+  await Promise.all(expiredKeys.map(key => deleteSession(String(key))));
+  return expiredKeys.length;
+};
+
+// 0 means keep sessions until the user deletes them
+export const getRetentionDays = (): number => {
+  const value = Number(localStorage.getItem(RETENTION_KEY));
+  return Number.isFinite(value) && value > 0 ? value : 0;
+};
+
+export const setRetentionDays = (days: number) => {
+  localStorage.setItem(RETENTION_KEY, String(days));
+};
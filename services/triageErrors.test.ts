@@ -0,0 +1,55 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { TriageError, kindForStatus, toTriageError } from "./triageErrors";
+
+describe('kindForStatus', () => {
+  it('maps HTTP statuses to kinds', () => {
+    assert.equal(kindForStatus(401), 'invalid-key');
+    assert.equal(kindForStatus(403), 'invalid-key');
+    assert.equal(kindForStatus(429), 'rate-limit');
+    assert.equal(kindForStatus(413), 'too-large');
+    assert.equal(kindForStatus(500), 'unavailable');
+    assert.equal(kindForStatus(503), 'unavailable');
+    assert.equal(kindForStatus(404), 'unknown');
+  });
+
+  it('reads the kind from the body when the status is generic', () => {
+    assert.equal(kindForStatus(400, 'API key not valid. Please pass a valid API key.'), 'invalid-key');
+    assert.equal(kindForStatus(400, 'RESOURCE_EXHAUSTED'), 'rate-limit');
+    assert.equal(kindForStatus(400, 'Request payload size exceeds the limit'), 'too-large');
+    assert.equal(kindForStatus(400, 'Invalid JSON payload'), 'unknown');
+  });
+});
+
+describe('toTriageError', () => {
+  it('returns a TriageError unchanged', () => {
+    const error = new TriageError('safety', 'Blocked');
+    assert.equal(toTriageError(error), error);
+  });
+
+  it('uses the status an SDK error carries', () => {
+    const error = Object.assign(new Error('Too many requests'), { status: 429 });
+    const triageError = toTriageError(error);
+    assert.equal(triageError.kind, 'rate-limit');
+    assert.equal(triageError.status, 429);
+    assert.equal(triageError.cause, error);
+  });
+
+  it('treats a rejected fetch as a network error', () => {
+    assert.equal(toTriageError(new TypeError('Failed to fetch')).kind, 'network');
+    assert.equal(toTriageError(new TypeError('NetworkError when attempting to fetch resource.')).kind, 'network');
+    assert.equal(toTriageError(new TypeError('Load failed')).kind, 'network');
+    assert.equal(toTriageError(new TypeError('fetch failed', { cause: new Error('ECONNREFUSED') })).kind, 'network');
+  });
+
+  it('does not treat other TypeErrors as network errors', () => {
+    const triageError = toTriageError(new TypeError("Cannot read properties of undefined (reading 'text')"));
+    assert.equal(triageError.kind, 'unknown');
+    assert.equal(triageError.transient, false);
+  });
+
+  it('classifies plain errors and non-errors by their message', () => {
+    assert.equal(toTriageError(new Error('You exceeded your current quota')).kind, 'rate-limit');
+    assert.equal(toTriageError('something odd').kind, 'unknown');
+  });
+});
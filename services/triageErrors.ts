@@ -0,0 +1,58 @@
+import { TriageErrorKind } from "../types";
+
+// Worth trying again unchanged; the rest need the user or the developer to act
+const TRANSIENT_KINDS: TriageErrorKind[] = ['network', 'rate-limit', 'empty', 'unavailable'];
+
+/**
+ * A provider failure sorted into something the app can explain and decide
+ * to retry. The message is for logs; the UI shows its own text per kind.
+ */
+export class TriageError extends Error {
+  readonly kind: TriageErrorKind;
+  readonly status?: number;
+
+  constructor(kind: TriageErrorKind, message: string, { status, cause }: { status?: number, cause?: unknown } = {}) {
+    super(message, { cause });
+    this.name = 'TriageError';
+    this.kind = kind;
+    this.status = status;
+  }
+
+  get transient(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+/**
+ * Maps an HTTP status and error body to a kind. Gemini reports a bad key
+ * as 400 INVALID_ARGUMENT, so the body text is checked as well.
+ */
+export const kindForStatus = (status: number, body = ''): TriageErrorKind => {
+  if (/api[ _-]?key/i.test(body) && /invalid|not valid|expired/i.test(body)) return 'invalid-key';
+  if (status === 401 || status === 403) return 'invalid-key';
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(body)) return 'rate-limit';
+  if (status === 413 || /too large|exceeds the maximum|payload size/i.test(body)) return 'too-large';
+  if (status >= 500) return 'unavailable';
+  return 'unknown';
+};
+
+// What fetch rejects with in Chrome, Firefox, Safari and Node when no response arrived
+const FETCH_FAILURE = /failed to fetch|networkerror when attempting to fetch|load failed|fetch failed/i;
+
+// Other TypeErrors are bugs, so only a rejected fetch counts as a network problem
+const isFetchFailure = (error: unknown): boolean =>
+  error instanceof TypeError && (FETCH_FAILURE.test(error.message) || error.cause !== undefined);
+
+export const toTriageError = (error: unknown): TriageError => {
+  if (error instanceof TriageError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+
+  if (status !== undefined) {
+    return new TriageError(kindForStatus(status, message), message, { status, cause: error });
+  }
+  if (isFetchFailure(error) || (error instanceof TypeError && typeof navigator !== 'undefined' && !navigator.onLine)) {
+    return new TriageError('network', message, { cause: error });
+  }
+  return new TriageError(kindForStatus(0, message), message, { cause: error });
+};
@@ -0,0 +1,102 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseTriageReport, previewPartialReport, validateTriageReport } from "./triageReport";
+import { translatorFor } from "../i18n/translations";
+
+const REPORT = {
+  urgency: 'see-doctor',
+  urgencyReason: 'The rash has spread for three days.',
+  observations: ['Red patches on the forearm'],
+  possibleCauses: [{ name: 'Contact dermatitis', explanation: 'A reaction to something touched.' }],
+  doctorQuestions: ['Could this be an allergy?'],
+  nextSteps: ['Avoid new soaps'],
+  followUpQuestions: [{ question: 'Does it itch?', answers: ['Yes', 'No'] }]
+};
+
+describe('validateTriageReport', () => {
+  it('accepts a complete report', () => {
+    assert.deepEqual(validateTriageReport(REPORT), REPORT);
+  });
+
+  it('rejects values that are not a report', () => {
+    assert.equal(validateTriageReport(null), null);
+    assert.equal(validateTriageReport('see-doctor'), null);
+    assert.equal(validateTriageReport({ ...REPORT, urgency: 'soon' }), null);
+    assert.equal(validateTriageReport({ ...REPORT, observations: 'Red patches' }), null);
+    assert.equal(validateTriageReport({ ...REPORT, possibleCauses: [{ name: 'Eczema' }] }), null);
+  });
+
+  it('rejects a report with an empty required section', () => {
+    assert.equal(validateTriageReport({ ...REPORT, observations: [] }), null);
+    assert.equal(validateTriageReport({ ...REPORT, nextSteps: [] }), null);
+  });
+
+  it('drops bad quick replies instead of failing', () => {
+    const report = validateTriageReport({
+      ...REPORT,
+      followUpQuestions: [
+        { question: ' Does it itch? ', answers: [' Yes ', '', 'No', 'A bit', 'Sometimes', 'Never'] },
+        { question: '', answers: ['Yes'] },
+        { question: 'Fever?', answers: [] },
+        'not a question'
+      ]
+    });
+    assert.deepEqual(report?.followUpQuestions, [{ question: 'Does it itch?', answers: ['Yes', 'No', 'A bit', 'Sometimes'] }]);
+    assert.deepEqual(validateTriageReport({ ...REPORT, followUpQuestions: undefined })?.followUpQuestions, []);
+  });
+});
+
+describe('parseTriageReport', () => {
+  it('reads JSON wrapped in a code fence or a sentence', () => {
+    assert.deepEqual(parseTriageReport('```json\n' + JSON.stringify(REPORT) + '\n```'), REPORT);
+    assert.deepEqual(parseTriageReport(`Here is my assessment: ${JSON.stringify(REPORT)} Take care.`), REPORT);
+  });
+
+  it('returns null for text that is not a report', () => {
+    assert.equal(parseTriageReport('**Get help now.**'), null);
+    assert.equal(parseTriageReport('{"urgency": "emergency"'), null);
+  });
+});
+
+const english = translatorFor('en');
+const STREAMED = JSON.stringify(REPORT);
+
+// Every prefix of the full reply, as it would arrive while streaming
+const prefixes = (text: string) => Array.from({ length: text.length }, (_, end) => text.slice(0, end + 1));
+
+describe('previewPartialReport', () => {
+  it('renders a complete report as markdown', () => {
+    const preview = previewPartialReport(STREAMED, english);
+    assert.match(preview, /\*\*🚦 Book a Doctor Visit\*\*/);
+    assert.match(preview, /\* Red patches on the forearm/);
+    assert.match(preview, /\* Contact dermatitis: A reaction to something touched\./);
+    assert.doesNotMatch(preview, /Does it itch/);
+  });
+
+  it('never shows a key, even one cut off mid-stream', () => {
+    const keys = ['urgency', 'urgencyReason', 'observations', 'possibleCauses', 'name', 'explanation', 'doctorQuestions', 'nextSteps', 'followUpQuestions', 'question', 'answers'];
+    for (const partial of prefixes(STREAMED)) {
+      for (const line of previewPartialReport(partial, english).split('\n')) {
+        const text = line.replace(/^\* /, '');
+        assert.ok(!(text.length > 1 && keys.some(key => key.startsWith(text))), `"${line}" leaked from ${partial}`);
+      }
+    }
+  });
+
+  it('shows a value that is still being written', () => {
+    assert.equal(previewPartialReport('{"urgencyReason": "The rash has spr', english), 'The rash has spr');
+    assert.equal(previewPartialReport('{"observations": ["Red patches", "Some scr', english), '**👁️ What I Noticed**\n\n* Red patches\n* Some scr');
+  });
+
+  it('skips a complete key still waiting for its colon', () => {
+    assert.equal(previewPartialReport('{"urgency": "emergency", "observations"', english), '**🚦 Get Help Now**');
+  });
+
+  it('handles a code fence around the JSON', () => {
+    assert.equal(previewPartialReport('```json\n{"urgencyReason": "Call now', english), 'Call now');
+  });
+
+  it('returns plain-text replies unchanged', () => {
+    assert.equal(previewPartialReport('**Get help now.** Call your local number.', english), '**Get help now.** Call your local number.');
+  });
+});
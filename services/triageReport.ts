@@ -0,0 +1,265 @@
+import { Type, Schema } from "@google/genai";
+import { TriageReport, UrgencyLevel, PossibleCause, FollowUpQuestion } from "../types";
+import { Translate, TranslationKey } from "../i18n/translations";
+
+export const URGENCY_LEVELS: UrgencyLevel[] = ['emergency', 'urgent', 'see-doctor', 'self-care'];
+
+// Lower rank = more urgent, so reports can be sorted with a plain numeric compare
+export const URGENCY_RANK: Record<UrgencyLevel, number> = {
+  'emergency': 0,
+  'urgent': 1,
+  'see-doctor': 2,
+  'self-care': 3
+};
+
+export const TRIAGE_REPORT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    urgency: {
+      type: Type.STRING,
+      enum: URGENCY_LEVELS,
+      description: "How quickly the user should get care."
+    },
+    urgencyReason: {
+      type: Type.STRING,
+      description: "One plain-language sentence explaining the urgency."
+    },
+    observations: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "What you noticed in the media, text and pain level."
+    },
+    possibleCauses: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          explanation: { type: Type.STRING }
+        },
+        required: ['name', 'explanation']
+      },
+      description: "2-3 simple possibilities in plain language."
+    },
+    doctorQuestions: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "3 simple questions to ask a doctor."
+    },
+    nextSteps: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Clear, kind advice on what to do next."
+    },
+    followUpQuestions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          question: { type: Type.STRING },
+          answers: { type: Type.ARRAY, items: { type: Type.STRING } }
+        },
+        required: ['question', 'answers']
+      },
+      description: "2-4 clarifying questions for the user, each with 2-4 short tappable answers."
+    }
+  },
+  required: ['urgency', 'urgencyReason', 'observations', 'possibleCauses', 'doctorQuestions', 'nextSteps', 'followUpQuestions'],
+  propertyOrdering: ['urgency', 'urgencyReason', 'observations', 'possibleCauses', 'doctorQuestions', 'nextSteps', 'followUpQuestions']
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isPossibleCause = (value: unknown): value is PossibleCause => {
+  if (!value || typeof value !== 'object') return false;
+  const cause = value as Record<string, unknown>;
+  return typeof cause.name === 'string' && typeof cause.explanation === 'string';
+};
+
+const MAX_FOLLOW_UP_QUESTIONS = 4;
+const MAX_ANSWERS = 4;
+
+// Quick replies are a nice-to-have: bad entries are dropped rather than failing the report
+const toFollowUpQuestions = (value: unknown): FollowUpQuestion[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is FollowUpQuestion =>
+      !!item && typeof item.question === 'string' && item.question.trim() !== '' && isStringArray(item.answers))
+    .map(item => ({
+      question: item.question.trim(),
+      answers: item.answers.map(answer => answer.trim()).filter(Boolean).slice(0, MAX_ANSWERS)
+    }))
+    .filter(item => item.answers.length > 0)
+    .slice(0, MAX_FOLLOW_UP_QUESTIONS);
+};
+
+/**
+ * Checks an untrusted value against the TriageReport shape.
+ * Returns null instead of throwing so callers can fall back to plain text.
+ */
+export const validateTriageReport = (value: unknown): TriageReport | null => {
+  if (!value || typeof value !== 'object') return null;
+  const candidate = value as Record<string, unknown>;
+
+  if (!URGENCY_LEVELS.includes(candidate.urgency as UrgencyLevel)) return null;
+  if (typeof candidate.urgencyReason !== 'string') return null;
+  if (!isStringArray(candidate.observations)) return null;
+  if (!Array.isArray(candidate.possibleCauses) || !candidate.possibleCauses.every(isPossibleCause)) return null;
+  if (!isStringArray(candidate.doctorQuestions)) return null;
+  if (!isStringArray(candidate.nextSteps)) return null;
+
+  // Every section must have something in it, otherwise the reply is not useful as a report
+  if (candidate.observations.length === 0 || candidate.nextSteps.length === 0) return null;
+
+  return {
+    urgency: candidate.urgency as UrgencyLevel,
+    urgencyReason: candidate.urgencyReason,
+    observations: candidate.observations,
+    possibleCauses: candidate.possibleCauses,
+    doctorQuestions: candidate.doctorQuestions,
+    nextSteps: candidate.nextSteps,
+    followUpQuestions: toFollowUpQuestions(candidate.followUpQuestions)
+  };
+};
+
+// Models occasionally wrap JSON in a ```json fence even in JSON mode
+export const stripCodeFence = (raw: string): string =>
+  raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+// Grounded replies can't use schema mode and sometimes wrap the JSON in a sentence
+const extractJsonObject = (raw: string): string => {
+  const text = stripCodeFence(raw);
+  if (text.startsWith('{')) return text;
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text;
+};
+
+export const parseTriageReport = (raw: string): TriageReport | null => {
+  try {
+    return validateTriageReport(JSON.parse(extractJsonObject(raw)));
+  } catch {
+    return null;
+  }
+};
+
+type ReportSection = 'observations' | 'possibleCauses' | 'doctorQuestions' | 'nextSteps';
+
+const SECTION_ICONS: Record<ReportSection, string> = {
+  observations: '👁️',
+  possibleCauses: '💡',
+  doctorQuestions: '🩺',
+  nextSteps: '🧭'
+};
+
+const isReportSection = (key: string): key is ReportSection => key in SECTION_ICONS;
+
+const sectionTitle = (section: ReportSection, t: Translate) => `${SECTION_ICONS[section]} ${t(`report.${section}`)}`;
+
+const urgencyKey = (urgency: UrgencyLevel): TranslationKey => `urgency.${urgency}`;
+
+/**
+ * Renders a report as markdown in the reply language. This is stored as the
+ * message text so that read-aloud and any plain-text consumers keep working.
+ */
+export const reportToMarkdown = (report: TriageReport, t: Translate): string => {
+  const bullets = (items: string[]) => items.map(item => `* ${item}`).join('\n');
+
+  return [
+    `**🚦 ${t(urgencyKey(report.urgency))}**`,
+    report.urgencyReason,
+    `**${sectionTitle('observations', t)}**`,
+    bullets(report.observations),
+    `**${sectionTitle('possibleCauses', t)}**`,
+    bullets(report.possibleCauses.map(cause => `${cause.name}: ${cause.explanation}`)),
+    `**${sectionTitle('doctorQuestions', t)}**`,
+    bullets(report.doctorQuestions),
+    `**${sectionTitle('nextSteps', t)}**`,
+    bullets(report.nextSteps)
+  ].join('\n\n');
+};
+
+/**
+ * Turns a partially streamed JSON report into readable markdown, so users
+ * see the answer forming instead of raw JSON. Tolerates a cut-off string at
+ * the end. Plain-text (fallback) replies are returned unchanged.
+ */
+export const previewPartialReport = (raw: string, t: Translate): string => {
+  const trimmed = raw.trimStart();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('```')) return raw;
+
+  const json = stripCodeFence(trimmed);
+  const values: { key: string, field: string, value: string }[] = [];
+  const containers: ('object' | 'array')[] = [];
+  let currentKey = '';
+  let currentField = '';
+  // Set after a ':' until its value is read, so keys are never shown as text
+  let afterColon = false;
+  let i = 0;
+
+  while (i < json.length) {
+    const char = json[i];
+    if (char === '{') containers.push('object');
+    else if (char === '[') containers.push('array');
+    else if (char === '}' || char === ']') containers.pop();
+    if (char === ':') afterColon = true;
+    else if (char === ',' || char === '{' || char === '[') afterColon = false;
+    else if (char === '"') {
+      let value = '';
+      let j = i + 1;
+      while (j < json.length && json[j] !== '"') {
+        if (json[j] === '\\' && j + 1 < json.length) {
+          const escaped = json[j + 1];
+          value += escaped === 'n' ? '\n' : escaped;
+          j += 2;
+        } else {
+          value += json[j];
+          j++;
+        }
+      }
+      const isValue = afterColon || containers[containers.length - 1] === 'array';
+      const terminated = j < json.length;
+      if (!isValue) {
+        // Nested cause objects use "name"/"explanation"; keep the parent section key.
+        // A key cut off mid-stream is skipped until it is complete
+        if (terminated && containers.length <= 1) currentKey = value;
+        else if (terminated) currentField = value;
+      } else if (value) {
+        values.push({ key: currentKey, field: containers.length > 2 ? currentField : '', value });
+      }
+      afterColon = false;
+      i = j + 1;
+      continue;
+    }
+    i++;
+  }
+
+  const blocks: string[] = [];
+  let lastKey = '';
+  values.forEach(({ key, field, value }) => {
+    if (key === 'urgency') {
+      if (URGENCY_LEVELS.includes(value as UrgencyLevel)) blocks.push(`**🚦 ${t(urgencyKey(value as UrgencyLevel))}**`);
+      return;
+    }
+    if (key === 'urgencyReason') {
+      blocks.push(value);
+      return;
+    }
+    // Quick replies appear as chips once the reply is complete
+    if (key === 'followUpQuestions') return;
+    if (key !== lastKey && isReportSection(key)) {
+      blocks.push(`**${sectionTitle(key, t)}**`, '');
+    }
+    lastKey = key;
+    if (field === 'explanation' && blocks.length > 0) {
+      blocks[blocks.length - 1] += `: ${value}`;
+      return;
+    }
+    const bullet = `* ${value}`;
+    const last = blocks.length - 1;
+    blocks[last] = blocks[last] ? `${blocks[last]}\n${bullet}` : bullet;
+  });
+
+  return blocks.join('\n\n');
+};
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeHealthCondition } from "./triageService";
+import { TriageError } from "./triageErrors";
+import { AnalysisResult, ChatMessage, TriageProvider } from "../types";
+
+const HISTORY: ChatMessage[] = [{ id: '1', role: 'user', text: 'I have a rash on my arm', timestamp: 0 }];
+const RESULT: AnalysisResult = { text: 'See a doctor', groundingChunks: [] };
+
+// Fails with each error in turn, then answers
+const failingProvider = (errors: unknown[]): TriageProvider & { calls: number } => {
+  const provider = {
+    id: 'mock' as const,
+    model: 'test',
+    calls: 0,
+    analyze: async () => {
+      const error = errors[provider.calls++];
+      if (error) throw error;
+      return RESULT;
+    }
+  };
+  return provider;
+};
+
+describe('analyzeHealthCondition retries', () => {
+  beforeEach(() => {
+    mock.method(console, 'error', () => {});
+    // Shortest backoff, so the retries finish in about a second
+    mock.method(Math, 'random', () => 0);
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('retries a transient failure and returns the answer', async () => {
+    const provider = failingProvider([new TriageError('unavailable', 'Overloaded', { status: 503 })]);
+    const retries: number[] = [];
+    const result = await analyzeHealthCondition(HISTORY, null, { provider, onRetry: attempt => retries.push(attempt) });
+    assert.equal(result, RESULT);
+    assert.equal(provider.calls, 2);
+    assert.deepEqual(retries, [1]);
+  });
+
+  it('does not retry a failure the user has to fix', async () => {
+    const provider = failingProvider([new TriageError('invalid-key', 'Bad key', { status: 401 })]);
+    await assert.rejects(analyzeHealthCondition(HISTORY, null, { provider }), { kind: 'invalid-key' });
+    assert.equal(provider.calls, 1);
+  });
+
+  it('does not retry a bug in the provider', async () => {
+    const provider = failingProvider([new TypeError("Cannot read properties of undefined (reading 'text')")]);
+    await assert.rejects(analyzeHealthCondition(HISTORY, null, { provider }), { kind: 'unknown' });
+    assert.equal(provider.calls, 1);
+  });
+
+  it('gives up after three attempts', async () => {
+    const offline = new TypeError('Failed to fetch');
+    const provider = failingProvider([offline, offline, offline, offline]);
+    await assert.rejects(analyzeHealthCondition(HISTORY, null, { provider }), { kind: 'network' });
+    assert.equal(provider.calls, 3);
+  });
+
+  it('stops waiting when the request is aborted', async () => {
+    const provider = failingProvider([new TriageError('rate-limit', 'Slow down', { status: 429 })]);
+    const controller = new AbortController();
+    const pending = analyzeHealthCondition(HISTORY, null, { provider, signal: controller.signal, onRetry: () => controller.abort() });
+    await assert.rejects(pending, { name: 'AbortError' });
+    assert.equal(provider.calls, 1);
+  });
+});
@@ -0,0 +1,54 @@
+import { AnalysisResult, ChatMessage, LanguageCode, PromptProfileId, TriageProvider } from "../types";
+import { getDefaultProvider } from "./providers";
+import { TriageError, toTriageError } from "./triageErrors";
+import { compactHistory } from "./contextManager";
+import { wait } from "../utils/wait";
+
+// One try plus two retries, waiting about 1s then 2s
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 1000;
+
+export interface AnalyzeOptions {
+  language?: LanguageCode;
+  promptProfile?: PromptProfileId;
+  signal?: AbortSignal;
+  onText?: (partialText: string) => void;
+  // Called before each automatic retry, so partial output can be cleared
+  onRetry?: (attempt: number, error: TriageError) => void;
+  provider?: TriageProvider;
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+/**
+ * Runs one triage turn. Long conversations are compacted to the token
+ * budget first. Transient failures are retried with exponential backoff;
+ * anything else surfaces as a TriageError whose kind the UI explains.
+ */
+export const analyzeHealthCondition = async (
+  history: ChatMessage[],
+  location?: { lat: number, lng: number } | null,
+  { language, promptProfile, signal, onText, onRetry, provider = getDefaultProvider() }: AnalyzeOptions = {}
+): Promise<AnalysisResult> => {
+  const compacted = compactHistory(history);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await provider.analyze({ history: compacted.history, location, language, promptProfile, signal, onText });
+    } catch (error) {
+      // A user-initiated stop is not a failure; let the caller keep what streamed so far
+      if (signal?.aborted || isAbortError(error)) {
+        throw error;
+      }
+      const triageError = toTriageError(error);
+      console.error(`Triage provider error (${provider.id}/${provider.model}, ${triageError.kind}, attempt ${attempt}):`, error);
+      if (!triageError.transient || attempt >= MAX_ATTEMPTS) {
+        throw triageError;
+      }
+      onRetry?.(attempt, triageError);
+      // Jitter keeps several tabs from retrying in lockstep
+      await wait(BASE_BACKOFF_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5), signal);
+    }
+  }
+};
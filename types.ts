@@ -4,27 +4,275 @@ export interface MediaAttachment {
   mimeType: string;
   data: string; // Base64 string
   previewUrl?: string; // For displaying to user
+  sizeBytes?: number; // Decoded size, used to pick inline vs. Files API upload
+  transcript?: string; // What was said in a voice note, editable by the user
 }
 
 export interface ChatMessage {
   id: string;
+  // Turn this one answers or follows; unset on the first message
+  parentId?: string;
   role: 'user' | 'model';
   text?: string;
   attachments?: MediaAttachment[];
   painLevel?: number | null;
-  groundingChunks?: any[];
+  bodyRegions?: BodyRegionSelection[];
+  redFlags?: string[]; // Ids of red-flag rules the user chose to continue past
+  profile?: PatientProfile; // Profile details the user chose to share, on the first message only
+  subject?: ConsultationSubject; // Who the consultation is about, on the first message only
+  diary?: DiarySnapshot; // Symptom diary this check follows up, on the first message only
+  photoComparison?: PhotoComparison; // Then-vs-now pair among this message's attachments
+  promptProfile?: PromptProfileId; // Triage mode picked at intake, on the first message only
+  prompt?: PromptRef; // Prompt profile and version that produced this reply
+  report?: TriageReport;
+  interrupted?: boolean; // Model reply stopped by the user before it finished
+  groundingChunks?: GroundingChunk[]; // Sources the reply was grounded on
   timestamp: number;
 }
 
+export type ProfileSex = 'female' | 'male' | 'other';
+
+export interface PatientProfile {
+  age?: number;
+  // Only for babies under two, where whole years say too little
+  ageMonths?: number;
+  weightKg?: number;
+  sex?: ProfileSex;
+  pregnant?: boolean;
+  conditions: string[];
+  medications: string[];
+  allergies: string[];
+}
+
+export type ProfileField = 'age' | 'weight' | 'sex' | 'pregnant' | 'conditions' | 'medications' | 'allergies';
+
+export type ProfileRelationship = 'self' | 'child' | 'parent' | 'partner' | 'other';
+
+// One person in the household whose symptoms can be checked
+export interface HouseholdProfile extends PatientProfile {
+  id: string;
+  name: string;
+  relationship: ProfileRelationship;
+}
+
+/**
+ * Snapshot of who a consultation is about. The name is shown locally only;
+ * the model is told the relationship, never the name.
+ */
+export interface ConsultationSubject {
+  profileId: string;
+  name: string;
+  relationship: ProfileRelationship;
+}
+
+export type BodyView = 'front' | 'back';
+
+export type Sensation = 'sharp' | 'dull' | 'burning' | 'throbbing' | 'tingling' | 'aching';
+
+export interface BodyRegionSelection {
+  regionId: string;
+  painLevel?: number | null;
+  sensation?: Sensation | null;
+}
+
+export interface TriageSession {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  subject?: ConsultationSubject;
+  messages: ChatMessage[]; // Every branch; older sessions are one branch without parentIds
+  leafId?: string; // Last message of the branch that was on screen
+  treeVersion?: number; // TREE_VERSION when messages link by parentId; missing on older sessions
+}
+
+/**
+ * Every turn of a consultation, including edited and regenerated
+ * alternatives. What is shown is the path from the root to `leafId`.
+ */
+export interface ConversationTree {
+  messages: ChatMessage[];
+  leafId: string | null;
+}
+
+export type SessionSummary = Omit<TriageSession, 'messages'> & {
+  messageCount: number;
+};
+
+export interface DiaryEntry {
+  id: string;
+  date: string; // Local calendar day, YYYY-MM-DD
+  painLevel: number | null;
+  symptoms: string;
+  notes: string;
+}
+
+// One condition followed over days or weeks, e.g. "Left knee"
+export interface SymptomDiary {
+  id: string;
+  name: string;
+  profileId: string;
+  createdAt: number;
+  updatedAt: number;
+  entries: DiaryEntry[]; // Oldest first
+}
+
+// The diary as it stood when a follow-up check was started
+export type DiarySnapshot = Pick<SymptomDiary, 'id' | 'name' | 'entries'>;
+
+export type PainTrendDirection = 'worsening' | 'improving' | 'stable';
+
+export interface PainTrend {
+  from: DiaryEntry;
+  to: DiaryEntry;
+  days: number;
+  direction: PainTrendDirection;
+}
+
+export type UrgencyLevel = 'emergency' | 'urgent' | 'see-doctor' | 'self-care';
+
+export interface PossibleCause {
+  name: string;
+  explanation: string;
+}
+
+export interface TriageReport {
+  urgency: UrgencyLevel;
+  urgencyReason: string;
+  observations: string[];
+  possibleCauses: PossibleCause[];
+  doctorQuestions: string[];
+  nextSteps: string[];
+  followUpQuestions?: FollowUpQuestion[]; // Missing on reports saved before quick replies
+}
+
+// A clarifying question the user can answer with one tap
+export interface FollowUpQuestion {
+  question: string;
+  answers: string[];
+}
+
+export type RedFlagRuleId =
+  | 'chest-pain' | 'breathing' | 'heavy-bleeding' | 'stroke-signs'
+  | 'unresponsive' | 'allergic-reaction' | 'self-harm' | 'worst-headache';
+
+export interface RedFlagRule {
+  // Reason and advice shown to the user are the redFlag.<id>.* translations
+  id: RedFlagRuleId;
+  // Phrases per language code, matched against the lower-cased, accent-free text
+  phrases: Record<string, string[]>;
+  // When set, the rule also needs the pain rating to be at least this high
+  minPainLevel?: number;
+  // Body map regions that count as a match when marked
+  bodyRegions?: string[];
+}
+
+// A phrase in one of the rule's languages, or a region marked on the body map
+export interface RedFlagMatch {
+  rule: RedFlagRule;
+  language?: string;
+  phrase?: string;
+  regionId?: string;
+}
+
+/**
+ * A source the model cited, in the shape Gemini returns it: a web page from
+ * Search or a place from Maps. Only the fields we show are kept.
+ */
+export interface GroundingChunk {
+  web?: { uri: string, title?: string, domain?: string };
+  maps?: { uri: string, title?: string, placeId?: string, text?: string };
+}
+
 export interface AnalysisResult {
   text: string;
-  groundingChunks?: any[];
+  report?: TriageReport;
+  groundingChunks?: GroundingChunk[];
+  prompt?: PromptRef;
+}
+
+// UI and response languages; matches the red-flag phrase lists
+export type LanguageCode = 'en' | 'es' | 'fr' | 'pt' | 'ar';
+
+// Specialised system prompts; see services/promptProfiles.ts
+export type PromptProfileId = 'general' | 'pediatric' | 'elderly' | 'skin' | 'mental-health';
+
+export interface PromptRef {
+  id: PromptProfileId;
+  version: number;
+  // Hash of the full system instruction sent, so edits to the shared text show up too.
+  // Missing on replies saved before it was recorded.
+  hash?: string;
+}
+
+export type ProviderId = 'gemini' | 'mock' | 'openai-compatible' | 'proxy';
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
 }
 
+export interface TriageRequest {
+  history: ChatMessage[];
+  location?: { lat: number, lng: number } | null;
+  // Language the reply should be written in
+  language?: LanguageCode;
+  promptProfile?: PromptProfileId;
+  signal?: AbortSignal;
+  // Called with the full text received so far, each time a new chunk arrives
+  onText?: (partialText: string) => void;
+}
+
+export interface TriageProvider {
+  id: ProviderId;
+  model: string;
+  analyze: (request: TriageRequest) => Promise<AnalysisResult>;
+}
+
+export type TriageErrorKind =
+  | 'network'
+  | 'rate-limit' // Includes an exhausted quota
+  | 'invalid-key'
+  | 'safety' // The model or its filters refused to answer
+  | 'too-large'
+  | 'empty'
+  | 'unavailable' // The service itself is down or overloaded
+  | 'unknown';
+
 export enum AppState {
   IDLE = 'IDLE',
   RECORDING = 'RECORDING',
   ANALYZING = 'ANALYZING',
   RESULT = 'RESULT',
   ERROR = 'ERROR'
-}
\ No newline at end of file
+}
+
+// A spot on the body whose photos are followed over time, e.g. "Left forearm"
+export interface PhotoSite {
+  id: string;
+  name: string;
+  profileId: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SitePhoto {
+  id: string;
+  siteId: string;
+  takenAt: number;
+  mimeType: string;
+  blob: Blob;
+}
+
+export interface ComparedPhoto {
+  attachmentId: string;
+  takenAt: number;
+}
+
+export interface PhotoComparison {
+  siteName: string;
+  before: ComparedPhoto;
+  after: ComparedPhoto;
+}
@@ -0,0 +1,77 @@
+import { BodyRegionSelection, BodyView, Sensation } from '../types';
+import { Translate } from '../i18n/translations';
+
+export type BodyRegionId =
+  | 'front-head' | 'front-neck' | 'front-right-shoulder' | 'front-left-shoulder'
+  | 'front-chest' | 'front-abdomen' | 'front-pelvis' | 'front-right-arm'
+  | 'front-left-arm' | 'front-right-hand' | 'front-left-hand' | 'front-right-thigh'
+  | 'front-left-thigh' | 'front-right-knee' | 'front-left-knee' | 'front-right-foot'
+  | 'front-left-foot' | 'back-head' | 'back-neck' | 'back-left-shoulder'
+  | 'back-right-shoulder' | 'back-upper' | 'back-lower' | 'back-buttocks'
+  | 'back-left-arm' | 'back-right-arm' | 'back-left-hamstring' | 'back-right-hamstring'
+  | 'back-left-calf' | 'back-right-calf' | 'back-left-heel' | 'back-right-heel';
+
+// Labels are the bodyRegion.<id> translations
+export interface BodyRegion {
+  id: BodyRegionId;
+  view: BodyView;
+  // Drawn in a 200 x 420 viewBox; "r" makes it a circle, otherwise a rounded rect
+  shape: { x: number, y: number, w?: number, h?: number, r?: number };
+}
+
+export const SENSATIONS: Sensation[] = ['sharp', 'dull', 'burning', 'throbbing', 'tingling', 'aching'];
+
+// Front view is drawn facing the user, so the person's right side is on the viewer's left
+export const BODY_REGIONS: BodyRegion[] = [
+  { id: 'front-head', view: 'front', shape: { x: 100, y: 40, r: 26 } },
+  { id: 'front-neck', view: 'front', shape: { x: 88, y: 66, w: 24, h: 16 } },
+  { id: 'front-right-shoulder', view: 'front', shape: { x: 52, y: 94, r: 14 } },
+  { id: 'front-left-shoulder', view: 'front', shape: { x: 148, y: 94, r: 14 } },
+  { id: 'front-chest', view: 'front', shape: { x: 66, y: 82, w: 68, h: 66 } },
+  { id: 'front-abdomen', view: 'front', shape: { x: 68, y: 150, w: 64, h: 54 } },
+  { id: 'front-pelvis', view: 'front', shape: { x: 68, y: 206, w: 64, h: 34 } },
+  { id: 'front-right-arm', view: 'front', shape: { x: 30, y: 110, w: 22, h: 100 } },
+  { id: 'front-left-arm', view: 'front', shape: { x: 148, y: 110, w: 22, h: 100 } },
+  { id: 'front-right-hand', view: 'front', shape: { x: 41, y: 224, r: 12 } },
+  { id: 'front-left-hand', view: 'front', shape: { x: 159, y: 224, r: 12 } },
+  { id: 'front-right-thigh', view: 'front', shape: { x: 68, y: 242, w: 30, h: 80 } },
+  { id: 'front-left-thigh', view: 'front', shape: { x: 102, y: 242, w: 30, h: 80 } },
+  { id: 'front-right-knee', view: 'front', shape: { x: 70, y: 324, w: 26, h: 64 } },
+  { id: 'front-left-knee', view: 'front', shape: { x: 104, y: 324, w: 26, h: 64 } },
+  { id: 'front-right-foot', view: 'front', shape: { x: 83, y: 402, r: 12 } },
+  { id: 'front-left-foot', view: 'front', shape: { x: 117, y: 402, r: 12 } },
+
+  { id: 'back-head', view: 'back', shape: { x: 100, y: 40, r: 26 } },
+  { id: 'back-neck', view: 'back', shape: { x: 88, y: 66, w: 24, h: 16 } },
+  { id: 'back-left-shoulder', view: 'back', shape: { x: 52, y: 94, r: 14 } },
+  { id: 'back-right-shoulder', view: 'back', shape: { x: 148, y: 94, r: 14 } },
+  { id: 'back-upper', view: 'back', shape: { x: 66, y: 82, w: 68, h: 66 } },
+  { id: 'back-lower', view: 'back', shape: { x: 68, y: 150, w: 64, h: 54 } },
+  { id: 'back-buttocks', view: 'back', shape: { x: 68, y: 206, w: 64, h: 34 } },
+  { id: 'back-left-arm', view: 'back', shape: { x: 30, y: 110, w: 22, h: 100 } },
+  { id: 'back-right-arm', view: 'back', shape: { x: 148, y: 110, w: 22, h: 100 } },
+  { id: 'back-left-hamstring', view: 'back', shape: { x: 68, y: 242, w: 30, h: 80 } },
+  { id: 'back-right-hamstring', view: 'back', shape: { x: 102, y: 242, w: 30, h: 80 } },
+  { id: 'back-left-calf', view: 'back', shape: { x: 70, y: 324, w: 26, h: 64 } },
+  { id: 'back-right-calf', view: 'back', shape: { x: 104, y: 324, w: 26, h: 64 } },
+  { id: 'back-left-heel', view: 'back', shape: { x: 83, y: 402, r: 12 } },
+  { id: 'back-right-heel', view: 'back', shape: { x: 117, y: 402, r: 12 } }
+];
+
+export const getBodyRegion = (id: string): BodyRegion | undefined =>
+  BODY_REGIONS.find(region => region.id === id);
+
+export const bodyRegionLabel = (id: string, t: Translate): string => {
+  const region = getBodyRegion(id);
+  return region ? t(`bodyRegion.${region.id}`) : id;
+};
+
+// "Left knee / shin (sharp, 6/10)"
+export const describeBodyRegion = (selection: BodyRegionSelection, t: Translate): string => {
+  const label = bodyRegionLabel(selection.regionId, t);
+  const details = [
+    selection.sensation && t(`sensation.${selection.sensation}`),
+    selection.painLevel ? `${selection.painLevel}/10` : null
+  ].filter(Boolean);
+  return details.length > 0 ? `${label} (${details.join(', ')})` : label;
+};
@@ -0,0 +1,100 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { EMPTY_TREE, TREE_VERSION, activePath, addMessage, latestLeafUnder, pathTo, siblingsOf, toTree } from "./conversationTree";
+import { ChatMessage, ConversationTree } from "../types";
+
+const message = (id: string, role: ChatMessage['role'], timestamp: number, parentId?: string): ChatMessage =>
+  ({ id, role, text: id, timestamp, parentId });
+
+const ids = (messages: ChatMessage[]) => messages.map(msg => msg.id);
+
+// q1 -> a1 -> q2 -> a2, then q2 edited into q2b with its own reply a2b
+const BRANCHED: ConversationTree = {
+  messages: [
+    message('q1', 'user', 1),
+    message('a1', 'model', 2, 'q1'),
+    message('q2', 'user', 3, 'a1'),
+    message('a2', 'model', 4, 'q2'),
+    message('q2b', 'user', 5, 'a1'),
+    message('a2b', 'model', 6, 'q2b')
+  ],
+  leafId: 'a2b'
+};
+
+describe('toTree', () => {
+  it('chains a session saved before branching in order', () => {
+    const tree = toTree({ messages: [message('q1', 'user', 1), message('a1', 'model', 2), message('q2', 'user', 3)] });
+    assert.deepEqual(tree.messages.map(msg => msg.parentId), [undefined, 'q1', 'a1']);
+    assert.equal(tree.leafId, 'q2');
+    assert.deepEqual(ids(activePath(tree)), ['q1', 'a1', 'q2']);
+  });
+
+  it('keeps the links of a branched session', () => {
+    const tree = toTree({ ...BRANCHED, treeVersion: TREE_VERSION });
+    assert.deepEqual(tree.messages, BRANCHED.messages);
+    assert.deepEqual(ids(activePath(tree)), ['q1', 'a1', 'q2b', 'a2b']);
+  });
+
+  it('does not chain a root edited before any reply', () => {
+    const messages = [message('q1', 'user', 1), message('q1b', 'user', 2)];
+    const tree = toTree({ messages, leafId: 'q1b', treeVersion: TREE_VERSION });
+    assert.deepEqual(ids(activePath(tree)), ['q1b']);
+  });
+
+  it('opens on the saved leaf, or the newest message when it is missing', () => {
+    assert.equal(toTree({ ...BRANCHED, leafId: 'a2', treeVersion: TREE_VERSION }).leafId, 'a2');
+    assert.equal(toTree({ ...BRANCHED, leafId: 'gone', treeVersion: TREE_VERSION }).leafId, 'a2b');
+    assert.equal(toTree({ messages: BRANCHED.messages, treeVersion: TREE_VERSION }).leafId, 'a2b');
+  });
+
+  it('returns the empty tree for an empty session', () => {
+    assert.equal(toTree({ messages: [], leafId: 'q1' }), EMPTY_TREE);
+  });
+});
+
+describe('pathTo', () => {
+  it('walks from the root to the given message', () => {
+    assert.deepEqual(ids(pathTo(BRANCHED, 'a2')), ['q1', 'a1', 'q2', 'a2']);
+    assert.deepEqual(ids(pathTo(BRANCHED, 'a1')), ['q1', 'a1']);
+  });
+
+  it('is empty without a known message', () => {
+    assert.deepEqual(pathTo(BRANCHED, null), []);
+    assert.deepEqual(pathTo(BRANCHED, 'gone'), []);
+  });
+});
+
+describe('editing and regenerating', () => {
+  it('shows an edited message as a new branch next to the original', () => {
+    const edited = message('q2c', 'user', 7, 'a1');
+    const tree = addMessage(BRANCHED, edited);
+    assert.equal(tree.leafId, 'q2c');
+    assert.deepEqual(ids(activePath(tree)), ['q1', 'a1', 'q2c']);
+    assert.deepEqual(ids(siblingsOf(tree, edited)), ['q2', 'q2b', 'q2c']);
+  });
+
+  it('keeps the earlier reply when a reply is regenerated', () => {
+    const asked = { ...BRANCHED, leafId: 'q2b' };
+    const tree = addMessage(asked, message('a2c', 'model', 7, 'q2b'));
+    assert.deepEqual(ids(activePath(tree)), ['q1', 'a1', 'q2b', 'a2c']);
+    assert.deepEqual(ids(siblingsOf(tree, message('a2c', 'model', 7, 'q2b'))), ['a2b', 'a2c']);
+  });
+
+  it('lists siblings oldest first and only of the same role', () => {
+    const root = BRANCHED.messages[0];
+    assert.deepEqual(ids(siblingsOf(BRANCHED, root)), ['q1']);
+    const shuffled = { ...BRANCHED, messages: [...BRANCHED.messages].reverse() };
+    assert.deepEqual(ids(siblingsOf(shuffled, BRANCHED.messages[2])), ['q2', 'q2b']);
+  });
+});
+
+describe('latestLeafUnder', () => {
+  it('follows the newest reply down to a leaf', () => {
+    assert.equal(latestLeafUnder(BRANCHED, 'q1'), 'a2b');
+    assert.equal(latestLeafUnder(BRANCHED, 'q2'), 'a2');
+  });
+
+  it('returns a leaf as is', () => {
+    assert.equal(latestLeafUnder(BRANCHED, 'a2'), 'a2');
+  });
+});
@@ -0,0 +1,55 @@
+import { ChatMessage, ConversationTree, TriageSession } from "../types";
+
+export const EMPTY_TREE: ConversationTree = { messages: [], leafId: null };
+
+// Stored on sessions whose messages link by parentId
+export const TREE_VERSION = 1;
+
+/**
+ * Builds a tree from a stored session. Sessions saved before branching have
+ * no tree version and no parentIds, so their messages are chained in order.
+ * A tree can't be told apart by its messages alone: a root edited before any
+ * reply leaves two messages without a parent.
+ */
+export const toTree = ({ messages, leafId, treeVersion }: Pick<TriageSession, 'messages' | 'leafId' | 'treeVersion'>): ConversationTree => {
+  if (messages.length === 0) return EMPTY_TREE;
+  const chained = treeVersion === undefined
+    ? messages.map((msg, index) => index === 0 ? msg : { ...msg, parentId: messages[index - 1].id })
+    : messages;
+  const leaf = leafId && chained.some(msg => msg.id === leafId) ? leafId : chained[chained.length - 1].id;
+  return { messages: chained, leafId: leaf };
+};
+
+// Root first, ending at `id`
+export const pathTo = (tree: ConversationTree, id: string | null | undefined): ChatMessage[] => {
+  const byId = new Map(tree.messages.map(msg => [msg.id, msg]));
+  const path: ChatMessage[] = [];
+  for (let msg = id ? byId.get(id) : undefined; msg; msg = msg.parentId ? byId.get(msg.parentId) : undefined) {
+    path.unshift(msg);
+  }
+  return path;
+};
+
+export const activePath = (tree: ConversationTree): ChatMessage[] => pathTo(tree, tree.leafId);
+
+// Appends after the message's parentId and shows the new branch
+export const addMessage = (tree: ConversationTree, msg: ChatMessage): ConversationTree => ({
+  messages: [...tree.messages, msg],
+  leafId: msg.id
+});
+
+// Alternatives to a message, itself included, oldest first
+export const siblingsOf = (tree: ConversationTree, msg: ChatMessage): ChatMessage[] =>
+  tree.messages
+    .filter(other => other.parentId === msg.parentId && other.role === msg.role)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+// Follows the newest reply at each step, so switching branch lands on its latest turn
+export const latestLeafUnder = (tree: ConversationTree, id: string): string => {
+  let leaf = id;
+  for (;;) {
+    const children = tree.messages.filter(msg => msg.parentId === leaf);
+    if (children.length === 0) return leaf;
+    leaf = children.reduce((newest, msg) => msg.timestamp > newest.timestamp ? msg : newest).id;
+  }
+};
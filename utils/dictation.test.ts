@@ -0,0 +1,36 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { punctuateTranscript } from "./dictation";
+
+describe('punctuateTranscript', () => {
+  it('turns English spoken punctuation into symbols', () => {
+    assert.equal(punctuateTranscript('i feel dizzy comma and sick full stop', 'en'), 'I feel dizzy, and sick.');
+    assert.equal(punctuateTranscript('is it serious question mark', 'en'), 'Is it serious?');
+  });
+
+  it('uses the dictation language own commands', () => {
+    assert.equal(punctuateTranscript('me duele la cabeza punto y seguido tengo fiebre punto final', 'es'), 'Me duele la cabeza. Tengo fiebre.');
+    assert.equal(punctuateTranscript("j'ai mal virgule c'est grave point d'interrogation", 'fr'), "J'ai mal, c'est grave?");
+    assert.equal(punctuateTranscript('estou com febre vírgula e tosse', 'pt'), 'Estou com febre, e tosse.');
+    assert.equal(punctuateTranscript('عندي صداع فاصلة وحمى', 'ar'), 'عندي صداع، وحمى.');
+  });
+
+  it('leaves English command words alone in other languages', () => {
+    assert.equal(punctuateTranscript('tengo dolor full stop', 'es'), 'Tengo dolor full stop.');
+    assert.equal(punctuateTranscript('le period de douleur', 'fr'), 'Le period de douleur.');
+  });
+
+  it('keeps command words that are also symptoms', () => {
+    assert.equal(punctuateTranscript('my period is late', 'en'), 'My period is late.');
+    assert.equal(punctuateTranscript('estuvo en coma', 'es'), 'Estuvo en coma.');
+  });
+
+  it('only replaces whole words', () => {
+    assert.equal(punctuateTranscript('my commando friend', 'en'), 'My commando friend.');
+    assert.equal(punctuateTranscript('la virgulette', 'fr'), 'La virgulette.');
+  });
+
+  it('skips commands for languages without rules', () => {
+    assert.equal(punctuateTranscript('ich habe fieber comma', 'de'), 'Ich habe fieber comma.');
+  });
+});
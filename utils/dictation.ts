@@ -0,0 +1,161 @@
+import { LanguageCode } from '../types';
+import { isLanguageCode } from '../i18n/languages';
+
+/**
+ * Thin wrapper around the browser Web Speech API. TypeScript's DOM lib
+ * does not ship these types, so only what we use is declared here.
+ */
+interface SpeechRecognitionAlternative {
+  transcript: string;
+}
+
+interface SpeechRecognitionResult {
+  isFinal: boolean;
+  0: SpeechRecognitionAlternative;
+}
+
+interface SpeechRecognitionEvent {
+  resultIndex: number;
+  results: { length: number, [index: number]: SpeechRecognitionResult };
+}
+
+export interface SpeechRecognitionInstance {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionInstance;
+
+const getRecognitionConstructor = (): SpeechRecognitionConstructor | null => {
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor,
+    webkitSpeechRecognition?: SpeechRecognitionConstructor
+  };
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition || null;
+};
+
+export const isDictationSupported = (): boolean => getRecognitionConstructor() !== null;
+
+// Whole words only; \b does not work around accented or Arabic letters
+const spoken = (words: string[], symbol: string): [RegExp, string] => [
+  new RegExp(`\\s*(?<![\\p{L}\\p{N}])(${words.join('|')})(?![\\p{L}\\p{N}])${symbol === '\n' ? '\\s*' : ''}`, 'giu'),
+  symbol
+];
+
+// Spoken commands most engines leave as words: "I feel dizzy comma and sick period".
+// Longer commands come first where one contains another ("punto y aparte").
+// Words that are also symptoms are left out: "period", "coma", "نقطة" (a spot)
+const SPOKEN_PUNCTUATION: Record<LanguageCode, [RegExp, string][]> = {
+  en: [
+    spoken(['comma'], ','),
+    spoken(['full stop'], '.'),
+    spoken(['question mark'], '?'),
+    spoken(['exclamation mark', 'exclamation point'], '!'),
+    spoken(['new line', 'next line'], '\n')
+  ],
+  es: [
+    spoken(['punto y aparte', 'nueva línea'], '\n'),
+    spoken(['punto y seguido', 'punto final'], '.'),
+    spoken(['signo de interrogación'], '?'),
+    spoken(['signo de exclamación'], '!')
+  ],
+  fr: [
+    spoken(['virgule'], ','),
+    spoken(['point d[\'’]interrogation'], '?'),
+    spoken(['point d[\'’]exclamation'], '!'),
+    spoken(['point final'], '.'),
+    spoken(['à la ligne', 'nouvelle ligne'], '\n')
+  ],
+  pt: [
+    spoken(['vírgula'], ','),
+    spoken(['ponto de interrogação'], '?'),
+    spoken(['ponto de exclamação'], '!'),
+    spoken(['ponto final'], '.'),
+    spoken(['nova linha'], '\n')
+  ],
+  ar: [
+    spoken(['فاصلة'], '،'),
+    spoken(['علامة استفهام'], '؟'),
+    spoken(['علامة تعجب'], '!'),
+    spoken(['سطر جديد'], '\n')
+  ]
+};
+
+/**
+ * Turns a raw final transcript into a readable sentence: spoken punctuation
+ * in the dictation language becomes symbols, the first letter is capitalised and a full stop is added
+ * if the speaker didn't end with punctuation.
+ */
+export const punctuateTranscript = (raw: string, language: string): string => {
+  let text = raw.trim();
+  if (!text) return '';
+
+  (isLanguageCode(language) ? SPOKEN_PUNCTUATION[language] : []).forEach(([pattern, symbol]) => {
+    text = text.replace(pattern, symbol);
+  });
+
+  text = text.replace(/(^|[.!?]\s+|\n)(\p{Ll})/gu, (_, prefix, letter) => prefix + letter.toUpperCase());
+  if (!/[.!?,،؟\n]$/.test(text)) text += '.';
+  return text;
+};
+
+export const joinTranscript = (base: string, addition: string): string => {
+  if (!addition) return base;
+  if (!base || /\s$/.test(base)) return base + addition;
+  return `${base} ${addition}`;
+};
+
+export interface Dictation {
+  stop: () => void;
+}
+
+/**
+ * Starts continuous recognition. `onUpdate` receives the punctuated final
+ * text so far and the current interim guess; `onEnd` fires once, whether the
+ * user stopped or the engine timed out.
+ */
+export const startDictation = ({ lang, onUpdate, onEnd, onError }: {
+  lang: string;
+  onUpdate: (finalText: string, interimText: string) => void;
+  onEnd?: () => void;
+  onError?: (error: string) => void;
+}): Dictation | null => {
+  const Recognition = getRecognitionConstructor();
+  if (!Recognition) return null;
+
+  const recognition = new Recognition();
+  recognition.lang = lang;
+  recognition.continuous = true;
+  recognition.interimResults = true;
+
+  // "es-MX" speaks Spanish punctuation commands
+  const language = lang.split('-')[0].toLowerCase();
+  let finalText = '';
+  recognition.onresult = (event) => {
+    let interim = '';
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      if (result.isFinal) {
+        finalText = joinTranscript(finalText, punctuateTranscript(result[0].transcript, language));
+      } else {
+        interim += result[0].transcript;
+      }
+    }
+    onUpdate(finalText, interim.trim());
+  };
+  recognition.onerror = (event) => {
+    // "no-speech" and "aborted" are normal when the user just stops talking
+    if (event.error !== 'no-speech' && event.error !== 'aborted') onError?.(event.error);
+  };
+  recognition.onend = () => onEnd?.();
+
+  recognition.start();
+  return { stop: () => recognition.stop() };
+};
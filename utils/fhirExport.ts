@@ -0,0 +1,334 @@
+import { ChatMessage, ConsultationSubject, PatientProfile } from '../types';
+import { translatorFor } from '../i18n/translations';
+import { describeBodyRegion } from './bodyRegions';
+import { describeProfile } from '../services/profileStore';
+
+/**
+ * Minimal FHIR R4 shapes for the resources we export. Only the fields we
+ * write are modelled; see https://hl7.org/fhir/R4/ for the full definitions.
+ */
+interface Reference { reference: string; display?: string; }
+interface Coding { system: string; code: string; display?: string; }
+interface CodeableConcept { coding?: Coding[]; text?: string; }
+interface Meta { security?: Coding[]; tag?: Coding[]; }
+
+interface FhirResource {
+  resourceType: string;
+  id: string;
+  meta?: Meta;
+}
+
+interface Patient extends FhirResource {
+  resourceType: 'Patient';
+  name?: { text: string }[];
+  gender?: 'male' | 'female' | 'other';
+}
+
+interface Observation extends FhirResource {
+  resourceType: 'Observation';
+  status: 'final';
+  category: CodeableConcept[];
+  code: CodeableConcept;
+  subject: Reference;
+  effectiveDateTime: string;
+  valueInteger: number;
+}
+
+interface QuestionnaireResponseItem {
+  linkId: string;
+  text: string;
+  answer: { valueString?: string, valueInteger?: number }[];
+}
+
+interface QuestionnaireResponse extends FhirResource {
+  resourceType: 'QuestionnaireResponse';
+  status: 'completed';
+  subject: Reference;
+  authored: string;
+  item: QuestionnaireResponseItem[];
+}
+
+interface Media extends FhirResource {
+  resourceType: 'Media';
+  status: 'completed';
+  type: CodeableConcept;
+  subject: Reference;
+  createdDateTime: string;
+  content: { contentType: string, data: string, creation: string };
+  note?: { text: string }[];
+}
+
+interface ClinicalImpression extends FhirResource {
+  resourceType: 'ClinicalImpression';
+  status: 'completed';
+  subject: Reference;
+  date: string;
+  description: string;
+  summary: string;
+  finding?: { itemCodeableConcept: CodeableConcept }[];
+  note?: { text: string }[];
+}
+
+type ExportedResource = Patient | Observation | QuestionnaireResponse | Media | ClinicalImpression;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'collection';
+  timestamp: string;
+  identifier: { system: string, value: string };
+  entry: { fullUrl: string, resource: ExportedResource }[];
+}
+
+const PAIN_SCORE_CODE: Coding = {
+  system: 'http://loinc.org',
+  code: '72514-3',
+  display: 'Pain severity - 0-10 verbal numeric rating [Score] - Reported'
+};
+
+// HL7 security label marking content asserted by an AI system
+const AI_ASSERTED: Coding = {
+  system: 'http://terminology.hl7.org/CodeSystem/v3-ObservationValue',
+  code: 'AIAST',
+  display: 'Artificial Intelligence asserted'
+};
+
+const MEDIA_TYPES: Record<string, Coding> = {
+  image: { system: 'http://terminology.hl7.org/CodeSystem/media-type', code: 'image', display: 'Image' },
+  video: { system: 'http://terminology.hl7.org/CodeSystem/media-type', code: 'video', display: 'Video' },
+  audio: { system: 'http://terminology.hl7.org/CodeSystem/media-type', code: 'audio', display: 'Audio' }
+};
+
+// Clinic records are written in English like the rest of the bundle's text
+const english = translatorFor('en');
+
+const AI_DESCRIPTION = 'AI-generated triage suggestion from a patient-facing symptom checker. Not a clinician assessment.';
+
+const toDateTime = (timestamp: number) => new Date(timestamp).toISOString();
+
+/**
+ * The person the consultation is about, which in carer mode is not the app
+ * user. Only what the user chose to share with the consultation is included.
+ */
+const buildPatient = (subject?: ConsultationSubject, profile?: PatientProfile): { patient: Patient, display: string } => {
+  const name = subject?.name.trim();
+  const patient: Patient = {
+    resourceType: 'Patient',
+    id: crypto.randomUUID(),
+    name: name ? [{ text: name }] : undefined,
+    gender: profile?.sex
+  };
+  const display = name
+    || (!subject || subject.relationship === 'self' ? 'Triage app user' : `The app user's ${subject.relationship}`);
+  return { patient, display };
+};
+
+/**
+ * Converts a triage session into a FHIR R4 collection Bundle. Resources
+ * reference each other by urn:uuid fullUrls, so the Bundle is self-contained.
+ */
+export const buildFhirBundle = (messages: ChatMessage[], sessionId: string): FhirBundle => {
+  const entries: FhirBundle['entry'] = [];
+  const add = (resource: ExportedResource) => {
+    entries.push({ fullUrl: `urn:uuid:${resource.id}`, resource });
+  };
+
+  const userMessages = messages.filter(msg => msg.role === 'user');
+  const intake = userMessages[0];
+
+  const { patient, display } = buildPatient(intake?.subject, intake?.profile);
+  const subject: Reference = { reference: `urn:uuid:${patient.id}`, display };
+  add(patient);
+
+  if (intake) {
+    const items: QuestionnaireResponseItem[] = [];
+    if (intake.text) {
+      items.push({ linkId: 'symptoms', text: "Describe what you're feeling", answer: [{ valueString: intake.text }] });
+    }
+    if (intake.painLevel !== undefined && intake.painLevel !== null) {
+      items.push({ linkId: 'pain', text: 'Pain intensity (0-10)', answer: [{ valueInteger: intake.painLevel }] });
+    }
+    if (intake.bodyRegions && intake.bodyRegions.length > 0) {
+      items.push({
+        linkId: 'body-sites',
+        text: 'Where does it hurt?',
+        answer: intake.bodyRegions.map(region => ({ valueString: describeBodyRegion(region, english) }))
+      });
+    }
+    if (intake.profile) {
+      items.push({
+        linkId: 'health-profile',
+        text: 'Health profile shared by the patient',
+        answer: describeProfile(intake.profile).map(line => ({ valueString: line }))
+      });
+    }
+    userMessages.slice(1).forEach((msg, idx) => {
+      if (msg.text) {
+        items.push({ linkId: `follow-up-${idx + 1}`, text: 'Follow-up question', answer: [{ valueString: msg.text }] });
+      }
+    });
+
+    if (items.length > 0) {
+      add({
+        resourceType: 'QuestionnaireResponse',
+        id: crypto.randomUUID(),
+        status: 'completed',
+        subject,
+        authored: toDateTime(intake.timestamp),
+        item: items
+      });
+    }
+  }
+
+  userMessages.forEach(msg => {
+    if (msg.painLevel !== undefined && msg.painLevel !== null) {
+      add({
+        resourceType: 'Observation',
+        id: crypto.randomUUID(),
+        status: 'final',
+        category: [{
+          coding: [{ system: 'http://terminology.hl7.org/CodeSystem/observation-category', code: 'survey', display: 'Survey' }]
+        }],
+        code: { coding: [PAIN_SCORE_CODE], text: 'Pain intensity' },
+        subject,
+        effectiveDateTime: toDateTime(msg.timestamp),
+        valueInteger: msg.painLevel
+      });
+    }
+
+    msg.attachments?.forEach(att => {
+      add({
+        resourceType: 'Media',
+        id: crypto.randomUUID(),
+        status: 'completed',
+        type: { coding: [MEDIA_TYPES[att.type]] },
+        subject,
+        createdDateTime: toDateTime(msg.timestamp),
+        content: { contentType: att.mimeType, data: att.data, creation: toDateTime(msg.timestamp) },
+        note: att.transcript ? [{ text: `Patient transcript: ${att.transcript}` }] : undefined
+      });
+    });
+  });
+
+  messages.filter(msg => msg.role === 'model').forEach(msg => {
+    const report = msg.report;
+    add({
+      resourceType: 'ClinicalImpression',
+      id: crypto.randomUUID(),
+      meta: { security: [AI_ASSERTED] },
+      status: 'completed',
+      subject,
+      date: toDateTime(msg.timestamp),
+      description: AI_DESCRIPTION,
+      summary: report
+        ? `${english(`urgency.${report.urgency}`)}: ${report.urgencyReason}`
+        : (msg.text || '') + (msg.interrupted ? ' [interrupted]' : ''),
+      finding: report?.observations.map(text => ({ itemCodeableConcept: { text } })),
+      note: report
+        ? [
+            ...report.possibleCauses.map(cause => ({ text: `Possible cause: ${cause.name} - ${cause.explanation}` })),
+            ...report.nextSteps.map(step => ({ text: `Suggested next step: ${step}` }))
+          ]
+        : undefined
+    });
+  });
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    identifier: { system: 'urn:health-triage-companion:session', value: sessionId },
+    entry: entries
+  };
+};
+
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+const URN_UUID = /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const REQUIRED_FIELDS: Record<string, string[]> = {
+  Patient: [],
+  Observation: ['status', 'code', 'subject'],
+  QuestionnaireResponse: ['status', 'subject'],
+  Media: ['status', 'content', 'subject'],
+  ClinicalImpression: ['status', 'subject']
+};
+
+const DATE_FIELDS = ['effectiveDateTime', 'authored', 'createdDateTime', 'date'];
+
+/**
+ * Structural checks against the FHIR R4 rules our resources rely on:
+ * required elements, dateTime format, unique fullUrls and resolvable
+ * references. Returns a list of problems; empty means the Bundle is valid.
+ */
+export const validateFhirBundle = (bundle: FhirBundle): string[] => {
+  const issues: string[] = [];
+
+  if (bundle.resourceType !== 'Bundle') issues.push('resourceType must be "Bundle"');
+  if (bundle.type !== 'collection') issues.push('Bundle.type must be "collection"');
+  if (!DATE_TIME.test(bundle.timestamp)) issues.push('Bundle.timestamp is not a valid instant');
+
+  const fullUrls = new Set<string>();
+  bundle.entry.forEach((entry, idx) => {
+    const where = `entry[${idx}]`;
+    if (!URN_UUID.test(entry.fullUrl)) issues.push(`${where}.fullUrl must be a urn:uuid`);
+    if (fullUrls.has(entry.fullUrl)) issues.push(`${where}.fullUrl is duplicated`);
+    fullUrls.add(entry.fullUrl);
+    if (entry.fullUrl !== `urn:uuid:${entry.resource.id}`) issues.push(`${where}.fullUrl does not match resource.id`);
+  });
+
+  bundle.entry.forEach(({ resource }, idx) => {
+    const where = `entry[${idx}].resource (${resource.resourceType})`;
+    const required = REQUIRED_FIELDS[resource.resourceType];
+    if (!required) {
+      issues.push(`${where}: unsupported resourceType`);
+      return;
+    }
+    const fields = resource as unknown as Record<string, unknown>;
+    required.forEach(field => {
+      if (fields[field] === undefined || fields[field] === null || fields[field] === '') {
+        issues.push(`${where}: missing required element "${field}"`);
+      }
+    });
+    DATE_FIELDS.forEach(field => {
+      if (typeof fields[field] === 'string' && !DATE_TIME.test(fields[field] as string)) {
+        issues.push(`${where}: "${field}" is not a valid dateTime`);
+      }
+    });
+    const subject = fields.subject as Reference | undefined;
+    if (subject && !fullUrls.has(subject.reference)) {
+      issues.push(`${where}: subject reference "${subject.reference}" does not resolve within the Bundle`);
+    }
+    if (resource.resourceType === 'Observation' && typeof resource.valueInteger === 'number' && (resource.valueInteger < 0 || resource.valueInteger > 10)) {
+      issues.push(`${where}: pain score must be between 0 and 10`);
+    }
+    if (resource.resourceType === 'Media' && (!resource.content.contentType || !resource.content.data)) {
+      issues.push(`${where}: content needs contentType and data`);
+    }
+    if (resource.resourceType === 'QuestionnaireResponse') {
+      resource.item.forEach(item => {
+        if (!item.linkId) issues.push(`${where}: every item needs a linkId`);
+      });
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Builds, validates and downloads the Bundle. Throws with the validation
+ * problems instead of handing a clinic a broken file.
+ */
+export const downloadFhirBundle = (messages: ChatMessage[], sessionId: string) => {
+  const bundle = buildFhirBundle(messages, sessionId);
+  const issues = validateFhirBundle(bundle);
+  if (issues.length > 0) {
+    throw new Error(`The export did not pass FHIR checks:\n${issues.join('\n')}`);
+  }
+
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `triage-session-${new Date().toISOString().slice(0, 10)}.fhir.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
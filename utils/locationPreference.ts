@@ -0,0 +1,8 @@
+const SHARE_LOCATION_KEY = 'triage.shareLocation';
+
+// Sharing is on unless the user turned it off
+export const getShareLocation = (): boolean => localStorage.getItem(SHARE_LOCATION_KEY) !== 'false';
+
+export const setShareLocation = (share: boolean) => {
+  localStorage.setItem(SHARE_LOCATION_KEY, String(share));
+};
@@ -0,0 +1,112 @@
+import { Translate, TranslationKey, translate } from '../i18n/translations';
+import { MediaAttachment } from '../types';
+
+export const MEDIA_LIMITS = {
+  // Longest edge of an uploaded photo after resizing
+  maxImageDimension: 1600,
+  imageQuality: 0.85,
+  // Photos bigger than this are refused before we even try to decode them
+  maxSourceImageBytes: 40 * 1024 * 1024,
+  maxRecordingSeconds: { video: 60, audio: 180 },
+  maxRecordingBytes: { video: 30 * 1024 * 1024, audio: 10 * 1024 * 1024 },
+  // Bitrates passed to MediaRecorder so long clips stay small
+  videoBitsPerSecond: 1_000_000,
+  audioBitsPerSecond: 64_000,
+  // Attachments above this go through the Files API instead of inlineData
+  inlineBytes: 7 * 1024 * 1024,
+  // Checked as attachments are added, so a message always fits one request
+  maxAttachmentsPerMessage: 10,
+  maxMessageMediaBytes: 40 * 1024 * 1024,
+  // Media sent in one request; older turns are summarised beyond this.
+  // The proxy server sizes its body limit from it (see server/config.ts)
+  maxRequestMediaBytes: 60 * 1024 * 1024
+};
+
+/**
+ * Thrown when a file or recording is over a limit. Show it to the user with
+ * `describe(t)`; `message` is the English text for logs.
+ */
+export class MediaLimitError extends Error {
+  readonly key: TranslationKey;
+  readonly vars: Record<string, string>;
+
+  constructor(key: TranslationKey, vars: Record<string, string>) {
+    super(translate('en', key, vars));
+    this.name = 'MediaLimitError';
+    this.key = key;
+    this.vars = vars;
+  }
+
+  describe(t: Translate): string {
+    return t(this.key, this.vars);
+  }
+}
+
+export const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode image')), mimeType, quality);
+  });
+
+/**
+ * Downscales a photo and re-encodes it as JPEG. Drawing through a canvas
+ * drops every EXIF tag, including GPS location and camera details, while
+ * `imageOrientation: 'from-image'` keeps phone photos the right way up.
+ */
+export const preprocessImage = async (file: Blob): Promise<Blob> => {
+  if (file.size > MEDIA_LIMITS.maxSourceImageBytes) {
+    throw new MediaLimitError('media.photoTooLarge', {
+      size: formatBytes(file.size),
+      limit: formatBytes(MEDIA_LIMITS.maxSourceImageBytes)
+    });
+  }
+
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, MEDIA_LIMITS.maxImageDimension / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas is not available for image processing');
+  }
+  // JPEG has no transparency; paint white so transparent PNGs don't turn black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return canvasToBlob(canvas, 'image/jpeg', MEDIA_LIMITS.imageQuality);
+};
+
+export const checkRecording = (blob: Blob, type: 'audio' | 'video') => {
+  const limit = MEDIA_LIMITS.maxRecordingBytes[type];
+  if (blob.size > limit) {
+    throw new MediaLimitError(type === 'video' ? 'media.videoTooLarge' : 'media.voiceTooLarge', {
+      size: formatBytes(blob.size),
+      limit: formatBytes(limit)
+    });
+  }
+};
+
+export const attachmentBytes = (att: MediaAttachment) => att.sizeBytes ?? Math.floor(att.data.length * 3 / 4);
+
+// Call with the message's attachments including the one being added
+export const checkMessageMedia = (attachments: MediaAttachment[]) => {
+  if (attachments.length > MEDIA_LIMITS.maxAttachmentsPerMessage) {
+    throw new MediaLimitError('media.tooManyAttachments', { limit: String(MEDIA_LIMITS.maxAttachmentsPerMessage) });
+  }
+  const total = attachments.reduce((sum, att) => sum + attachmentBytes(att), 0);
+  if (total > MEDIA_LIMITS.maxMessageMediaBytes) {
+    throw new MediaLimitError('media.messageTooLarge', {
+      size: formatBytes(total),
+      limit: formatBytes(MEDIA_LIMITS.maxMessageMediaBytes)
+    });
+  }
+};
+
+export const needsFileUpload = (sizeBytes: number) => sizeBytes > MEDIA_LIMITS.inlineBytes;
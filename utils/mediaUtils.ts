@@ -30,3 +30,13 @@ export const blobToBase64 = (blob: Blob): Promise<string> => {
     reader.onerror = error => reject(error);
   });
 };
+
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
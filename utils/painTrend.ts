@@ -0,0 +1,54 @@
+import { DiaryEntry, DiarySnapshot, PainTrend } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A change this big between the first and latest rating counts as a trend
+const TREND_THRESHOLD = 2;
+// Enough history for the model without flooding the prompt
+const MAX_PROMPT_ENTRIES = 14;
+
+export const ratedEntries = (entries: DiaryEntry[]): DiaryEntry[] =>
+  entries.filter(entry => entry.painLevel !== null);
+
+// Whole days between two YYYY-MM-DD dates, immune to daylight-saving shifts
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+/**
+ * First versus latest pain rating in the diary, or null with fewer than
+ * two rated entries.
+ */
+export const summarizePainTrend = (entries: DiaryEntry[]): PainTrend | null => {
+  const rated = ratedEntries(entries);
+  if (rated.length < 2) return null;
+  const from = rated[0];
+  const to = rated[rated.length - 1];
+  const change = (to.painLevel as number) - (from.painLevel as number);
+  return {
+    from,
+    to,
+    days: daysBetween(from.date, to.date),
+    direction: change >= TREND_THRESHOLD ? 'worsening' : change <= -TREND_THRESHOLD ? 'improving' : 'stable'
+  };
+};
+
+export const describePainTrend = (trend: PainTrend): string => {
+  const span = trend.days === 1 ? '1 day' : `${trend.days} days`;
+  return `Pain went from ${trend.from.painLevel}/10 to ${trend.to.painLevel}/10 over ${span} (${trend.direction}).`;
+};
+
+/**
+ * English lines for the model prompt: the overall trend,
+ * then the most recent entries.
+ */
+export const describeDiary = (diary: DiarySnapshot): string[] => {
+  const lines: string[] = [];
+  const trend = summarizePainTrend(diary.entries);
+  if (trend) lines.push(describePainTrend(trend));
+  diary.entries.slice(-MAX_PROMPT_ENTRIES).forEach(entry => {
+    const parts = [entry.painLevel !== null ? `pain ${entry.painLevel}/10` : 'pain not rated'];
+    if (entry.symptoms) parts.push(`symptoms: ${entry.symptoms}`);
+    if (entry.notes) parts.push(`notes: ${entry.notes}`);
+    lines.push(`${entry.date}: ${parts.join('; ')}`);
+  });
+  return lines;
+};
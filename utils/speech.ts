@@ -0,0 +1,147 @@
+import { LanguageCode, TriageReport } from '../types';
+import { TranslationKey } from '../i18n/translations';
+
+const VOICE_LOAD_TIMEOUT_MS = 1000;
+const SETTINGS_KEY = 'triage.speech';
+
+export const MIN_SPEECH_RATE = 0.5;
+export const MAX_SPEECH_RATE = 1.5;
+
+/**
+ * Chrome fills the voice list asynchronously, so the first call to
+ * getVoices() is often empty. Wait briefly for `voiceschanged`.
+ */
+export const loadVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  const synth = window.speechSynthesis;
+  const voices = synth.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      synth.removeEventListener('voiceschanged', done);
+      resolve(synth.getVoices());
+    };
+    const timer = setTimeout(done, VOICE_LOAD_TIMEOUT_MS);
+    synth.addEventListener('voiceschanged', done);
+  });
+};
+
+const normalizeLocale = (locale: string) => locale.toLowerCase().replace('_', '-');
+
+export const voicesForLanguage = (voices: SpeechSynthesisVoice[], locale: string): SpeechSynthesisVoice[] => {
+  const language = normalizeLocale(locale).split('-')[0];
+  return voices.filter(voice => normalizeLocale(voice.lang).split('-')[0] === language);
+};
+
+/**
+ * Best voice for a locale: exact region first, then any voice for the same
+ * language. On-device voices win ties because they start speaking sooner.
+ */
+export const pickVoice = (voices: SpeechSynthesisVoice[], locale: string): SpeechSynthesisVoice | null => {
+  const wanted = normalizeLocale(locale);
+  const byPreference = voicesForLanguage(voices, locale).sort((a, b) => Number(b.localService) - Number(a.localService));
+  return byPreference.find(voice => normalizeLocale(voice.lang) === wanted) || byPreference[0] || null;
+};
+
+export interface SpeechSettings {
+  rate: number;
+  // Chosen voice per language, by voiceURI
+  voices: Partial<Record<LanguageCode, string>>;
+}
+
+export const getSpeechSettings = (): SpeechSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    const rate = Number(stored.rate);
+    return {
+      rate: rate >= MIN_SPEECH_RATE && rate <= MAX_SPEECH_RATE ? rate : 1,
+      voices: stored.voices && typeof stored.voices === 'object' ? stored.voices : {}
+    };
+  } catch {
+    return { rate: 1, voices: {} };
+  }
+};
+
+export const saveSpeechSettings = (settings: SpeechSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export interface SpeechSection {
+  title: string;
+  sentences: string[];
+}
+
+const EMOJI = /[\p{Extended_Pictographic}\u{FE0F}\u{200D}\u{20E3}]/gu;
+
+/**
+ * Reduces a line of markdown to what a listener should hear: link text
+ * without the URL, no emoji, no emphasis markers.
+ */
+export const cleanForSpeech = (text: string): string =>
+  text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(EMOJI, '')
+    .replace(/[*_`~>#|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const splitSentences = (text: string, language: LanguageCode = 'en'): string[] => {
+  const segmenter = new Intl.Segmenter(language, { granularity: 'sentence' });
+  return Array.from(segmenter.segment(text), part => part.segment.trim()).filter(Boolean);
+};
+
+// List items and headings have no full stop; add one so the voice pauses
+const endSentence = (text: string) => (/[.!?؟:]$/.test(text) ? text : `${text}.`);
+
+const HEADING = /^(#{1,6}\s+(.+)|\*\*([^*]+)\*\*:?)$/;
+const LIST_ITEM = /^([-*+]|\d+[.)])\s+/;
+
+/**
+ * Splits a markdown reply into spoken sections. A heading is either a
+ * `#` line or a line that is only bold text, which is how our replies
+ * mark "What I Noticed", "Next Steps" and so on.
+ */
+export const markdownToSpeechSections = (markdown: string, language: LanguageCode = 'en'): SpeechSection[] => {
+  const sections: SpeechSection[] = [{ title: '', sentences: [] }];
+
+  markdown.split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const title = cleanForSpeech(heading[2] || heading[3]);
+      if (title) sections.push({ title, sentences: [] });
+      return;
+    }
+
+    const text = cleanForSpeech(line.replace(LIST_ITEM, ''));
+    if (!text) return;
+    const current = sections[sections.length - 1];
+    current.sentences.push(...splitSentences(LIST_ITEM.test(line) ? endSentence(text) : text, language));
+  });
+
+  return sections.filter(section => section.sentences.length > 0);
+};
+
+/**
+ * Structured replies are read from the report itself, with headings in the
+ * user's language, rather than from the markdown we render for fallbacks.
+ */
+export const reportToSpeechSections = (
+  report: TriageReport,
+  t: (key: TranslationKey) => string,
+  language: LanguageCode = 'en'
+): SpeechSection[] => {
+  const sentences = (items: string[]) => items.flatMap(item => splitSentences(endSentence(cleanForSpeech(item)), language));
+  return [
+    { title: t(`urgency.${report.urgency}`), sentences: sentences([report.urgencyReason]) },
+    { title: t('report.observations'), sentences: sentences(report.observations) },
+    { title: t('report.possibleCauses'), sentences: sentences(report.possibleCauses.map(cause => `${cause.name}: ${cause.explanation}`)) },
+    { title: t('report.doctorQuestions'), sentences: sentences(report.doctorQuestions) },
+    { title: t('report.nextSteps'), sentences: sentences(report.nextSteps) }
+  ].filter(section => section.sentences.length > 0);
+};
@@ -0,0 +1,208 @@
+import { ChatMessage, LanguageCode } from '../types';
+import { describeBodyRegion } from './bodyRegions';
+import { filledProfileFields } from '../services/profileStore';
+import { ratedEntries, summarizePainTrend } from './painTrend';
+import { PROFILE_FIELD_LABELS, formatProfileValue } from '../components/ProfileReview';
+import { Translate, translatorFor } from '../i18n/translations';
+import { getLanguage } from '../i18n/languages';
+import { describePromptRef } from '../services/promptProfiles';
+
+export interface SummaryOptions {
+  title: string;
+  createdAt: number;
+  // Written in the language the app was used in
+  language: LanguageCode;
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatTime = (timestamp: number, language: LanguageCode) =>
+  new Date(timestamp).toLocaleString(language, { dateStyle: 'medium', timeStyle: 'short' });
+
+const list = (items: string[]) =>
+  `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+
+const painChart = (points: { timestamp: number, level: number }[]): string => {
+  if (points.length < 2) return '';
+  const width = 480;
+  const height = 120;
+  const step = width / (points.length - 1);
+  const y = (level: number) => height - (level / 10) * height;
+  const path = points.map((point, idx) => `${idx === 0 ? 'M' : 'L'}${idx * step},${y(point.level)}`).join(' ');
+  const dots = points.map((point, idx) => `<circle cx="${idx * step}" cy="${y(point.level)}" r="4" />`).join('');
+  return `<svg class="chart" viewBox="-8 -8 ${width + 16} ${height + 16}" width="${width}" height="${height}"><path d="${path}" />${dots}</svg>`;
+};
+
+const painSection = (messages: ChatMessage[], t: Translate, language: LanguageCode): string => {
+  const points = messages
+    .filter(msg => msg.role === 'user' && msg.painLevel !== undefined && msg.painLevel !== null)
+    .map(msg => ({ timestamp: msg.timestamp, level: msg.painLevel as number }));
+
+  if (points.length === 0) return `<p class="muted">${escapeHtml(t('summary.noPain'))}</p>`;
+
+  const rows = points.map(point => `<tr><td>${formatTime(point.timestamp, language)}</td><td>${point.level}/10</td></tr>`).join('');
+  return `${painChart(points)}<table><thead><tr><th>${escapeHtml(t('summary.time'))}</th><th>${escapeHtml(t('diary.pain'))}</th></tr></thead><tbody>${rows}</tbody></table>`;
+};
+
+const attachmentsSection = (messages: ChatMessage[], t: Translate, language: LanguageCode): string => {
+  const attachments = messages.flatMap(msg => (msg.attachments || []).map(att => ({ att, timestamp: msg.timestamp })));
+  if (attachments.length === 0) return '';
+
+  const items = attachments.map(({ att, timestamp }) => {
+    const caption = `<figcaption>${formatTime(timestamp, language)}</figcaption>`;
+    if (att.type === 'image') {
+      return `<figure><img src="data:${att.mimeType};base64,${att.data}" alt="${escapeHtml(t('summary.photoAlt'))}" />${caption}</figure>`;
+    }
+    const label = t(att.type === 'video' ? 'summary.videoRecording' : 'summary.voiceRecording');
+    const transcript = att.transcript ? `<figcaption>&ldquo;${escapeHtml(att.transcript)}&rdquo;</figcaption>` : '';
+    return `<figure><div class="placeholder">${escapeHtml(label)}<br /><span class="muted">${escapeHtml(t('summary.notPrinted'))}</span></div>${caption}${transcript}</figure>`;
+  }).join('');
+
+  return `<h2>${escapeHtml(t('summary.media'))}</h2><div class="thumbs">${items}</div>`;
+};
+
+const profileSection = (messages: ChatMessage[], t: Translate): string => {
+  const profile = messages.find(msg => msg.profile)?.profile;
+  if (!profile) return '';
+  const lines = filledProfileFields(profile).map(field => `${t(PROFILE_FIELD_LABELS[field])}: ${formatProfileValue(profile, field, t)}`);
+  return `<h2>${escapeHtml(t('summary.aboutPatient'))}</h2><p class="muted">${escapeHtml(t('summary.asEntered'))}</p>${list(lines)}`;
+};
+
+const diarySection = (messages: ChatMessage[], t: Translate): string => {
+  const diary = messages.find(msg => msg.diary)?.diary;
+  if (!diary || diary.entries.length === 0) return '';
+  const points = ratedEntries(diary.entries).map(entry => ({ timestamp: Date.parse(entry.date), level: entry.painLevel as number }));
+  const trend = summarizePainTrend(diary.entries);
+  const trendText = trend && `${t('diary.trend', { from: trend.from.painLevel as number, start: trend.from.date, to: trend.to.painLevel as number, end: trend.to.date })} (${t(`diary.${trend.direction}`)})`;
+  const rows = diary.entries.map(entry => `<tr><td>${entry.date}</td><td>${entry.painLevel !== null ? `${entry.painLevel}/10` : '-'}</td><td>${escapeHtml(entry.symptoms)}</td><td>${escapeHtml(entry.notes)}</td></tr>`).join('');
+  const headings = (['diary.date', 'diary.pain', 'diary.symptoms', 'diary.notes'] as const).map(key => `<th>${escapeHtml(t(key))}</th>`).join('');
+  return `<h2>${escapeHtml(t('summary.diary', { name: diary.name }))}</h2>${trendText ? `<p>${escapeHtml(trendText)}</p>` : ''}${painChart(points)}<table><thead><tr>${headings}</tr></thead><tbody>${rows}</tbody></table>`;
+};
+
+const descriptionSection = (messages: ChatMessage[], t: Translate, language: LanguageCode): string => {
+  const entries = messages
+    .filter(msg => msg.role === 'user' && (msg.text || msg.bodyRegions?.length))
+    .map(msg => {
+      const areas = msg.bodyRegions?.length
+        ? `<p><strong>${escapeHtml(t('summary.whereItHurts'))}</strong> ${escapeHtml(msg.bodyRegions.map(region => describeBodyRegion(region, t)).join('; '))}</p>`
+        : '';
+      const text = msg.text ? `<p>${escapeHtml(msg.text)}</p>` : '';
+      return `<div class="entry"><div class="time">${formatTime(msg.timestamp, language)}</div>${text}${areas}</div>`;
+    })
+    .join('');
+  return entries || `<p class="muted">${escapeHtml(t('summary.noDescription'))}</p>`;
+};
+
+const findingsSection = (messages: ChatMessage[], t: Translate, language: LanguageCode): string =>
+  messages
+    .filter(msg => msg.role === 'model')
+    .map(msg => {
+      const prompt = msg.prompt ? ` · ${escapeHtml(describePromptRef(msg.prompt, t))}` : '';
+      const interrupted = msg.interrupted ? ` · ${escapeHtml(t('chat.interrupted'))}` : '';
+      const time = `<div class="time">${formatTime(msg.timestamp, language)}${prompt}${interrupted}</div>`;
+      if (!msg.report) {
+        return `<div class="entry">${time}<pre>${escapeHtml(msg.text || '')}</pre></div>`;
+      }
+      const { report } = msg;
+      return `<div class="entry">${time}
+        <p><strong>${escapeHtml(t(`urgency.${report.urgency}`))}:</strong> ${escapeHtml(report.urgencyReason)}</p>
+        <h3>${escapeHtml(t('report.observations'))}</h3>${list(report.observations)}
+        <h3>${escapeHtml(t('report.possibleCauses'))}</h3>${list(report.possibleCauses.map(cause => `${cause.name}: ${cause.explanation}`))}
+        <h3>${escapeHtml(t('report.nextSteps'))}</h3>${list(report.nextSteps)}
+      </div>`;
+    })
+    .join('');
+
+const questionsSection = (messages: ChatMessage[], t: Translate): string => {
+  const questions = Array.from(new Set(messages.flatMap(msg => msg.report?.doctorQuestions || [])));
+  if (questions.length === 0) return '';
+  return `<h2>${escapeHtml(t('report.doctorQuestions'))}</h2><ol>${questions.map(q => `<li>${escapeHtml(q)}</li>`).join('')}</ol>`;
+};
+
+const STYLES = `
+  body { font-family: Inter, system-ui, sans-serif; color: #0f172a; max-width: 760px; margin: 32px auto; padding: 0 24px; line-height: 1.5; }
+  h1 { font-size: 24px; margin-bottom: 4px; }
+  h2 { font-size: 16px; text-transform: uppercase; letter-spacing: 0.05em; color: #2563eb; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; margin-top: 28px; }
+  h3 { font-size: 14px; margin: 12px 0 4px; }
+  .muted, .time { color: #64748b; font-size: 12px; }
+  .entry { margin-bottom: 16px; page-break-inside: avoid; }
+  .disclaimer { border: 1px solid #fcd34d; background: #fffbeb; padding: 12px 16px; border-radius: 8px; font-size: 13px; }
+  .thumbs { display: flex; flex-wrap: wrap; gap: 12px; }
+  figure { margin: 0; width: 140px; page-break-inside: avoid; }
+  figure img, .placeholder { width: 140px; height: 140px; object-fit: cover; border-radius: 8px; border: 1px solid #e2e8f0; }
+  .placeholder { display: flex; flex-direction: column; align-items: center; justify-content: center; text-align: center; font-size: 13px; background: #f8fafc; }
+  figcaption { font-size: 11px; color: #64748b; margin-top: 4px; }
+  table { border-collapse: collapse; margin-top: 8px; font-size: 13px; }
+  th, td { text-align: start; padding-block: 4px; padding-inline: 0 16px; border-bottom: 1px solid #f1f5f9; }
+  .chart path { fill: none; stroke: #2563eb; stroke-width: 2; }
+  .chart circle { fill: #2563eb; }
+  pre { white-space: pre-wrap; font-family: inherit; }
+  @media print { body { margin: 0; } .no-print { display: none; } }
+`;
+
+/**
+ * Builds a self-contained HTML document for a finished consultation.
+ * Images are inlined as data URLs so nothing leaves the device.
+ */
+export const buildConsultationSummary = (messages: ChatMessage[], { title, createdAt, language }: SummaryOptions): string => {
+  const t = translatorFor(language);
+  const heading = escapeHtml(t('summary.title'));
+  const disclaimer = escapeHtml(t('summary.disclaimer'));
+  return `<!DOCTYPE html>
+<html lang="${language}" dir="${getLanguage(language).dir}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title)} - ${heading}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+  <h1>${heading}</h1>
+  <div class="muted">${escapeHtml(title)} · ${escapeHtml(t('summary.started', { time: formatTime(createdAt, language) }))} · ${escapeHtml(t('summary.printed', { time: formatTime(Date.now(), language) }))}</div>
+  <p class="disclaimer">${disclaimer}</p>
+  ${profileSection(messages, t)}
+  ${diarySection(messages, t)}
+  <h2>${escapeHtml(t('summary.patientWords'))}</h2>
+  ${descriptionSection(messages, t, language)}
+  <h2>${escapeHtml(t('summary.painLevels'))}</h2>
+  ${painSection(messages, t, language)}
+  ${attachmentsSection(messages, t, language)}
+  <h2>${escapeHtml(t('summary.findings'))}</h2>
+  ${findingsSection(messages, t, language)}
+  ${questionsSection(messages, t)}
+  <p class="disclaimer">${disclaimer}</p>
+  <button class="no-print" onclick="window.print()">${escapeHtml(t('export.summaryHint'))}</button>
+</body>
+</html>`;
+};
+
+/**
+ * Opens the summary in a new tab and the browser's print dialog,
+ * where the user can print it or choose "Save as PDF".
+ */
+export const printConsultationSummary = (messages: ChatMessage[], options: SummaryOptions) => {
+  const html = buildConsultationSummary(messages, options);
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+  const printWindow = window.open(url, '_blank');
+
+  if (!printWindow) {
+    // Pop-ups blocked: fall back to downloading the file
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'health-triage-summary.html';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    return;
+  }
+
+  printWindow.addEventListener('load', () => {
+    printWindow.focus();
+    printWindow.print();
+  });
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
@@ -0,0 +1,20 @@
+/**
+ * Resolves after `ms`, or rejects with the signal's reason as soon as it is
+ * aborted, so backoffs and polling loops stop with the request.
+ */
+export const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  // The abort event has already fired, so listening for it would wait forever
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
@@ -4,15 +4,25 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Behind the proxy the key stays on the server and must not be bundled
+    const usesProxy = env.TRIAGE_PROVIDER === 'proxy';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.TRIAGE_SERVER_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(usesProxy ? '' : env.GEMINI_API_KEY),
+        'process.env.GEMINI_API_KEY': JSON.stringify(usesProxy ? '' : env.GEMINI_API_KEY),
+        'process.env.TRIAGE_PROVIDER': JSON.stringify(env.TRIAGE_PROVIDER || ''),
+        'process.env.TRIAGE_MODEL': JSON.stringify(env.TRIAGE_MODEL || ''),
+        'process.env.TRIAGE_BASE_URL': JSON.stringify(env.TRIAGE_BASE_URL || ''),
+        'process.env.TRIAGE_API_KEY': JSON.stringify(usesProxy ? '' : env.TRIAGE_API_KEY || ''),
+        'process.env.TRIAGE_PROXY_URL': JSON.stringify(env.TRIAGE_PROXY_URL || '')
       },
       resolve: {
         alias: {